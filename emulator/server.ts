@@ -0,0 +1,390 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// Local stand-in for the Apify endpoints src/lib/apify.ts calls, for demos and offline development.
+// replay (default): runs are served from recorded fixtures with simulated durations and failures.
+// record: requests go to the real API and every finished run's dataset is saved as a fixture.
+
+const PORT = Number(process.env.EMULATOR_PORT) || 8787;
+const MODE = process.env.EMULATOR_MODE === 'record' ? 'record' : 'replay';
+const UPSTREAM_URL = (process.env.APIFY_UPSTREAM_URL || 'https://api.apify.com').replace(/\/+$/, '');
+const FIXTURES_DIR = process.env.EMULATOR_FIXTURES_DIR || join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const RUN_DURATION_MS = Number(process.env.EMULATOR_RUN_DURATION_MS) || 8000;
+// Share of replayed runs that end as FAILED regardless of their fixture
+const FAILURE_RATE = Number(process.env.EMULATOR_FAILURE_RATE) || 0;
+// Requests per second answered before replying 429 with a Retry-After, like Apify's rate limit; 0 is unlimited
+const RATE_LIMIT = Number(process.env.EMULATOR_RATE_LIMIT) || 0;
+
+const TERMINAL_STATUSES = ['SUCCEEDED', 'FAILED', 'ABORTED', 'TIMED-OUT'];
+// Price of a compute unit in the usage replayed runs report
+const EMULATED_USD_PER_COMPUTE_UNIT = 0.4;
+
+interface Fixture {
+  actorId: string;
+  // Actor input the fixture was recorded with
+  input?: unknown;
+  items: unknown[];
+  // How long a replayed run takes; EMULATOR_RUN_DURATION_MS when unset
+  durationMs?: number;
+  // Final status of a replayed run, e.g. FAILED or TIMED-OUT to exercise error handling
+  status?: string;
+}
+
+interface ReplayedRun {
+  id: string;
+  actId: string;
+  defaultDatasetId: string;
+  startedAt: number;
+  abortedAt?: number;
+  fixture: Fixture;
+}
+
+// Runs started through the emulator while recording, until their dataset is saved
+interface RecordedRun {
+  actorId: string;
+  input: unknown;
+  startedAt: number;
+  status?: string;
+  finishedAt?: number;
+}
+
+// Account the key health check sees in replay mode; fixtures/account.json overrides any field
+interface EmulatedAccount {
+  username: string;
+  plan: string;
+  monthlyUsageUsd: number;
+  maxMonthlyUsageUsd: number;
+}
+
+const DEFAULT_ACCOUNT: EmulatedAccount = {
+  username: 'emulator',
+  plan: 'EMULATOR',
+  monthlyUsageUsd: 0,
+  maxMonthlyUsageUsd: 5
+};
+
+const replayedRuns = new Map<string, ReplayedRun>();
+const replayedDatasets = new Map<string, ReplayedRun>();
+const recordedRuns = new Map<string, RecordedRun>();
+const recordedDatasets = new Map<string, RecordedRun>();
+
+// Requests in the current one-second rate limit window
+let rateWindowStartedAt = 0;
+let rateWindowRequests = 0;
+
+class EmulatorError extends Error {
+  constructor(public statusCode: number, public type: string, message: string) {
+    super(message);
+  }
+}
+
+function isRateLimited(): boolean {
+  if (!RATE_LIMIT) return false;
+
+  const now = Date.now();
+  if (now - rateWindowStartedAt >= 1000) {
+    rateWindowStartedAt = now;
+    rateWindowRequests = 0;
+  }
+  return ++rateWindowRequests > RATE_LIMIT;
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function getFixtureDir(actorId: string): string {
+  return join(FIXTURES_DIR, actorId.replace(/[^a-zA-Z0-9_-]/g, '_'));
+}
+
+// Same input, same fixture; the key ignores formatting of the JSON body
+function getInputKey(input: unknown): string {
+  return createHash('sha256').update(JSON.stringify(input ?? null)).digest('hex').slice(0, 16);
+}
+
+function parseInput(body: string): unknown {
+  if (!body) return null;
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new EmulatorError(400, 'invalid-input', 'Actor input must be valid JSON');
+  }
+}
+
+// A fixture recorded with the exact input wins; otherwise the actor's default.json is served
+async function loadFixture(actorId: string, input: unknown): Promise<Fixture> {
+  const dir = getFixtureDir(actorId);
+  for (const file of [`${getInputKey(input)}.json`, 'default.json']) {
+    try {
+      const fixture: Fixture = JSON.parse(await readFile(join(dir, file), 'utf8'));
+      console.log('📦 Replaying fixture', join(dir, file));
+      return fixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+  throw new EmulatorError(404, 'record-not-found', `No fixture for actor ${actorId} in ${dir}`);
+}
+
+async function loadAccount(): Promise<EmulatedAccount> {
+  try {
+    return { ...DEFAULT_ACCOUNT, ...JSON.parse(await readFile(join(FIXTURES_DIR, 'account.json'), 'utf8')) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return DEFAULT_ACCOUNT;
+  }
+}
+
+// The usage cycle is the current calendar month
+function getUsageCycle() {
+  const now = new Date();
+  return {
+    startAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString(),
+    endAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) - 1).toISOString()
+  };
+}
+
+function getRunDuration(run: ReplayedRun): number {
+  return run.fixture.durationMs ?? RUN_DURATION_MS;
+}
+
+function getReplayedStatus(run: ReplayedRun): string {
+  if (run.abortedAt) return 'ABORTED';
+  if (Date.now() - run.startedAt < getRunDuration(run)) return 'RUNNING';
+  return run.fixture.status || 'SUCCEEDED';
+}
+
+// Items show up gradually while the run is going, like an actor pushing to its dataset
+function getReplayedItems(run: ReplayedRun): unknown[] {
+  const elapsed = (run.abortedAt ?? Date.now()) - run.startedAt;
+  const share = Math.min(1, elapsed / Math.max(1, getRunDuration(run)));
+  return run.fixture.items.slice(0, Math.floor(run.fixture.items.length * share));
+}
+
+function toRunData(run: ReplayedRun) {
+  const status = getReplayedStatus(run);
+  const endedAt = TERMINAL_STATUSES.includes(status) ? run.abortedAt ?? run.startedAt + getRunDuration(run) : undefined;
+  // Billed like a 1 GB actor: one compute unit per hour of run time
+  const computeUnits = ((endedAt ?? Date.now()) - run.startedAt) / 3_600_000;
+  return {
+    id: run.id,
+    actId: run.actId,
+    defaultDatasetId: run.defaultDatasetId,
+    status,
+    startedAt: new Date(run.startedAt).toISOString(),
+    finishedAt: endedAt !== undefined ? new Date(endedAt).toISOString() : null,
+    stats: { computeUnits },
+    usageTotalUsd: computeUnits * EMULATED_USD_PER_COMPUTE_UNIT
+  };
+}
+
+function getReplayedRun(runId: string): ReplayedRun {
+  const run = replayedRuns.get(runId);
+  if (!run) throw new EmulatorError(404, 'record-not-found', `Actor run ${runId} was not found`);
+  return run;
+}
+
+function getReplayedDataset(datasetId: string): ReplayedRun {
+  const run = replayedDatasets.get(datasetId);
+  if (!run) throw new EmulatorError(404, 'record-not-found', `Dataset ${datasetId} was not found`);
+  return run;
+}
+
+async function handleReplay(method: string, path: string, body: string, res: ServerResponse): Promise<void> {
+  let match: RegExpMatchArray | null;
+
+  if (method === 'POST' && (match = path.match(/^\/v2\/acts\/([^/]+)\/runs$/))) {
+    const actorId = decodeURIComponent(match[1]);
+    const fixture = await loadFixture(actorId, parseInput(body));
+    const run: ReplayedRun = {
+      id: randomUUID(),
+      actId: actorId,
+      defaultDatasetId: randomUUID(),
+      startedAt: Date.now(),
+      fixture: Math.random() < FAILURE_RATE ? { ...fixture, status: 'FAILED' } : fixture
+    };
+    replayedRuns.set(run.id, run);
+    replayedDatasets.set(run.defaultDatasetId, run);
+
+    console.log('🚀 Started emulated run', run.id, 'for', actorId, `(${fixture.items.length} items)`);
+    sendJson(res, 201, { data: toRunData(run) });
+    return;
+  }
+
+  if (method === 'GET' && (match = path.match(/^\/v2\/actor-runs\/([^/]+)$/))) {
+    sendJson(res, 200, { data: toRunData(getReplayedRun(match[1])) });
+    return;
+  }
+
+  if (method === 'POST' && (match = path.match(/^\/v2\/actor-runs\/([^/]+)\/abort$/))) {
+    const run = getReplayedRun(match[1]);
+    if (getReplayedStatus(run) === 'RUNNING') {
+      run.abortedAt = Date.now();
+      console.log('🛑 Aborted emulated run', run.id);
+    }
+    sendJson(res, 200, { data: toRunData(run) });
+    return;
+  }
+
+  if (method === 'GET' && (match = path.match(/^\/v2\/datasets\/([^/]+)$/))) {
+    const run = getReplayedDataset(match[1]);
+    sendJson(res, 200, { data: { id: run.defaultDatasetId, itemCount: getReplayedItems(run).length } });
+    return;
+  }
+
+  if (method === 'GET' && (match = path.match(/^\/v2\/datasets\/([^/]+)\/items$/))) {
+    sendJson(res, 200, getReplayedItems(getReplayedDataset(match[1])));
+    return;
+  }
+
+  if (method === 'GET' && path === '/v2/users/me') {
+    const account = await loadAccount();
+    sendJson(res, 200, {
+      data: {
+        id: 'emulator',
+        username: account.username,
+        plan: { id: account.plan, monthlyUsageCreditsUsd: account.maxMonthlyUsageUsd }
+      }
+    });
+    return;
+  }
+
+  if (method === 'GET' && path === '/v2/users/me/limits') {
+    const account = await loadAccount();
+    sendJson(res, 200, {
+      data: {
+        monthlyUsageCycle: getUsageCycle(),
+        limits: { maxMonthlyUsageUsd: account.maxMonthlyUsageUsd },
+        current: { monthlyUsageUsd: account.monthlyUsageUsd }
+      }
+    });
+    return;
+  }
+
+  throw new EmulatorError(404, 'page-not-found', `${method} ${path} is not emulated`);
+}
+
+async function saveFixture(recorded: RecordedRun, items: unknown[]): Promise<void> {
+  const fixture: Fixture = {
+    actorId: recorded.actorId,
+    input: recorded.input,
+    items,
+    durationMs: (recorded.finishedAt ?? Date.now()) - recorded.startedAt,
+    ...(recorded.status !== 'SUCCEEDED' && { status: recorded.status })
+  };
+
+  const dir = getFixtureDir(recorded.actorId);
+  const file = join(dir, `${getInputKey(recorded.input)}.json`);
+  await mkdir(dir, { recursive: true });
+  await writeFile(file, JSON.stringify(fixture, null, 2));
+  console.log('💾 Recorded fixture', file, `(${items.length} items)`);
+}
+
+// Forwards the request to the real API and keeps what is needed to save the run as a fixture
+async function handleRecord(req: IncomingMessage, path: string, url: string, body: string, res: ServerResponse): Promise<void> {
+  const method = req.method || 'GET';
+  const upstream = await fetch(`${UPSTREAM_URL}${url}`, {
+    method,
+    headers: {
+      ...(req.headers.authorization && { Authorization: req.headers.authorization }),
+      ...(body && { 'Content-Type': 'application/json' })
+    },
+    body: body || undefined
+  });
+  const text = await upstream.text();
+
+  if (upstream.ok) {
+    try {
+      const payload = JSON.parse(text);
+      let match: RegExpMatchArray | null;
+
+      if (method === 'POST' && (match = path.match(/^\/v2\/acts\/([^/]+)\/runs$/))) {
+        const recorded: RecordedRun = { actorId: decodeURIComponent(match[1]), input: parseInput(body), startedAt: Date.now() };
+        recordedRuns.set(payload.data.id, recorded);
+        recordedDatasets.set(payload.data.defaultDatasetId, recorded);
+      } else if (method === 'GET' && (match = path.match(/^\/v2\/actor-runs\/([^/]+)$/))) {
+        const recorded = recordedRuns.get(match[1]);
+        if (recorded && !recorded.finishedAt && TERMINAL_STATUSES.includes(payload.data.status)) {
+          recorded.status = payload.data.status;
+          recorded.finishedAt = Date.now();
+        }
+      } else if (method === 'GET' && (match = path.match(/^\/v2\/datasets\/([^/]+)\/items$/))) {
+        const recorded = recordedDatasets.get(match[1]);
+        // Datasets read mid-run (partial results) are not recorded
+        if (recorded?.finishedAt) {
+          await saveFixture(recorded, payload);
+          recordedDatasets.delete(match[1]);
+        }
+      }
+    } catch (error) {
+      // Recording must never change what the client receives
+      console.error('❌ Error recording response:', error);
+    }
+  }
+
+  const retryAfter = upstream.headers.get('retry-after');
+  if (retryAfter) res.setHeader('Retry-After', retryAfter);
+  res.writeHead(upstream.status, { 'Content-Type': upstream.headers.get('content-type') || 'application/json' });
+  res.end(text);
+}
+
+const server = createServer(async (req, res) => {
+  // The browser app calls the emulator directly
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = req.url || '/';
+  const path = url.split('?')[0];
+
+  try {
+    if (!req.headers.authorization) {
+      throw new EmulatorError(401, 'token-not-provided', 'Authentication token was not provided');
+    }
+
+    if (MODE === 'replay' && isRateLimited()) {
+      res.setHeader('Retry-After', '1');
+      throw new EmulatorError(429, 'rate-limit-exceeded', 'You have exceeded the rate limit of the emulator');
+    }
+
+    const body = await readBody(req);
+    if (MODE === 'record') {
+      await handleRecord(req, path, url, body, res);
+    } else {
+      await handleReplay(req.method || 'GET', path, body, res);
+    }
+  } catch (error) {
+    if (error instanceof EmulatorError) {
+      sendJson(res, error.statusCode, { error: { type: error.type, message: error.message } });
+      return;
+    }
+    console.error('❌ Emulator error:', error);
+    sendJson(res, 500, { error: { type: 'internal-error', message: error instanceof Error ? error.message : 'Unknown error' } });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Apify emulator (${MODE}) listening on http://localhost:${PORT}, fixtures in ${FIXTURES_DIR}`);
+  if (MODE === 'record') {
+    console.log(`🔄 Forwarding to ${UPSTREAM_URL}`);
+  }
+});
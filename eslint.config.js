@@ -24,5 +24,11 @@ export default tseslint.config(
         { allowConstantExport: true },
       ],
     },
+  },
+  {
+    files: ['worker/**/*.ts', 'emulator/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
   }
 );
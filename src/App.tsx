@@ -8,26 +8,59 @@ import { ProfileDetailsDisplay } from './components/ProfileDetailsDisplay';
 import { LoadingProgress } from './components/LoadingProgress';
 import { ProfileResultsTable } from './components/ProfileResultsTable';
 import { ApifyKeyManager } from './components/ApifyKeyManager';
+import { ActorRegistryManager } from './components/ActorRegistryManager';
+import { BudgetManager } from './components/BudgetManager';
+import { ScheduleManager } from './components/ScheduleManager';
 import { ClerkUserMenu } from './components/ClerkUserMenu';
 import { UserProfile } from './components/UserProfile';
 import { JobsTable } from './components/JobsTable';
+import { JobSpendSummary } from './components/JobSpendSummary';
+import { JobErrorSummary } from './components/JobErrorSummary';
 import { JobProgressModal } from './components/JobProgressModal';
 import { StorageManager } from './components/StorageManager';
-import { createApifyService } from './lib/apify';
-import { exportData } from './utils/export';
+import { PostsTable } from './components/PostsTable';
+import { CompanyResults } from './components/CompanyResults';
+import { checkApifyKey, createApifyService, DEFAULT_APIFY_BASE_URL, type CommentScrapeOptions, type SearchScrapeOptions } from './lib/apify';
+import type { ActorRegistry } from './lib/scraperProviders';
+import { assertWithinBudget, BudgetExceededError } from './lib/budgets';
+import { describeJobError, describeJobResult, type JobErrorAction, type JobErrorCode, type JobFailure } from './lib/jobErrors';
+import { loadApifyKeyPool, type KeyPoolMode } from './lib/keyPool';
+import { createTabLeaseId, holdJobLease, isJobLeaseLost, isJobResumableByTab, JobLeaseLostError } from './lib/jobLeases';
+import { DatabaseService, type JobSpend } from './lib/database';
+import {
+  abortJobRun,
+  createJobProgressReporter,
+  createJobRunOptions,
+  estimateJobCostUsd,
+  estimateJobDemand,
+  getProfilesWithOptimization,
+  isCancellationError,
+  parseChunkOptions,
+  planJobRetry,
+  reingestQuarantinedItems,
+  resumeScrapingJob,
+  runScrapingJob,
+  type JobRetryMode,
+  type JobRetryPlan,
+  type ProgressReporter
+} from './lib/jobProcessor';
+import { exportComments, exportData } from './utils/export';
 import { 
   getUserProfile,
-  checkProfileExists, 
   upsertProfile,
   getUserProfiles,
   getAllProfiles,
   createClerkSupabaseClient,
+  createApifyProxyAuth,
   type User,
   type ApifyKey,
   type LinkedInProfile,
-  type ScrapingJob
+  type LinkedInPost,
+  type LinkedInCompany,
+  type ScrapingJob,
+  type ScrapingStage
 } from './lib/supabase-clerk';
-import { Linkedin, Database, Activity, Key, Clock, Loader2, AlertCircle, HardDrive } from 'lucide-react';
+import { Linkedin, Database, Activity, Key, Clock, Loader2, AlertCircle, HardDrive, FileText, CalendarClock } from 'lucide-react';
 
 interface CommentData {
   type: string;
@@ -35,6 +68,8 @@ interface CommentData {
   linkedinUrl: string;
   commentary: string;
   createdAt: string;
+  postUrl?: string;
+  reactionType?: string;
   actor: {
     id: string;
     name: string;
@@ -44,6 +79,36 @@ interface CommentData {
   };
 }
 
+// When a background worker processes the queue, the UI only inserts jobs and watches them
+const USE_BACKGROUND_WORKER = import.meta.env.VITE_USE_BACKGROUND_WORKER === 'true';
+
+// Apify API origin; the local emulator's URL makes every scrape run offline. The browser only
+// calls it directly to verify a key the user has just typed in.
+const APIFY_BASE_URL = import.meta.env.VITE_APIFY_BASE_URL || DEFAULT_APIFY_BASE_URL;
+
+// Every other Apify call goes through the apify-proxy function, which holds the decrypted keys
+const APIFY_PROXY_URL = import.meta.env.VITE_APIFY_PROXY_URL || `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/apify-proxy`;
+
+// Lock this tab holds on the jobs it runs, so other tabs don't resume them too
+const TAB_LEASE_ID = createTabLeaseId();
+
+// The Jobs tab sums spend over this many months, the current one included
+const SPEND_SUMMARY_MONTHS = 6;
+
+const getSpendSummaryStart = () => {
+  const start = new Date();
+  start.setDate(1);
+  start.setHours(0, 0, 0, 0);
+  start.setMonth(start.getMonth() - (SPEND_SUMMARY_MONTHS - 1));
+  return start;
+};
+
+const PROFILE_CHUNK_OPTIONS = parseChunkOptions({
+  chunkSize: import.meta.env.VITE_PROFILE_CHUNK_SIZE,
+  concurrency: import.meta.env.VITE_PROFILE_CHUNK_CONCURRENCY,
+  maxAttempts: import.meta.env.VITE_PROFILE_CHUNK_MAX_ATTEMPTS
+});
+
 // Main App Component that uses Clerk
 function AppContent() {
   const { isSignedIn, user, isLoaded } = useUser();
@@ -52,17 +117,24 @@ function AppContent() {
   const [userProfile, setUserProfile] = useState<User | null>(null);
   const [profiles, setProfiles] = useState<LinkedInProfile[]>([]);
   const [commentersData, setCommentersData] = useState<CommentData[]>([]);
+  const [engagementType, setEngagementType] = useState<'comments' | 'reactions'>('comments');
   const [profileDetails, setProfileDetails] = useState<any[]>([]);
   const [selectedProfileForDetails, setSelectedProfileForDetails] = useState<any>(null);
   const [scrapingJobs, setScrapingJobs] = useState<ScrapingJob[]>([]);
+  const [jobSpend, setJobSpend] = useState<JobSpend[]>([]);
+  const [jobErrorCounts, setJobErrorCounts] = useState<Partial<Record<JobErrorCode, number>>>({});
+  const [posts, setPosts] = useState<LinkedInPost[]>([]);
+  const [companyResults, setCompanyResults] = useState<LinkedInCompany[]>([]);
+  const [companyProfileCounts, setCompanyProfileCounts] = useState<Record<string, number>>({});
   
   // UI state
-  const [activeTab, setActiveTab] = useState<'scraper' | 'profiles' | 'jobs' | 'storage'>('scraper');
-  const [currentView, setCurrentView] = useState<'form' | 'comments' | 'profile-details' | 'profile-table' | 'profiles-list' | 'single-profile-details' | 'user-profile' | 'storage'>('form');
+  const [activeTab, setActiveTab] = useState<'scraper' | 'profiles' | 'posts' | 'jobs' | 'schedules' | 'storage'>('scraper');
+  const [currentView, setCurrentView] = useState<'form' | 'comments' | 'profile-details' | 'profile-table' | 'company-results' | 'profiles-list' | 'single-profile-details' | 'user-profile' | 'storage'>('form');
   const [previousView, setPreviousView] = useState<'form' | 'comments' | 'profile-details' | 'profile-table' | 'profiles-list'>('form');
   
   // Performance optimization: Add loading state for profiles tab
   const [isProfilesTabLoading, setIsProfilesTabLoading] = useState(false);
+  const [isPostsTabLoading, setIsPostsTabLoading] = useState(false);
   
   // Job progress modal state
   const [showJobProgressModal, setShowJobProgressModal] = useState(false);
@@ -71,11 +143,12 @@ function AppContent() {
   // Scraping state
   const [isScraping, setIsScraping] = useState(false);
   const [selectedKeyId, setSelectedKeyId] = useState<string>('');
-  const [loadingStage, setLoadingStage] = useState<'starting' | 'scraping_comments' | 'extracting_profiles' | 'scraping_profiles' | 'saving_data' | 'completed' | 'error'>('starting');
+  const [loadingStage, setLoadingStage] = useState<ScrapingStage>('starting');
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [loadingError, setLoadingError] = useState('');
-  const [scrapingType, setScrapingType] = useState<'post_comments' | 'profile_details' | 'mixed'>('post_comments');
+  const [loadingErrorCode, setLoadingErrorCode] = useState<JobErrorCode>();
+  const [scrapingType, setScrapingType] = useState<ScrapingJob['job_type']>('post_comments');
 
   // Loading and error states
   const [isLoading, setIsLoading] = useState(true);
@@ -83,6 +156,11 @@ function AppContent() {
 
   // Use ref to prevent double initialization
   const initializationRef = useRef(false);
+  const resumeRef = useRef(false);
+  // Abort controllers for the polling loops running in this tab, keyed by job ID
+  const runControllersRef = useRef<Map<string, AbortController>>(new Map());
+  // Set after every render, so the resume effect needn't re-run whenever the function changes
+  const resumeUnfinishedJobsRef = useRef<() => Promise<void>>();
 
   // Initialize user profile when Clerk user is loaded
   useEffect(() => {
@@ -97,11 +175,20 @@ function AppContent() {
       setProfiles([]);
       setScrapingJobs([]);
       initializationRef.current = false;
+      resumeRef.current = false;
     }
     
     setIsLoading(false);
   }, [isLoaded, isSignedIn, user]);
 
+  // Re-attach jobs left running by a closed tab or page reload to their Apify runs
+  useEffect(() => {
+    if (userProfile && !resumeRef.current) {
+      resumeRef.current = true;
+      resumeUnfinishedJobsRef.current?.();
+    }
+  }, [userProfile]);
+
   const initializeUserProfile = async () => {
     if (!user) return;
     
@@ -211,85 +298,227 @@ function AppContent() {
   }
 
   // Rest of your existing component logic...
-  const updateLoadingProgress = (stage: typeof loadingStage, progress: number = 0, message: string = '') => {
+  const updateLoadingProgress: ProgressReporter = (stage, progress = 0, message = '') => {
     setLoadingStage(stage);
     setLoadingProgress(progress);
     setLoadingMessage(message);
   };
 
+  const getDatabaseService = () => new DatabaseService(createClerkSupabaseClient());
+
+  // Shows progress in this tab and saves it on the job row so other tabs and teammates can watch it
+  const createLocalProgressReporter = (jobId: string): ProgressReporter => {
+    const saveProgress = createJobProgressReporter(getDatabaseService(), jobId);
+    return (stage, progress = 0, message = '') => {
+      updateLoadingProgress(stage, progress, message);
+      saveProgress(stage, progress, message);
+    };
+  };
+
   const handleKeySelect = (key: ApifyKey) => {
     console.log('🔑 API key selected:', key.key_name);
     setSelectedKeyId(key.id);
   };
 
-  const createScrapingJob = async (jobType: ScrapingJob['job_type'], inputUrl: string): Promise<string> => {
+  const handleSaveKeyPoolMode = async (mode: KeyPoolMode) => {
+    if (!userProfile) return;
+    setUserProfile(await getDatabaseService().updateKeyPoolMode(userProfile.id, mode));
+  };
+
+  const createProxyApifyService = (apifyKeyId: string) =>
+    createApifyService(createApifyProxyAuth(apifyKeyId), userProfile?.actor_registry, APIFY_PROXY_URL);
+
+  // Service of the key a job runs on and, in key pool mode, the keys it can move to
+  const createJobApifyContext = async (apifyKeyId: string) => {
+    const createService = async (keyId: string) => createProxyApifyService(keyId);
+    return {
+      apifyService: createProxyApifyService(apifyKeyId),
+      apifyKeyId,
+      keyPool: userProfile ? await loadApifyKeyPool(getDatabaseService(), userProfile.id, createService) : undefined
+    };
+  };
+
+  const handleSaveActorRegistry = async (registry: ActorRegistry) => {
+    if (!userProfile) return;
+    setUserProfile(await getDatabaseService().updateActorRegistry(userProfile.id, registry));
+  };
+
+  const createScrapingJob = async (
+    jobType: ScrapingJob['job_type'],
+    inputUrls: string[],
+    status: ScrapingJob['status'] = 'running',
+    commentOptions: CommentScrapeOptions = {},
+    searchOptions: SearchScrapeOptions = {},
+    parentJobId?: string
+  ): Promise<ScrapingJob> => {
     if (!userProfile) throw new Error('User not authenticated');
     
-    console.log('🔍 Creating scraping job:', { jobType, inputUrl });
-    const supabase = createClerkSupabaseClient();
+    console.log('🔍 Creating scraping job:', { jobType, inputUrls, status, commentOptions, searchOptions, parentJobId });
     
-    const { data, error } = await supabase
-      .from('scraping_jobs')
-      .insert({
-        user_id: userProfile.id,
-        apify_key_id: selectedKeyId || null,
-        job_type: jobType,
-        input_url: inputUrl,
-        status: 'running'
-      })
-      .select()
-      .single();
-    
-    if (error) {
+    let job: ScrapingJob;
+    try {
+      const demand = estimateJobDemand(
+        { job_type: jobType, inputs: { urls: inputUrls }, comment_options: commentOptions, search_options: searchOptions },
+        PROFILE_CHUNK_OPTIONS
+      );
+      await assertWithinBudget(getDatabaseService(), userProfile.id, selectedKeyId, demand);
+      
+      job = await getDatabaseService().createJob(
+        userProfile.id,
+        jobType,
+        inputUrls,
+        selectedKeyId,
+        status,
+        commentOptions,
+        searchOptions,
+        parentJobId,
+        undefined,
+        [],
+        // Jobs this tab runs itself are locked to it from the start
+        status === 'running' ? TAB_LEASE_ID : undefined
+      );
+    } catch (error) {
       console.error('❌ Error creating scraping job:', error);
       throw error;
     }
     
-    console.log('✅ Scraping job created:', data.id);
+    console.log('✅ Scraping job created:', job.id);
     
     // Refresh jobs list
     const updatedJobs = await loadScrapingJobs(userProfile.id);
     setScrapingJobs(updatedJobs);
     
-    return data.id;
+    return job;
   };
 
-  const updateScrapingJob = async (jobId: string, status: ScrapingJob['status'], resultsCount?: number, errorMessage?: string) => {
+  const updateScrapingJob = async (jobId: string, status: ScrapingJob['status'], resultsCount?: number, failure?: JobFailure) => {
     if (!userProfile) return;
     
     console.log('🔄 Updating scraping job:', { jobId, status, resultsCount });
-    const supabase = createClerkSupabaseClient();
     
-    const updateData: any = {
-      status,
-      ...(resultsCount !== undefined && { results_count: resultsCount }),
-      ...(errorMessage && { error_message: errorMessage }),
-      ...(status === 'completed' && { completed_at: new Date().toISOString() })
-    };
-
-    await supabase
-      .from('scraping_jobs')
-      .update(updateData)
-      .eq('id', jobId);
+    try {
+      await getDatabaseService().updateJobStatus(jobId, status, resultsCount, failure?.message, failure?.code);
+    } catch (error) {
+      console.error('❌ Error updating scraping job:', error);
+    }
     
     // Refresh jobs list
     const updatedJobs = await loadScrapingJobs(userProfile.id);
     setScrapingJobs(updatedJobs);
   };
 
+  const resumeUnfinishedJobs = async () => {
+    if (!userProfile) return;
+    
+    const jobs = await loadScrapingJobs(userProfile.id);
+    // Jobs claimed by a background worker are the worker's to finish, and jobs of another open
+    // tab are that tab's
+    const unfinishedJobs = jobs.filter(job => isJobResumableByTab(job));
+    if (unfinishedJobs.length === 0) return;
+    
+    console.log('🔄 Resuming', unfinishedJobs.length, 'unfinished jobs');
+    const db = getDatabaseService();
+    await Promise.all(unfinishedJobs.map(async job => {
+      try {
+        const claimedJob = await db.claimJobLease(job.id, TAB_LEASE_ID, job);
+        if (!claimedJob) {
+          console.log('🔄 Job is already being resumed by another tab:', job.id);
+          return;
+        }
+        await resumeJob(claimedJob);
+      } catch (error) {
+        console.error('❌ Error claiming unfinished job:', job.id, error);
+      }
+    }));
+  };
+  resumeUnfinishedJobsRef.current = resumeUnfinishedJobs;
+
+  // Registers a job this tab runs: its polling can be cancelled from here, and its lock is
+  // renewed until the returned function is called. Losing the lock stops the polling.
+  const trackTabJob = (jobId: string, controller: AbortController) => {
+    runControllersRef.current.set(jobId, controller);
+    // Aborted with its own reason, so losing the job isn't taken for a cancel by the user
+    const releaseLease = holdJobLease(getDatabaseService(), jobId, TAB_LEASE_ID, () => controller.abort(new JobLeaseLostError(jobId)));
+
+    return () => {
+      releaseLease();
+      runControllersRef.current.delete(jobId);
+    };
+  };
+
+  const resumeJob = async (job: ScrapingJob) => {
+    if (!userProfile) return;
+    
+    if (!job.apify_run_id || !job.apify_dataset_id) {
+      // The tab was closed before Apify accepted the run, so there is nothing to re-attach to.
+      // Recent jobs are left alone as another tab may still be starting them.
+      const ageMs = Date.now() - new Date(job.created_at).getTime();
+      if (ageMs > 10 * 60 * 1000) {
+        await updateScrapingJob(job.id, 'failed', undefined, { code: 'interrupted', message: 'Job was interrupted before its Apify run started' });
+      }
+      return;
+    }
+    
+    const controller = new AbortController();
+    const releaseJob = trackTabJob(job.id, controller);
+    
+    try {
+      const db = getDatabaseService();
+      if (!job.apify_key_id) {
+        throw new Error('The API key used for this job is no longer available');
+      }
+      
+      // Progress goes to the job row only; this tab's progress view belongs to its own scrape
+      const result = await resumeScrapingJob(job, {
+        db,
+        ...await createJobApifyContext(job.apify_key_id),
+        userId: userProfile.id,
+        jobId: job.id,
+        runOptions: createJobRunOptions(db, job.id, controller.signal),
+        reportProgress: createJobProgressReporter(db, job.id),
+        chunkOptions: PROFILE_CHUNK_OPTIONS
+      });
+      await updateScrapingJob(job.id, 'completed', result.resultsCount, describeJobResult(result));
+      
+      const updatedProfiles = await getUserProfiles(userProfile.id);
+      setProfiles(updatedProfiles);
+      console.log('✅ Resumed job completed:', job.id);
+    } catch (error) {
+      if (isJobLeaseLost(controller.signal)) {
+        console.warn('⚠️ Resumed job was taken over by another tab:', job.id);
+        return;
+      }
+      if (controller.signal.aborted || isCancellationError(error)) {
+        console.log('🛑 Resumed job was cancelled:', job.id);
+        return;
+      }
+      console.error('❌ Error resuming job:', job.id, error);
+      await updateScrapingJob(job.id, 'failed', undefined, describeJobError(error));
+    } finally {
+      releaseJob();
+    }
+  };
+
   const handleCancelJob = async (jobId: string) => {
     try {
       console.log('🛑 Cancelling job:', jobId);
-      const supabase = createClerkSupabaseClient();
+      const db = getDatabaseService();
       
-      await supabase
-        .from('scraping_jobs')
-        .update({ 
-          status: 'cancelled',
-          error_message: 'Job cancelled by user',
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', jobId);
+      // Stop this tab's polling loop first so it doesn't mark the job as failed
+      runControllersRef.current.get(jobId)?.abort();
+      
+      const job = await db.getJob(jobId);
+      let partialCount: number | undefined;
+      if (job?.apify_key_id && userProfile) {
+        partialCount = await abortJobRun(job, {
+          db,
+          apifyService: createProxyApifyService(job.apify_key_id),
+          userId: userProfile.id,
+          jobId
+        });
+      }
+      
+      await db.updateJobStatus(jobId, 'cancelled', partialCount, 'Job cancelled by user');
       
       // Refresh jobs list
       if (userProfile) {
@@ -304,12 +533,81 @@ function AppContent() {
     }
   };
 
+  const handleReingestJob = async (jobId: string) => {
+    if (!userProfile) throw new Error('User profile not loaded');
+    
+    try {
+      const db = getDatabaseService();
+      const job = await db.getJob(jobId);
+      if (!job) throw new Error('Job not found');
+      
+      const result = await reingestQuarantinedItems(job, { db, userId: userProfile.id });
+      
+      const updatedJobs = await loadScrapingJobs(userProfile.id);
+      setScrapingJobs(updatedJobs);
+      return result;
+    } catch (error) {
+      console.error('❌ Error re-ingesting quarantined items:', error);
+      throw error;
+    }
+  };
+
   const handleViewJobProgress = (jobId: string) => {
     setSelectedJobId(jobId);
     setShowJobProgressModal(true);
   };
 
-  const handleScrape = async (type: 'post_comments' | 'profile_details' | 'mixed', url: string) => {
+  // Checks the selected key against Apify and asks before a job that likely costs more than its
+  // remaining credit. A failed check never blocks the job: the scrape reports key problems itself.
+  const confirmCreditForJob = async (job: Parameters<typeof estimateJobCostUsd>[0]): Promise<boolean> => {
+    try {
+      const db = getDatabaseService();
+      const health = await checkApifyKey(createApifyProxyAuth(selectedKeyId), APIFY_PROXY_URL);
+      await db.updateApifyKeyHealth(selectedKeyId, health);
+      
+      if (!health.valid) {
+        return confirm(`${health.error}. The job will most likely fail. Start it anyway?`);
+      }
+      
+      const remainingUsd = health.account?.remainingUsd;
+      const estimatedUsd = estimateJobCostUsd(job);
+      console.log('📊 Estimated job cost:', { estimatedUsd, remainingUsd });
+      if (remainingUsd === undefined || estimatedUsd <= remainingUsd) return true;
+      
+      return confirm(
+        `This job may cost up to $${estimatedUsd.toFixed(2)}, but the selected key has only ` +
+        `$${remainingUsd.toFixed(2)} of credit left this month. Start it anyway?`
+      );
+    } catch (error) {
+      console.error('❌ Error checking Apify credit:', error);
+      return true;
+    }
+  };
+
+  // With a background worker the UI only queues the job and opens its live progress view
+  const queueBackgroundJob = async (
+    jobType: ScrapingJob['job_type'],
+    inputUrls: string[],
+    commentOptions?: CommentScrapeOptions,
+    searchOptions?: SearchScrapeOptions,
+    parentJobId?: string
+  ) => {
+    try {
+      const job = await createScrapingJob(jobType, inputUrls, 'pending', commentOptions, searchOptions, parentJobId);
+      handleViewJobProgress(job.id);
+    } catch (error) {
+      console.error('❌ Error queueing job:', error);
+      alert(error instanceof BudgetExceededError ? error.message : 'Failed to queue scraping job. Please try again.');
+    }
+  };
+
+  const handleScrape = async (
+    type: ScrapingJob['job_type'],
+    urls: string[],
+    commentOptions?: CommentScrapeOptions,
+    searchOptions?: SearchScrapeOptions,
+    parentJobId?: string
+  ) => {
     if (!userProfile) {
       alert('Please sign in to start scraping');
       return;
@@ -320,11 +618,20 @@ function AppContent() {
       return;
     }
 
+    if (!await confirmCreditForJob({ job_type: type, inputs: { urls }, comment_options: commentOptions, search_options: searchOptions })) {
+      return;
+    }
+
+    if (USE_BACKGROUND_WORKER) {
+      await queueBackgroundJob(type, urls, commentOptions, searchOptions, parentJobId);
+      return;
+    }
+
     // Get the selected API key
     const supabase = createClerkSupabaseClient();
     const { data: keyData, error: keyError } = await supabase
       .from('apify_keys')
-      .select('api_key')
+      .select('id')
       .eq('id', selectedKeyId)
       .single();
 
@@ -336,71 +643,64 @@ function AppContent() {
     setIsScraping(true);
     setScrapingType(type);
     setLoadingError('');
+    setLoadingErrorCode(undefined);
     updateLoadingProgress('starting', 0, 'Initializing scraping process...');
     
     let jobId: string | null = null;
+    let releaseJob: (() => void) | undefined;
+    const controller = new AbortController();
     
     try {
       // Create scraping job
-      jobId = await createScrapingJob(type, url);
+      const job = await createScrapingJob(type, urls, 'running', commentOptions, searchOptions, parentJobId);
+      jobId = job.id;
+      releaseJob = trackTabJob(jobId, controller);
       
-      const apifyService = createApifyService(keyData.api_key);
+      const db = getDatabaseService();
+      const result = await runScrapingJob(job, {
+        db,
+        ...await createJobApifyContext(keyData.id),
+        userId: userProfile.id,
+        jobId,
+        runOptions: createJobRunOptions(db, jobId, controller.signal),
+        reportProgress: createLocalProgressReporter(jobId),
+        chunkOptions: PROFILE_CHUNK_OPTIONS
+      });
 
       if (type === 'post_comments') {
-        updateLoadingProgress('scraping_comments', 25, 'Extracting comments from LinkedIn post...');
-        
-        const datasetId = await apifyService.scrapePostComments(url);
-        
-        updateLoadingProgress('saving_data', 75, 'Processing comment data...');
-        const commentsData = await apifyService.getDatasetItems(datasetId);
-        
-        setCommentersData(commentsData);
+        setCommentersData(result.comments);
+        setEngagementType('comments');
+        setCurrentView('comments');
+      } else if (type === 'post_reactions') {
+        // Reactors go through the same selection view as commenters
+        setCommentersData((result.reactions || []).map(reaction => ({
+          type: 'reaction',
+          id: reaction.id,
+          linkedinUrl: '',
+          commentary: '',
+          createdAt: '',
+          postUrl: reaction.postUrl,
+          reactionType: reaction.reactionType,
+          actor: reaction.actor
+        })));
+        setEngagementType('reactions');
         setCurrentView('comments');
-        
-        updateLoadingProgress('completed', 100, 'Comments extracted successfully!');
-        await updateScrapingJob(jobId, 'completed', commentsData.length);
-
-      } else if (type === 'profile_details') {
-        updateLoadingProgress('scraping_profiles', 25, 'Checking existing profiles in database...');
-        
-        const profileUrls = Array.isArray(url) ? url : [url];
-        const profilesData = await getProfilesWithOptimization(profileUrls, apifyService, userProfile.id);
-        
-        updateLoadingProgress('saving_data', 75, 'Saving profile data...');
-        setProfileDetails(profilesData);
+      } else if (type === 'company_details') {
+        const companies = result.companies || [];
+        setCompanyResults(companies);
+        try {
+          setCompanyProfileCounts(await db.getCompanyProfileCounts(companies.map(company => company.company_key)));
+        } catch (error) {
+          console.error('❌ Error counting company profiles:', error);
+        }
+        setCurrentView('company-results');
+      } else if (result.profiles.length > 0) {
+        setProfileDetails(result.profiles);
         setPreviousView('form');
         setCurrentView('profile-table');
-        
-        updateLoadingProgress('completed', 100, 'Profile details scraped successfully!');
-        await updateScrapingJob(jobId, 'completed', profilesData.length);
-
-      } else if (type === 'mixed') {
-        updateLoadingProgress('scraping_comments', 20, 'Extracting comments from LinkedIn post...');
-        
-        const datasetId = await apifyService.scrapePostComments(url);
-        const commentsData = await apifyService.getDatasetItems(datasetId);
-        
-        updateLoadingProgress('extracting_profiles', 40, 'Extracting profile URLs from comments...');
-        
-        const profileUrls = commentsData
-          .map(comment => comment.actor?.linkedinUrl)
-          .filter(Boolean)
-          .slice(0, 50);
-        
-        if (profileUrls.length > 0) {
-          updateLoadingProgress('scraping_profiles', 60, `Checking and scraping ${profileUrls.length} profiles...`);
-          
-          const profilesData = await getProfilesWithOptimization(profileUrls, apifyService, userProfile.id);
-          
-          updateLoadingProgress('saving_data', 85, 'Saving all data...');
-          setProfileDetails(profilesData);
-          setPreviousView('form');
-          setCurrentView('profile-table');
-        }
-
-        updateLoadingProgress('completed', 100, 'Mixed scraping completed successfully!');
-        await updateScrapingJob(jobId, 'completed', profileUrls.length);
       }
+      
+      await updateScrapingJob(jobId, 'completed', result.resultsCount, describeJobResult(result));
 
       // Refresh profiles list based on current tab
       if (activeTab !== 'profiles') {
@@ -413,81 +713,57 @@ function AppContent() {
       }
 
     } catch (error) {
-      console.error('❌ Scraping error:', error);
-      
-      let errorMessage = 'Unknown error occurred';
-      if (error instanceof Error) {
-        errorMessage = error.message;
+      if (isJobLeaseLost(controller.signal)) {
+        // The job goes on in the tab that took it over, which records how it ends
+        console.warn('⚠️ Scraping taken over by another tab:', jobId);
+        setLoadingError('This job was taken over by another tab');
+        updateLoadingProgress('error', 0, 'Scraping continues in another tab');
+        return;
+      }
+      if (controller.signal.aborted || isCancellationError(error)) {
+        // handleCancelJob already recorded the cancellation on the job
+        console.log('🛑 Scraping cancelled:', jobId);
+        setLoadingError('Job cancelled by user');
+        updateLoadingProgress('error', 0, 'Scraping cancelled');
+        return;
       }
       
-      setLoadingError(errorMessage);
+      console.error('❌ Scraping error:', error);
+      
+      const failure = describeJobError(error);
+      setLoadingError(failure.message);
+      setLoadingErrorCode(failure.code);
       updateLoadingProgress('error', 0, 'Scraping failed');
       
       if (jobId) {
-        await updateScrapingJob(jobId, 'failed', undefined, errorMessage);
+        await updateScrapingJob(jobId, 'failed', undefined, failure);
       }
       
     } finally {
+      releaseJob?.();
       setIsScraping(false);
     }
   };
 
-  const getProfilesWithOptimization = async (profileUrls: string[], apifyService: any, userId: string): Promise<any[]> => {
-    const results: any[] = [];
-    const urlsToScrape: string[] = [];
-    let savedCost = 0;
-    
-    updateLoadingProgress('scraping_profiles', 30, 'Checking database for existing profiles...');
-    
-    // Check each URL in database first
-    for (const url of profileUrls) {
-      const existingProfile = await checkProfileExists(url);
-      if (existingProfile) {
-        results.push(existingProfile.profile_data);
-        savedCost++;
-      } else {
-        urlsToScrape.push(url);
-      }
-    }
-    
-    if (urlsToScrape.length > 0) {
-      updateLoadingProgress('scraping_profiles', 50, `Scraping ${urlsToScrape.length} new profiles (saved ${savedCost} API calls)...`);
-      
-      const datasetId = await apifyService.scrapeProfiles(urlsToScrape);
-      const newProfilesData = await apifyService.getDatasetItems(datasetId);
-      
-      updateLoadingProgress('scraping_profiles', 70, 'Saving new profiles...');
-      
-      // Save new profiles to database with better error handling
-      for (const profileData of newProfilesData) {
-        if (profileData.linkedinUrl) {
-          try {
-            await upsertProfile(userId, profileData.linkedinUrl, profileData);
-            results.push(profileData);
-          } catch (saveError) {
-            console.error('❌ Error saving profile:', profileData.linkedinUrl, saveError);
-            // Continue with other profiles even if one fails
-            results.push(profileData); // Still include in results for display
-          }
-        }
-      }
-    }
-    
-    updateLoadingProgress('scraping_profiles', 90, `Completed! Saved ${savedCost} API calls by using cached profiles.`);
-    
-    return results;
-  };
-
   const handleScrapeSelectedCommenterProfiles = async (profileUrls: string[]) => {
     if (!userProfile || !selectedKeyId) {
       alert('Please ensure you are signed in and have selected an API key');
       return;
     }
 
+    if (!await confirmCreditForJob({ job_type: 'profile_details', inputs: { urls: profileUrls } })) {
+      return;
+    }
+
+    if (USE_BACKGROUND_WORKER) {
+      await queueBackgroundJob('profile_details', profileUrls);
+      return;
+    }
+
     const supabase = createClerkSupabaseClient();
     const { data: keyData, error: keyError } = await supabase
       .from('apify_keys')
-      .select('api_key')
+      .select('id')
       .eq('id', selectedKeyId)
       .single();
 
@@ -499,23 +775,37 @@ function AppContent() {
     setIsScraping(true);
     setScrapingType('profile_details');
     setLoadingError('');
+    setLoadingErrorCode(undefined);
     updateLoadingProgress('scraping_profiles', 25, `Checking and scraping ${profileUrls.length} selected profiles...`);
     
     let jobId: string | null = null;
+    let releaseJob: (() => void) | undefined;
+    const controller = new AbortController();
     
     try {
-      jobId = await createScrapingJob('profile_details', profileUrls.join(','));
+      const job = await createScrapingJob('profile_details', profileUrls);
+      jobId = job.id;
+      releaseJob = trackTabJob(jobId, controller);
+      const reportProgress = createLocalProgressReporter(jobId);
       
-      const apifyService = createApifyService(keyData.api_key);
-      const profilesData = await getProfilesWithOptimization(profileUrls, apifyService, userProfile.id);
+      const db = getDatabaseService();
+      const { profiles: profilesData, failedUrls } = await getProfilesWithOptimization(profileUrls, {
+        db,
+        ...await createJobApifyContext(keyData.id),
+        userId: userProfile.id,
+        jobId,
+        runOptions: createJobRunOptions(db, jobId, controller.signal),
+        reportProgress,
+        chunkOptions: PROFILE_CHUNK_OPTIONS
+      });
       
-      updateLoadingProgress('saving_data', 75, 'Processing profile data...');
+      reportProgress('saving_data', 75, 'Processing profile data...');
       setProfileDetails(profilesData);
       setPreviousView('comments');
       setCurrentView('profile-table');
-      updateLoadingProgress('completed', 100, 'Selected profiles scraped successfully!');
+      reportProgress('completed', 100, 'Selected profiles scraped successfully!');
       
-      await updateScrapingJob(jobId, 'completed', profilesData.length);
+      await updateScrapingJob(jobId, 'completed', profilesData.length, describeJobResult({ resultsCount: profilesData.length, failedUrls }));
       
       // Refresh profiles list based on current tab
       if (activeTab === 'profiles') {
@@ -527,18 +817,30 @@ function AppContent() {
       }
       
     } catch (error) {
-      console.error('❌ Error scraping selected profiles:', error);
-      let errorMessage = 'Unknown error occurred';
-      if (error instanceof Error) {
-        errorMessage = error.message;
+      if (isJobLeaseLost(controller.signal)) {
+        console.warn('⚠️ Scraping taken over by another tab:', jobId);
+        setLoadingError('This job was taken over by another tab');
+        updateLoadingProgress('error', 0, 'Scraping continues in another tab');
+        return;
       }
-      setLoadingError(errorMessage);
+      if (controller.signal.aborted || isCancellationError(error)) {
+        console.log('🛑 Scraping cancelled:', jobId);
+        setLoadingError('Job cancelled by user');
+        updateLoadingProgress('error', 0, 'Scraping cancelled');
+        return;
+      }
+      
+      console.error('❌ Error scraping selected profiles:', error);
+      const failure = describeJobError(error);
+      setLoadingError(failure.message);
+      setLoadingErrorCode(failure.code);
       updateLoadingProgress('error', 0, 'Failed to scrape selected profiles');
       
       if (jobId) {
-        await updateScrapingJob(jobId, 'failed', undefined, errorMessage);
+        await updateScrapingJob(jobId, 'failed', undefined, failure);
       }
     } finally {
+      releaseJob?.();
       setIsScraping(false);
     }
   };
@@ -581,7 +883,7 @@ function AppContent() {
     const supabase = createClerkSupabaseClient();
     const { data: keyData, error: keyError } = await supabase
       .from('apify_keys')
-      .select('api_key')
+      .select('id')
       .eq('id', selectedKeyId)
       .single();
 
@@ -591,8 +893,11 @@ function AppContent() {
     }
 
     try {
-      const apifyService = createApifyService(keyData.api_key);
-      const profilesData = await getProfilesWithOptimization([profileUrl], apifyService, userProfile.id);
+      const { profiles: profilesData } = await getProfilesWithOptimization([profileUrl], {
+        db: getDatabaseService(),
+        apifyService: createProxyApifyService(keyData.id),
+        userId: userProfile.id
+      });
       
       if (profilesData.length > 0) {
         // Refresh profiles list based on current tab
@@ -607,7 +912,7 @@ function AppContent() {
       }
     } catch (error) {
       console.error('❌ Error updating profile:', error);
-      alert('Error updating profile. Please try again.');
+      alert(error instanceof BudgetExceededError ? error.message : 'Error updating profile. Please try again.');
     }
   };
 
@@ -620,7 +925,7 @@ function AppContent() {
     const supabase = createClerkSupabaseClient();
     const { data: keyData, error: keyError } = await supabase
       .from('apify_keys')
-      .select('api_key')
+      .select('id')
       .eq('id', selectedKeyId)
       .single();
 
@@ -630,8 +935,12 @@ function AppContent() {
     }
 
     try {
-      const apifyService = createApifyService(keyData.api_key);
-      await getProfilesWithOptimization(profileUrls, apifyService, userProfile.id);
+      await getProfilesWithOptimization(profileUrls, {
+        db: getDatabaseService(),
+        apifyService: createProxyApifyService(keyData.id),
+        userId: userProfile.id,
+        chunkOptions: PROFILE_CHUNK_OPTIONS
+      });
       
       // Refresh profiles list based on current tab
       if (activeTab === 'profiles') {
@@ -644,7 +953,7 @@ function AppContent() {
       alert(`Successfully updated ${profileUrls.length} profiles!`);
     } catch (error) {
       console.error('❌ Error updating profiles:', error);
-      alert('Error updating profiles. Please try again.');
+      alert(error instanceof BudgetExceededError ? error.message : 'Error updating profiles. Please try again.');
     }
   };
 
@@ -684,16 +993,22 @@ function AppContent() {
     exportData(profileDetails.map(profile => ({ profile_data: profile })), format, 'profile_results');
   };
 
+  const handleExportCommentResults = (format: string) => {
+    exportComments(commentersData, format, engagementType === 'reactions' ? 'reaction_results' : 'comment_results');
+  };
+
   const handleBackToForm = () => {
     setCurrentView('form');
     setCommentersData([]);
     setProfileDetails([]);
+    setCompanyResults([]);
     setSelectedProfileForDetails(null);
     setPreviousView('form');
     setLoadingStage('starting');
     setLoadingProgress(0);
     setLoadingMessage('');
     setLoadingError('');
+    setLoadingErrorCode(undefined);
   };
 
   const handleBackToPrevious = () => {
@@ -727,7 +1042,7 @@ function AppContent() {
   };
 
   // Performance optimization: Load all profiles only when profiles tab is clicked
-  const handleTabChange = async (tab: 'scraper' | 'profiles' | 'jobs' | 'storage') => {
+  const handleTabChange = async (tab: 'scraper' | 'profiles' | 'posts' | 'jobs' | 'schedules' | 'storage') => {
     setActiveTab(tab);
     
     if (tab === 'profiles') {
@@ -752,13 +1067,127 @@ function AppContent() {
           console.error('❌ Error loading user profiles:', error);
         }
       }
+    } else if (tab === 'posts') {
+      setCurrentView('form'); // Posts will be shown in the main content
+      setIsPostsTabLoading(true);
+      try {
+        setPosts(await getDatabaseService().getPosts());
+      } catch (error) {
+        console.error('❌ Error loading posts:', error);
+      } finally {
+        setIsPostsTabLoading(false);
+      }
     } else if (tab === 'jobs') {
       setCurrentView('form'); // Jobs will be shown in the main content
+      if (userProfile) {
+        try {
+          const db = getDatabaseService();
+          const [spend, errorCounts] = await Promise.all([
+            db.getJobSpend(userProfile.id, getSpendSummaryStart()),
+            db.getJobErrorCounts(userProfile.id, getSpendSummaryStart())
+          ]);
+          setJobSpend(spend);
+          setJobErrorCounts(errorCounts);
+        } catch (error) {
+          console.error('❌ Error loading job spend:', error);
+        }
+      }
+    } else if (tab === 'schedules') {
+      setCurrentView('form'); // The schedule manager loads its own data
     } else if (tab === 'storage') {
       setCurrentView('storage');
     }
   };
 
+  // Reopens a previously scraped post's commenters from the database
+  const handleViewPostComments = async (post: LinkedInPost) => {
+    try {
+      const postComments = await getDatabaseService().getPostComments(post.post_urn);
+      setCommentersData(postComments.map(comment => ({ ...comment.comment_data, postUrl: post.post_url })));
+      setEngagementType('comments');
+      setActiveTab('scraper');
+      setCurrentView('comments');
+    } catch (error) {
+      console.error('❌ Error loading post comments:', error);
+      alert('Failed to load post comments. Please try again.');
+    }
+  };
+
+  // Reopens what a past job produced, cache hits included, in the same views as a fresh result
+  const handleViewJobResults = async (jobId: string) => {
+    const job = scrapingJobs.find(j => j.id === jobId);
+    if (!job) return;
+
+    console.log('🔍 Loading results of job:', jobId);
+    const { profiles, comments } = await getDatabaseService().getJobResults(jobId);
+    if (profiles.length === 0 && comments.length === 0) {
+      alert('No saved results were found for this job. Jobs that ran before results were linked to jobs cannot be reopened.');
+      return;
+    }
+
+    setCommentersData(comments.map(comment => comment.comment_data));
+    setEngagementType('comments');
+    setActiveTab('scraper');
+
+    // Mixed jobs open on their profiles, with their comments one step back
+    if (profiles.length > 0) {
+      setProfileDetails(profiles.map(profile =>
+        job.job_type === 'profile_posts' && profile.recent_posts
+          ? { ...profile.profile_data, recentPosts: profile.recent_posts }
+          : profile.profile_data
+      ));
+      setPreviousView(comments.length > 0 ? 'comments' : 'form');
+      setCurrentView('profile-table');
+    } else {
+      setCurrentView('comments');
+    }
+  };
+
+  // Runs a finished job again as a child job with the same options, on the selected key
+  const handleRetryJob = async (jobId: string, mode: JobRetryMode) => {
+    const job = scrapingJobs.find(j => j.id === jobId);
+    if (!job) return;
+
+    let plan: JobRetryPlan | null;
+    try {
+      plan = await planJobRetry(job, mode, { db: getDatabaseService() });
+    } catch (error) {
+      console.error('❌ Error planning job retry:', error);
+      alert('Failed to check which URLs of this job already have results. Please try again.');
+      return;
+    }
+
+    if (!plan) {
+      alert('Every URL of this job already succeeded; there is nothing to retry.');
+      return;
+    }
+
+    if (plan.rerunsWholeJob && !confirm(
+      `This job's results aren't tracked per URL, so the retry runs all ${plan.urls.length} of its URLs again. ` +
+      'Profiles it already saved are taken from the database. Retry anyway?'
+    )) {
+      return;
+    }
+
+    console.log('🔄 Retrying job:', jobId, mode, plan.jobType, plan.urls.length, 'URLs');
+    setActiveTab('scraper');
+    setCurrentView('form');
+    await handleScrape(plan.jobType, plan.urls, job.comment_options, job.search_options, job.id);
+  };
+
+  // Remedies offered next to a job's error in the Jobs tab
+  const handleJobErrorAction = async (jobId: string, action: JobErrorAction) => {
+    if (action === 'retry_failed_urls') {
+      await handleRetryJob(jobId, 'failed_only');
+      return;
+    }
+
+    // Keys and budgets are managed above the scraping form
+    setActiveTab('scraper');
+    setCurrentView('form');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const handleOpenProfile = () => {
     setCurrentView('user-profile');
   };
@@ -805,6 +1234,17 @@ function AppContent() {
                   <Database className="w-4 h-4 inline mr-2" />
                   Profiles ({profiles.length})
                 </button>
+                <button
+                  onClick={() => handleTabChange('posts')}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                    activeTab === 'posts'
+                      ? 'bg-blue-100 text-blue-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                  }`}
+                >
+                  <FileText className="w-4 h-4 inline mr-2" />
+                  Posts
+                </button>
                 <button
                   onClick={() => handleTabChange('jobs')}
                   className={`px-4 py-2 rounded-lg font-medium transition-colors ${
@@ -816,6 +1256,17 @@ function AppContent() {
                   <Clock className="w-4 h-4 inline mr-2" />
                   Jobs ({scrapingJobs.length})
                 </button>
+                <button
+                  onClick={() => handleTabChange('schedules')}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                    activeTab === 'schedules'
+                      ? 'bg-blue-100 text-blue-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                  }`}
+                >
+                  <CalendarClock className="w-4 h-4 inline mr-2" />
+                  Schedules
+                </button>
                 <button
                   onClick={() => handleTabChange('storage')}
                   className={`px-4 py-2 rounded-lg font-medium transition-colors ${
@@ -848,9 +1299,27 @@ function AppContent() {
               <div className="mb-8">
                 <ApifyKeyManager
                   userId={userProfile.id}
+                  apiBaseUrl={APIFY_BASE_URL}
+                  proxyUrl={APIFY_PROXY_URL}
+                  keyPoolMode={userProfile?.key_pool_mode || 'off'}
+                  onKeyPoolModeChange={handleSaveKeyPoolMode}
                   selectedKeyId={selectedKeyId}
                   onKeySelect={handleKeySelect}
                 />
+                <div className="mt-4">
+                  <ActorRegistryManager
+                    registry={userProfile?.actor_registry || {}}
+                    onSave={handleSaveActorRegistry}
+                  />
+                </div>
+                {userProfile && (
+                  <div className="mt-4">
+                    <BudgetManager
+                      currentUser={userProfile}
+                      onUserUpdated={setUserProfile}
+                    />
+                  </div>
+                )}
               </div>
             )}
 
@@ -871,6 +1340,7 @@ function AppContent() {
                         progress={loadingProgress}
                         message={loadingMessage}
                         error={loadingError}
+                        errorCode={loadingErrorCode}
                       />
                     )}
                     
@@ -918,6 +1388,7 @@ function AppContent() {
                 {currentView === 'comments' && (
                   <CommentResults
                     comments={commentersData}
+                    engagementType={engagementType}
                     onScrapeSelectedProfiles={handleScrapeSelectedCommenterProfiles}
                     isLoading={isScraping}
                     onBack={handleBackToForm}
@@ -925,6 +1396,8 @@ function AppContent() {
                     loadingProgress={loadingProgress}
                     loadingMessage={loadingMessage}
                     loadingError={loadingError}
+                    loadingErrorCode={loadingErrorCode}
+                    onExport={handleExportCommentResults}
                   />
                 )}
 
@@ -950,6 +1423,14 @@ function AppContent() {
                   </div>
                 )}
 
+                {currentView === 'company-results' && (
+                  <CompanyResults
+                    companies={companyResults}
+                    profileCounts={companyProfileCounts}
+                    onBack={handleBackToForm}
+                  />
+                )}
+
                 {currentView === 'profile-details' && (
                   <ProfileDetailsDisplay
                     profiles={profileDetails}
@@ -963,7 +1444,10 @@ function AppContent() {
               <>
                 {currentView === 'single-profile-details' ? (
                   <ProfileDetailsDisplay
-                    profiles={selectedProfileForDetails ? [selectedProfileForDetails.profile_data] : []}
+                    profiles={selectedProfileForDetails ? [{
+                      ...selectedProfileForDetails.profile_data,
+                      recentPosts: selectedProfileForDetails.recent_posts
+                    }] : []}
                     onBack={handleBackToProfilesList}
                   />
                 ) : (
@@ -991,11 +1475,35 @@ function AppContent() {
               </>
             )}
 
+            {activeTab === 'posts' && (
+              <PostsTable
+                posts={posts}
+                isLoading={isPostsTabLoading}
+                onViewComments={handleViewPostComments}
+              />
+            )}
+
             {activeTab === 'jobs' && (
-              <JobsTable 
-                jobs={scrapingJobs} 
-                onCancelJob={handleCancelJob}
-                onViewJobProgress={handleViewJobProgress}
+              <>
+                <JobSpendSummary spend={jobSpend} />
+                <JobErrorSummary counts={jobErrorCounts} period={`last ${SPEND_SUMMARY_MONTHS} months`} />
+                <JobsTable 
+                  jobs={scrapingJobs} 
+                  onCancelJob={handleCancelJob}
+                  onViewJobProgress={handleViewJobProgress}
+                  onReingestJob={handleReingestJob}
+                  onErrorAction={handleJobErrorAction}
+                  onRetryJob={handleRetryJob}
+                  onViewJobResults={handleViewJobResults}
+                />
+              </>
+            )}
+
+            {activeTab === 'schedules' && userProfile && (
+              <ScheduleManager
+                userId={userProfile.id}
+                backgroundWorkerEnabled={USE_BACKGROUND_WORKER}
+                onViewJob={handleViewJobProgress}
               />
             )}
           </>
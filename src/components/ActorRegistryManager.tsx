@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Cpu, AlertCircle, CheckCircle } from 'lucide-react';
+import {
+  COMMENT_ACTOR_ADAPTERS,
+  COMPANY_ACTOR_ADAPTERS,
+  PROFILE_ACTOR_ADAPTERS,
+  PROFILE_POSTS_ACTOR_ADAPTERS,
+  REACTION_ACTOR_ADAPTERS,
+  SEARCH_ACTOR_ADAPTERS,
+  resolveActorAdapters,
+  type ActorRegistry
+} from '../lib/scraperProviders';
+
+const ACTOR_CHOICES: { kind: keyof ActorRegistry; label: string; adapters: { id: string; label: string }[] }[] = [
+  { kind: 'comments', label: 'Post comments', adapters: COMMENT_ACTOR_ADAPTERS },
+  { kind: 'reactions', label: 'Post reactions', adapters: REACTION_ACTOR_ADAPTERS },
+  { kind: 'profiles', label: 'Profile details', adapters: PROFILE_ACTOR_ADAPTERS },
+  { kind: 'profilePosts', label: 'Profile posts', adapters: PROFILE_POSTS_ACTOR_ADAPTERS },
+  { kind: 'search', label: 'People search', adapters: SEARCH_ACTOR_ADAPTERS },
+  { kind: 'companies', label: 'Company details', adapters: COMPANY_ACTOR_ADAPTERS }
+];
+
+interface ActorRegistryManagerProps {
+  registry: ActorRegistry;
+  onSave: (registry: ActorRegistry) => Promise<void>;
+}
+
+export const ActorRegistryManager: React.FC<ActorRegistryManagerProps> = ({ registry, onSave }) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const resolved = resolveActorAdapters(registry);
+
+  const handleChange = async (kind: keyof ActorRegistry, adapterId: string) => {
+    setIsSaving(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      await onSave({ ...registry, [kind]: adapterId });
+      setSuccess('Actor selection saved. New jobs will use it.');
+    } catch (saveError) {
+      console.error('❌ Error saving actor registry:', saveError);
+      setError('Failed to save the actor selection. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <div className="flex items-center gap-2 mb-4">
+        <Cpu className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900">Scraping Actors</h3>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg flex items-start gap-2">
+          <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-green-700">{success}</div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {ACTOR_CHOICES.map(({ kind, label, adapters }) => (
+          <div key={kind}>
+            <label htmlFor={`${kind}Actor`} className="block text-sm text-gray-600 mb-1">
+              {label}
+            </label>
+            <select
+              id={`${kind}Actor`}
+              value={resolved[kind].id}
+              onChange={(e) => handleChange(kind, e.target.value)}
+              disabled={isSaving}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+            >
+              {adapters.map(adapter => (
+                <option key={adapter.id} value={adapter.id}>{adapter.label}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500">
+        Every actor's output is converted to the same comment, reaction, profile, post and company format, so tables and exports work with any of them.
+      </p>
+    </div>
+  );
+};
@@ -1,27 +1,47 @@
 import React, { useState, useEffect } from 'react';
-import { Key, Plus, Edit3, Trash2, Eye, EyeOff, AlertCircle, CheckCircle } from 'lucide-react';
+import { Key, Plus, Edit3, Trash2, AlertCircle, CheckCircle, RefreshCw } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { ApifyKey } from '../lib/supabase';
+import { createApifyProxyAuth } from '../lib/supabase-clerk';
+import { APIFY_KEY_COLUMNS } from '../lib/database';
+import { checkApifyKey, DEFAULT_APIFY_BASE_URL, type ApifyKeyHealth } from '../lib/apify';
+import type { KeyPoolMode } from '../lib/keyPool';
 
 interface ApifyKeyManagerProps {
   userId: string;
   selectedKeyId?: string;
   onKeySelect: (key: ApifyKey) => void;
+  // Where a newly entered key is checked; the emulator when working offline
+  apiBaseUrl?: string;
+  // apify-proxy function that checks saved keys, whose value the browser never gets back
+  proxyUrl: string;
+  keyPoolMode?: KeyPoolMode;
+  onKeyPoolModeChange?: (mode: KeyPoolMode) => Promise<void>;
 }
 
+// Below this much credit a key is shown as running low
+const LOW_CREDIT_USD = 1;
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
 export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
   userId,
   selectedKeyId,
-  onKeySelect
+  onKeySelect,
+  apiBaseUrl = DEFAULT_APIFY_BASE_URL,
+  proxyUrl,
+  keyPoolMode = 'off',
+  onKeyPoolModeChange
 }) => {
   const [keys, setKeys] = useState<ApifyKey[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingKey, setEditingKey] = useState<ApifyKey | null>(null);
-  const [showApiKey, setShowApiKey] = useState<Record<string, boolean>>({});
   const [formData, setFormData] = useState({ key_name: '', api_key: '' });
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
+  const [checkingKeys, setCheckingKeys] = useState<Set<string>>(new Set());
+  const [isSavingPoolMode, setIsSavingPoolMode] = useState(false);
 
   useEffect(() => {
     if (userId) {
@@ -35,7 +55,7 @@ export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
       setError('');
       const { data, error } = await supabase
         .from('apify_keys')
-        .select('*')
+        .select(APIFY_KEY_COLUMNS)
         .eq('user_id', userId)
         .order('created_at', { ascending: false });
 
@@ -70,7 +90,8 @@ export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
       setError('Please enter a key name');
       return false;
     }
-    if (!formData.api_key.trim()) {
+    // When editing, an empty key field keeps the saved key
+    if (!formData.api_key.trim() && !editingKey) {
       setError('Please enter an API key');
       return false;
     }
@@ -78,7 +99,7 @@ export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
       setError('Key name must be at least 2 characters long');
       return false;
     }
-    if (formData.api_key.trim().length < 10) {
+    if (formData.api_key.trim() && formData.api_key.trim().length < 10) {
       setError('API key seems too short. Please check your key.');
       return false;
     }
@@ -89,22 +110,31 @@ export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
     if (!validateForm()) return;
 
     console.log('🔍 Starting to save API key...');
-    console.log('📊 Form data:', { 
-      key_name: formData.key_name, 
-      api_key: formData.api_key.substring(0, 10) + '...' // Log only first 10 chars for security
-    });
+    console.log('📊 Form data:', { key_name: formData.key_name, newKey: !!formData.api_key.trim() });
 
     setIsLoading(true);
     setError('');
     setSuccess('');
 
     try {
+      // A key Apify rejects is never saved; one that can't be checked right now is. The database
+      // encrypts it on write, so this is the only time the browser holds it.
+      let health: ApifyKeyHealth | undefined;
+      if (formData.api_key.trim()) {
+        console.log('🔍 Verifying API key with Apify...');
+        health = await checkApifyKey(formData.api_key.trim(), apiBaseUrl);
+        if (!health.valid) {
+          setError(`${health.error}. Please check the key and try again.`);
+          return;
+        }
+      }
+
       if (editingKey) {
         console.log('🔄 Updating existing API key:', editingKey.id);
         
         const updateData = {
           key_name: formData.key_name.trim(),
-          api_key: formData.api_key.trim(),
+          ...(health ? { api_key: formData.api_key.trim(), health_status: health } : {}),
           updated_at: new Date().toISOString()
         };
         
@@ -115,7 +145,7 @@ export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
           .from('apify_keys')
           .update(updateData)
           .eq('id', editingKey.id)
-          .select()
+          .select(APIFY_KEY_COLUMNS)
           .single();
 
         const endTime = Date.now();
@@ -142,7 +172,8 @@ export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
         const insertData = {
           user_id: userId,
           key_name: formData.key_name.trim(),
-          api_key: formData.api_key.trim()
+          api_key: formData.api_key.trim(),
+          health_status: health
         };
         
         console.log('📤 Sending insert request...');
@@ -151,7 +182,7 @@ export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
         const { data, error } = await supabase
           .from('apify_keys')
           .insert([insertData])
-          .select()
+          .select(APIFY_KEY_COLUMNS)
           .single();
 
         const endTime = Date.now();
@@ -251,16 +282,97 @@ export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
     }
   };
 
-  const toggleKeyVisibility = (keyId: string) => {
-    setShowApiKey(prev => ({
-      ...prev,
-      [keyId]: !prev[keyId]
-    }));
+  const checkKey = async (key: ApifyKey) => {
+    setCheckingKeys(prev => new Set(prev).add(key.id));
+    setError('');
+
+    try {
+      console.log('🔍 Checking API key health:', key.key_name);
+      const health = await checkApifyKey(createApifyProxyAuth(key.id), proxyUrl);
+
+      const { data, error } = await supabase
+        .from('apify_keys')
+        .update({ health_status: health })
+        .eq('id', key.id)
+        .select(APIFY_KEY_COLUMNS)
+        .single();
+
+      if (error) {
+        console.error('❌ Error saving key health:', error);
+        // Still show the result of the check
+        setKeys(prev => prev.map(k => k.id === key.id ? { ...k, health_status: health } : k));
+        return;
+      }
+
+      console.log('✅ API key health saved:', { valid: health.valid, remainingUsd: health.account?.remainingUsd });
+      setKeys(prev => prev.map(k => k.id === key.id ? data : k));
+    } catch (error) {
+      console.error('❌ Critical error checking API key:', error);
+      setError('Failed to check API key. Please try again.');
+    } finally {
+      setCheckingKeys(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(key.id);
+        return newSet;
+      });
+    }
+  };
+
+  const renderKeyHealth = (health?: ApifyKeyHealth | null) => {
+    if (!health) {
+      return <div className="text-xs text-gray-400 mt-1">Not checked yet</div>;
+    }
+
+    const checkedAt = new Date(health.checkedAt).toLocaleString();
+
+    if (!health.valid || !health.account) {
+      return (
+        <div className={`text-xs mt-1 ${health.valid ? 'text-yellow-700' : 'text-red-600'}`} title={`Checked ${checkedAt}`}>
+          {health.valid ? `Could not check: ${health.error}` : health.error}
+        </div>
+      );
+    }
+
+    const { plan, monthlyUsageUsd, monthlyLimitUsd, remainingUsd } = health.account;
+    const isLow = remainingUsd !== undefined && remainingUsd < LOW_CREDIT_USD;
+
+    return (
+      <div className="text-xs text-gray-500 mt-1" title={`Checked ${checkedAt}`}>
+        <span className="font-medium">{plan}</span>
+        {' · '}
+        {formatUsd(monthlyUsageUsd)}{monthlyLimitUsd !== undefined && ` of ${formatUsd(monthlyLimitUsd)}`} used this month
+        {remainingUsd !== undefined && (
+          <span className={isLow ? 'text-red-600 font-medium' : 'text-green-700'}>
+            {' · '}{formatUsd(remainingUsd)} left
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const handlePoolModeChange = async (mode: KeyPoolMode) => {
+    if (!onKeyPoolModeChange) return;
+
+    setIsSavingPoolMode(true);
+    setError('');
+
+    try {
+      await onKeyPoolModeChange(mode);
+      setSuccess(mode === 'off'
+        ? 'Jobs will stay on the selected key.'
+        : 'Jobs will move to another active key when Apify refuses theirs.');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error) {
+      console.error('❌ Error saving key pool mode:', error);
+      setError('Failed to save the key pool setting. Please try again.');
+    } finally {
+      setIsSavingPoolMode(false);
+    }
   };
 
   const startEdit = (key: ApifyKey) => {
     setEditingKey(key);
-    setFormData({ key_name: key.key_name, api_key: key.api_key });
+    setFormData({ key_name: key.key_name, api_key: '' });
     setShowCreateForm(true);
     setError('');
     setSuccess('');
@@ -333,7 +445,7 @@ export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
             />
             <input
               type="password"
-              placeholder="Apify API Key"
+              placeholder={editingKey ? 'New Apify API Key (leave empty to keep the current one)' : 'Apify API Key'}
               value={formData.api_key}
               onChange={(e) => {
                 setFormData(prev => ({ ...prev, api_key: e.target.value }));
@@ -341,15 +453,15 @@ export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
               }}
               className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               disabled={isLoading}
-              required
+              required={!editingKey}
             />
             <div className="flex gap-2">
               <button
                 type="submit"
-                disabled={isLoading || !formData.key_name.trim() || !formData.api_key.trim()}
+                disabled={isLoading || !formData.key_name.trim() || (!editingKey && !formData.api_key.trim())}
                 className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
-                {isLoading ? 'Saving...' : (editingKey ? 'Update Key' : 'Add Key')}
+                {isLoading ? 'Verifying...' : (editingKey ? 'Update Key' : 'Add Key')}
               </button>
               <button
                 type="button"
@@ -380,12 +492,11 @@ export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
                 <Key className="w-5 h-5 text-gray-400" />
                 <div>
                   <div className="font-medium text-gray-900">{key.key_name}</div>
+                  {/* Only the last characters are readable; the key itself stays server-side */}
                   <div className="text-sm text-gray-500 font-mono">
-                    {showApiKey[key.id] 
-                      ? key.api_key 
-                      : '•'.repeat(Math.min(key.api_key.length, 20))
-                    }
+                    {'•'.repeat(16)}{key.api_key_hint}
                   </div>
+                  {renderKeyHealth(key.health_status)}
                 </div>
               </div>
               
@@ -393,18 +504,15 @@ export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    toggleKeyVisibility(key.id);
+                    checkKey(key);
                   }}
-                  className="p-1 text-gray-400 hover:text-gray-600"
-                  title={showApiKey[key.id] ? 'Hide API key' : 'Show API key'}
+                  disabled={checkingKeys.has(key.id)}
+                  className="p-1 text-gray-400 hover:text-green-600 disabled:opacity-50"
+                  title="Check key with Apify"
                 >
-                  {showApiKey[key.id] ? (
-                    <EyeOff className="w-4 h-4" />
-                  ) : (
-                    <Eye className="w-4 h-4" />
-                  )}
+                  <RefreshCw className={`w-4 h-4 ${checkingKeys.has(key.id) ? 'animate-spin' : ''}`} />
                 </button>
-                
+
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
@@ -438,6 +546,25 @@ export const ApifyKeyManager: React.FC<ApifyKeyManagerProps> = ({
         ))}
       </div>
 
+      {onKeyPoolModeChange && keys.length > 1 && (
+        <div className="mt-4 pt-4 border-t border-gray-200">
+          <label htmlFor="keyPoolMode" className="block text-sm text-gray-600 mb-1">
+            When Apify refuses a key (out of credit, revoked or rate limited)
+          </label>
+          <select
+            id="keyPoolMode"
+            value={keyPoolMode}
+            onChange={(e) => handlePoolModeChange(e.target.value as KeyPoolMode)}
+            disabled={isSavingPoolMode}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+          >
+            <option value="off">Fail the job</option>
+            <option value="round_robin">Move to the next active key (round-robin)</option>
+            <option value="least_used">Move to the active key with the lowest usage this month</option>
+          </select>
+        </div>
+      )}
+
       {keys.length === 0 && !showCreateForm && (
         <div className="text-center py-8 text-gray-500">
           <Key className="w-12 h-12 mx-auto mb-4 text-gray-300" />
@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Gauge, AlertCircle, CheckCircle, Save } from 'lucide-react';
+import type { ApifyKey, BudgetCaps, User } from '../lib/supabase';
+import { DatabaseService } from '../lib/database';
+import { createClerkSupabaseClient } from '../lib/supabase-clerk';
+import { getBudgetPeriodStarts, sumBudgetUsage, type BudgetUsage, type BudgetUsageRun } from '../lib/budgets';
+import { formatCostUsd } from '../lib/utils';
+
+interface BudgetManagerProps {
+  currentUser: User;
+  onUserUpdated: (user: User) => void;
+}
+
+type CapField = keyof BudgetCaps;
+
+// Cap inputs as typed; blank means no cap
+type CapDraft = Record<CapField, string>;
+
+const CAP_FIELDS: { field: CapField; label: string; step: string }[] = [
+  { field: 'budget_profiles_per_day', label: 'Profiles per day', step: '1' },
+  { field: 'budget_runs_per_month', label: 'Apify runs per month', step: '1' },
+  { field: 'budget_spend_usd_per_month', label: 'Spend per month (USD)', step: '0.01' }
+];
+
+const toDraft = (caps: BudgetCaps): CapDraft => ({
+  budget_profiles_per_day: caps.budget_profiles_per_day?.toString() ?? '',
+  budget_runs_per_month: caps.budget_runs_per_month?.toString() ?? '',
+  budget_spend_usd_per_month: caps.budget_spend_usd_per_month?.toString() ?? ''
+});
+
+const fromDraft = (draft: CapDraft): BudgetCaps => {
+  const parse = (value: string) => (value.trim() === '' ? null : Number(value));
+  return {
+    budget_profiles_per_day: parse(draft.budget_profiles_per_day),
+    budget_runs_per_month: parse(draft.budget_runs_per_month),
+    budget_spend_usd_per_month: parse(draft.budget_spend_usd_per_month)
+  };
+};
+
+const isValidDraft = (draft: CapDraft) =>
+  Object.values(draft).every(value => value.trim() === '' || (Number.isFinite(Number(value)) && Number(value) >= 0));
+
+const formatUsage = (field: CapField, usage: BudgetUsage) => {
+  switch (field) {
+    case 'budget_profiles_per_day':
+      return `${usage.profilesToday} today`;
+    case 'budget_runs_per_month':
+      return `${usage.runsThisMonth} this month`;
+    case 'budget_spend_usd_per_month':
+      return `${formatCostUsd(usage.spendUsdThisMonth)} this month`;
+  }
+};
+
+export const BudgetManager: React.FC<BudgetManagerProps> = ({ currentUser, onUserUpdated }) => {
+  const db = useMemo(() => new DatabaseService(createClerkSupabaseClient()), []);
+  const isAdmin = !!currentUser.is_admin;
+  const [users, setUsers] = useState<User[]>([currentUser]);
+  const [selectedUserId, setSelectedUserId] = useState(currentUser.id);
+  const [keys, setKeys] = useState<ApifyKey[]>([]);
+  const [usageRuns, setUsageRuns] = useState<BudgetUsageRun[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, CapDraft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const selectedUser = users.find(user => user.id === selectedUserId) || currentUser;
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    db.getUsers()
+      .then(setUsers)
+      .catch(loadError => console.error('❌ Error loading users:', loadError));
+  }, [db, isAdmin]);
+
+  useEffect(() => {
+    const loadBudgets = async () => {
+      try {
+        console.log('🔍 Loading budgets for user:', selectedUserId);
+        setError('');
+        const [userKeys, runs] = await Promise.all([
+          db.getApifyKeys(selectedUserId),
+          db.getBudgetUsageRuns(selectedUserId, getBudgetPeriodStarts().month)
+        ]);
+        setKeys(userKeys);
+        setUsageRuns(runs);
+        setDrafts({});
+      } catch (loadError) {
+        console.error('❌ Error loading budgets:', loadError);
+        setError('Failed to load budgets.');
+      }
+    };
+
+    loadBudgets();
+  }, [db, selectedUserId]);
+
+  const getDraft = (id: string, caps: BudgetCaps) => drafts[id] || toDraft(caps);
+
+  const handleChange = (id: string, caps: BudgetCaps, field: CapField, value: string) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...getDraft(id, caps), [field]: value } }));
+  };
+
+  const handleSave = async (id: string, caps: BudgetCaps, isKey: boolean) => {
+    const draft = getDraft(id, caps);
+    if (!isValidDraft(draft)) {
+      setError('Caps must be zero or more, or left blank for no cap.');
+      return;
+    }
+
+    setSavingId(id);
+    setError('');
+    setSuccess('');
+
+    try {
+      if (isKey) {
+        const updated = await db.updateApifyKeyBudget(id, fromDraft(draft));
+        setKeys(prev => prev.map(key => (key.id === id ? updated : key)));
+      } else {
+        const updated = await db.updateUserBudget(id, fromDraft(draft));
+        setUsers(prev => prev.map(user => (user.id === id ? updated : user)));
+        if (id === currentUser.id) onUserUpdated(updated);
+      }
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+      setSuccess('Budget saved.');
+    } catch (saveError) {
+      console.error('❌ Error saving budget:', saveError);
+      // The database refuses raising a cap without admin rights and says so
+      const message = (saveError as { message?: string })?.message;
+      setError(message ? `Failed to save the budget: ${message}` : 'Failed to save the budget. Please try again.');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const renderCaps = (id: string, caps: BudgetCaps, usage: BudgetUsage, isKey: boolean) => {
+    const draft = getDraft(id, caps);
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        {CAP_FIELDS.map(({ field, label, step }) => (
+          <div key={field}>
+            <label htmlFor={`${id}-${field}`} className="block text-xs text-gray-600 mb-1">
+              {label} <span className="text-gray-400">({formatUsage(field, usage)})</span>
+            </label>
+            <input
+              id={`${id}-${field}`}
+              type="number"
+              min="0"
+              step={step}
+              value={draft[field]}
+              placeholder="No cap"
+              onChange={(e) => handleChange(id, caps, field, e.target.value)}
+              disabled={savingId === id}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+            />
+          </div>
+        ))}
+        <button
+          onClick={() => handleSave(id, caps, isKey)}
+          disabled={savingId === id || !drafts[id]}
+          className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          {savingId === id ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-gray-500" />
+          <h3 className="text-lg font-semibold text-gray-900">Budgets</h3>
+        </div>
+        {isAdmin && (
+          <select
+            value={selectedUserId}
+            onChange={(e) => setSelectedUserId(e.target.value)}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {users.map(user => (
+              <option key={user.id} value={user.id}>{user.full_name || user.email}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg flex items-start gap-2">
+          <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-green-700">{success}</div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Account</h4>
+          {renderCaps(selectedUser.id, selectedUser, sumBudgetUsage(usageRuns), false)}
+        </div>
+
+        {keys.map(key => (
+          <div key={key.id}>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Key "{key.key_name}"</h4>
+            {renderCaps(key.id, key, sumBudgetUsage(usageRuns, key.id), true)}
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500">
+        Jobs that would go over a cap are refused, and running jobs pause when they reach one. Days and months are UTC.
+        {!isAdmin && ' You can set or lower caps; raising or removing one needs an admin.'}
+      </p>
+    </div>
+  );
+};
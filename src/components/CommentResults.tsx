@@ -1,6 +1,8 @@
-import React, { useState } from 'react';
-import { MessageSquare, User, CheckSquare, Square, Users, ArrowLeft } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { MessageSquare, User, CheckSquare, Square, Users, ArrowLeft, ExternalLink, ThumbsUp } from 'lucide-react';
 import { LoadingProgress } from './LoadingProgress';
+import type { ScrapingStage } from '../lib/supabase-clerk';
+import type { JobErrorCode } from '../lib/jobErrors';
 
 interface CommentData {
   type: string;
@@ -8,6 +10,9 @@ interface CommentData {
   linkedinUrl: string;
   commentary: string;
   createdAt: string;
+  postUrl?: string;
+  // Set when the row is a reaction rather than a comment
+  reactionType?: string;
   actor: {
     id: string;
     name: string;
@@ -17,51 +22,105 @@ interface CommentData {
   };
 }
 
+// One row per person, merging their comments across all posts of the job
+interface Commenter {
+  key: string;
+  actor: CommentData['actor'];
+  comments: CommentData[];
+  postUrls: string[];
+}
+
+const groupCommenters = (comments: CommentData[]): Commenter[] => {
+  const commenters = new Map<string, Commenter>();
+
+  for (const comment of comments) {
+    const key = comment.actor.linkedinUrl || comment.actor.id;
+    let commenter = commenters.get(key);
+    if (!commenter) {
+      commenter = { key, actor: comment.actor, comments: [], postUrls: [] };
+      commenters.set(key, commenter);
+    }
+
+    commenter.comments.push(comment);
+    if (comment.postUrl && !commenter.postUrls.includes(comment.postUrl)) {
+      commenter.postUrls.push(comment.postUrl);
+    }
+  }
+
+  // Most engaged people first; Array.sort is stable so ties keep the dataset order
+  return [...commenters.values()].sort((a, b) => b.postUrls.length - a.postUrls.length);
+};
+
 interface CommentResultsProps {
   comments: CommentData[];
+  // Reactions reuse this view; they have a reaction type instead of text and date
+  engagementType?: 'comments' | 'reactions';
   onScrapeSelectedProfiles: (profileUrls: string[]) => Promise<void>;
   isLoading: boolean;
   onBack: () => void;
-  loadingStage?: 'starting' | 'scraping_comments' | 'extracting_profiles' | 'scraping_profiles' | 'saving_data' | 'completed' | 'error';
+  loadingStage?: ScrapingStage;
   loadingProgress?: number;
   loadingMessage?: string;
   loadingError?: string;
+  loadingErrorCode?: JobErrorCode;
+  onExport?: (format: string) => void;
 }
 
 export const CommentResults: React.FC<CommentResultsProps> = ({
   comments,
+  engagementType = 'comments',
   onScrapeSelectedProfiles,
   isLoading,
   onBack,
   loadingStage = 'starting',
   loadingProgress = 0,
   loadingMessage = '',
-  loadingError = ''
+  loadingError = '',
+  loadingErrorCode,
+  onExport
 }) => {
   const [selectedComments, setSelectedComments] = useState<Set<string>>(new Set());
+  const [minPosts, setMinPosts] = useState(1);
 
-  const toggleComment = (commentId: string) => {
+  const commenters = useMemo(() => groupCommenters(comments), [comments]);
+  const isReactions = engagementType === 'reactions';
+
+  // Posts are numbered in the order they first appear in the results
+  const postNumbers = useMemo(() => {
+    const numbers = new Map<string, number>();
+    for (const comment of comments) {
+      if (comment.postUrl && !numbers.has(comment.postUrl)) {
+        numbers.set(comment.postUrl, numbers.size + 1);
+      }
+    }
+    return numbers;
+  }, [comments]);
+
+  const visibleCommenters = commenters.filter(commenter => commenter.postUrls.length >= minPosts);
+  const allVisibleSelected = visibleCommenters.length > 0 && visibleCommenters.every(c => selectedComments.has(c.key));
+
+  const toggleComment = (commenterKey: string) => {
     const newSelected = new Set(selectedComments);
-    if (newSelected.has(commentId)) {
-      newSelected.delete(commentId);
+    if (newSelected.has(commenterKey)) {
+      newSelected.delete(commenterKey);
     } else {
-      newSelected.add(commentId);
+      newSelected.add(commenterKey);
     }
     setSelectedComments(newSelected);
   };
 
   const toggleAll = () => {
-    if (selectedComments.size === comments.length) {
+    if (allVisibleSelected) {
       setSelectedComments(new Set());
     } else {
-      setSelectedComments(new Set(comments.map(c => c.id)));
+      setSelectedComments(new Set(visibleCommenters.map(c => c.key)));
     }
   };
 
   const handleScrapeSelected = async () => {
-    const selectedProfileUrls = comments
-      .filter(comment => selectedComments.has(comment.id))
-      .map(comment => comment.actor.linkedinUrl)
+    const selectedProfileUrls = commenters
+      .filter(commenter => selectedComments.has(commenter.key))
+      .map(commenter => commenter.actor.linkedinUrl)
       .filter(Boolean);
     
     if (selectedProfileUrls.length > 0) {
@@ -96,6 +155,7 @@ export const CommentResults: React.FC<CommentResultsProps> = ({
           progress={loadingProgress}
           message={loadingMessage}
           error={loadingError}
+          errorCode={loadingErrorCode}
         />
       )}
 
@@ -104,14 +164,23 @@ export const CommentResults: React.FC<CommentResultsProps> = ({
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
               <div className="p-2 bg-blue-100 rounded-lg">
-                <MessageSquare className="w-6 h-6 text-blue-600" />
+                {isReactions ? (
+                  <ThumbsUp className="w-6 h-6 text-blue-600" />
+                ) : (
+                  <MessageSquare className="w-6 h-6 text-blue-600" />
+                )}
               </div>
               <div>
                 <h3 className="text-xl font-bold text-gray-900">
-                  Post Comments ({comments.length})
+                  {isReactions ? 'Post Reactions' : 'Post Comments'} ({comments.length})
                 </h3>
+                {postNumbers.size > 1 && (
+                  <p className="text-sm text-gray-600">
+                    {commenters.length} unique {isReactions ? 'people' : 'commenters'} across {postNumbers.size} posts
+                  </p>
+                )}
                 <p className="text-sm text-gray-600">
-                  Select commenters to scrape their profile details
+                  Select {isReactions ? 'reactors' : 'commenters'} to scrape their profile details
                 </p>
               </div>
             </div>
@@ -124,6 +193,19 @@ export const CommentResults: React.FC<CommentResultsProps> = ({
                 <ArrowLeft className="w-4 h-4" />
                 Back to Scraper
               </button>
+
+              {onExport && (
+                <select
+                  onChange={(e) => onExport(e.target.value)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  defaultValue=""
+                >
+                  <option value="" disabled>Export as...</option>
+                  <option value="csv">CSV</option>
+                  <option value="json">JSON</option>
+                  <option value="xlsx">Excel</option>
+                </select>
+              )}
               
               <button
                 onClick={handleScrapeSelected}
@@ -142,17 +224,32 @@ export const CommentResults: React.FC<CommentResultsProps> = ({
               disabled={isLoading}
               className="flex items-center gap-2 px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
             >
-              {selectedComments.size === comments.length ? (
+              {allVisibleSelected ? (
                 <CheckSquare className="w-4 h-4" />
               ) : (
                 <Square className="w-4 h-4" />
               )}
-              {selectedComments.size === comments.length ? 'Deselect All' : 'Select All'}
+              {allVisibleSelected ? 'Deselect All' : 'Select All'}
             </button>
             
             <span className="text-sm text-gray-600">
-              {selectedComments.size} of {comments.length} selected
+              {selectedComments.size} of {commenters.length} selected
             </span>
+
+            {postNumbers.size > 1 && (
+              <select
+                value={minPosts}
+                onChange={(e) => setMinPosts(Number(e.target.value))}
+                className="ml-auto px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value={1}>All commenters</option>
+                {Array.from({ length: postNumbers.size - 1 }, (_, i) => i + 2).map(count => (
+                  <option key={count} value={count}>
+                    Engaged on {count}+ posts
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
         </div>
 
@@ -170,79 +267,126 @@ export const CommentResults: React.FC<CommentResultsProps> = ({
                   Position
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Comment
+                  Posts
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Date
+                  {isReactions ? 'Reaction' : 'Comment'}
                 </th>
+                {!isReactions && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                )}
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {comments.map((comment) => (
-                <tr key={comment.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <button
-                      onClick={() => toggleComment(comment.id)}
-                      disabled={isLoading}
-                      className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
-                    >
-                      {selectedComments.has(comment.id) ? (
-                        <CheckSquare className="w-5 h-5" />
-                      ) : (
-                        <Square className="w-5 h-5" />
-                      )}
-                    </button>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="flex items-center gap-3">
-                      <div className="w-10 h-10 rounded-full overflow-hidden bg-gray-200">
-                        {comment.actor.pictureUrl ? (
-                          <img 
-                            src={comment.actor.pictureUrl} 
-                            alt={comment.actor.name}
-                            className="w-full h-full object-cover"
-                          />
+              {visibleCommenters.map((commenter) => {
+                const comment = commenter.comments[0];
+                return (
+                  <tr key={commenter.key} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => toggleComment(commenter.key)}
+                        disabled={isLoading}
+                        className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        {selectedComments.has(commenter.key) ? (
+                          <CheckSquare className="w-5 h-5" />
                         ) : (
-                          <div className="w-full h-full flex items-center justify-center">
-                            <User className="w-5 h-5 text-gray-400" />
-                          </div>
+                          <Square className="w-5 h-5" />
                         )}
-                      </div>
-                      <div>
-                        <div className="font-medium text-gray-900">
-                          {comment.actor.name}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-full overflow-hidden bg-gray-200">
+                          {commenter.actor.pictureUrl ? (
+                            <img 
+                              src={commenter.actor.pictureUrl} 
+                              alt={commenter.actor.name}
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <div className="w-full h-full flex items-center justify-center">
+                              <User className="w-5 h-5 text-gray-400" />
+                            </div>
+                          )}
+                        </div>
+                        <div>
+                          <div className="font-medium text-gray-900">
+                            {commenter.actor.name}
+                          </div>
+                          <div className="text-sm text-blue-600 hover:underline">
+                            <a 
+                              href={commenter.actor.linkedinUrl} 
+                              target="_blank" 
+                              rel="noopener noreferrer"
+                            >
+                              View Profile
+                            </a>
+                          </div>
                         </div>
-                        <div className="text-sm text-blue-600 hover:underline">
-                          <a 
-                            href={comment.actor.linkedinUrl} 
-                            target="_blank" 
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-gray-900 max-w-xs truncate">
+                        {commenter.actor.position || 'Not specified'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex flex-wrap gap-1">
+                        {commenter.postUrls.map(postUrl => (
+                          <a
+                            key={postUrl}
+                            href={postUrl}
+                            target="_blank"
                             rel="noopener noreferrer"
+                            title={postUrl}
+                            className="inline-flex items-center gap-1 px-2 py-0.5 text-xs bg-blue-50 text-blue-700 rounded-full hover:bg-blue-100"
                           >
-                            View Profile
+                            #{postNumbers.get(postUrl)}
+                            <ExternalLink className="w-3 h-3" />
                           </a>
-                        </div>
+                        ))}
                       </div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-gray-900 max-w-xs truncate">
-                      {comment.actor.position || 'Not specified'}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-gray-900 max-w-md">
-                      <div className="line-clamp-3" title={comment.commentary}>
-                        {comment.commentary}
-                      </div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className="text-sm text-gray-500">
-                      {formatDate(comment.createdAt)}
-                    </span>
-                  </td>
-                </tr>
-              ))}
+                    </td>
+                    {isReactions ? (
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex flex-wrap gap-1">
+                          {[...new Set(commenter.comments.map(reaction => reaction.reactionType))].map(reactionType => (
+                            <span
+                              key={reactionType}
+                              className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded-full capitalize"
+                            >
+                              {(reactionType || 'like').toLowerCase()}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                    ) : (
+                      <>
+                        <td className="px-6 py-4">
+                          <div className="text-sm text-gray-900 max-w-md">
+                            <div className="line-clamp-3" title={comment.commentary}>
+                              {comment.commentary}
+                            </div>
+                            {commenter.comments.length > 1 && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                +{commenter.comments.length - 1} more comments
+                              </div>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className="text-sm text-gray-500">
+                            {formatDate(comment.createdAt)}
+                          </span>
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
@@ -250,7 +394,7 @@ export const CommentResults: React.FC<CommentResultsProps> = ({
         {comments.length === 0 && (
           <div className="text-center py-12">
             <MessageSquare className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-            <div className="text-gray-500">No comments found</div>
+            <div className="text-gray-500">No {isReactions ? 'reactions' : 'comments'} found</div>
           </div>
         )}
       </div>
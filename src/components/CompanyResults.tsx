@@ -0,0 +1,127 @@
+import React from 'react';
+import { Building2, ArrowLeft, ExternalLink, Globe, MapPin, Users } from 'lucide-react';
+import type { LinkedInCompany } from '../lib/supabase-clerk';
+
+interface CompanyResultsProps {
+  companies: LinkedInCompany[];
+  // Stored profiles whose companyLinkedin points at each company, keyed by company_key
+  profileCounts: Record<string, number>;
+  onBack: () => void;
+}
+
+export const CompanyResults: React.FC<CompanyResultsProps> = ({ companies, profileCounts, onBack }) => {
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100">
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-amber-100 rounded-lg">
+              <Building2 className="w-6 h-6 text-amber-600" />
+            </div>
+            <h3 className="text-xl font-bold text-gray-900">
+              Companies ({companies.length})
+            </h3>
+          </div>
+
+          <button
+            onClick={onBack}
+            className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Scraper
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Company
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Industry
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Size
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Headquarters
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Followers
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Stored Profiles
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {companies.map((company) => (
+              <tr key={company.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4">
+                  <div className="font-medium text-gray-900">{company.name || 'Unknown company'}</div>
+                  <div className="flex items-center gap-3 text-sm">
+                    <a
+                      href={company.linkedin_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-blue-600 hover:underline"
+                    >
+                      LinkedIn
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                    {company.website && (
+                      <a
+                        href={company.website}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-blue-600 hover:underline"
+                      >
+                        <Globe className="w-3 h-3" />
+                        Website
+                      </a>
+                    )}
+                  </div>
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  {company.industry || 'Not specified'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {company.company_size ? `${company.company_size} employees` : '-'}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  {company.headquarters ? (
+                    <span className="flex items-center gap-1">
+                      <MapPin className="w-3 h-3 text-gray-400" />
+                      {company.headquarters}
+                    </span>
+                  ) : '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {company.follower_count !== undefined && company.follower_count !== null
+                    ? company.follower_count.toLocaleString()
+                    : '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className="inline-flex items-center gap-1 text-sm text-gray-900">
+                    <Users className="w-4 h-4 text-gray-400" />
+                    {profileCounts[company.company_key] || 0}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {companies.length === 0 && (
+        <div className="text-center py-12">
+          <Building2 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <div className="text-gray-500">No company details found</div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { JOB_ERROR_ACTION_LABELS, JOB_ERRORS, type JobErrorAction, type JobErrorCode } from '../lib/jobErrors';
+
+interface JobErrorNoticeProps {
+  code: JobErrorCode;
+  message?: string | null;
+  // Shows the code's action button; leave out where the action can't be taken
+  onAction?: (action: JobErrorAction) => void;
+  compact?: boolean;
+}
+
+export const JobErrorNotice: React.FC<JobErrorNoticeProps> = ({ code, message, onAction, compact = false }) => {
+  const info = JOB_ERRORS[code];
+  const actionButton = info.action && onAction && (
+    <button
+      onClick={() => onAction(info.action!)}
+      className="inline-flex items-center px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors"
+    >
+      {JOB_ERROR_ACTION_LABELS[info.action]}
+    </button>
+  );
+
+  if (compact) {
+    return (
+      <div className="mt-1 space-y-1">
+        <div className="flex items-center gap-1 text-xs text-red-600" title={message ? `${message}\n\n${info.remedy}` : info.remedy}>
+          <AlertTriangle className="w-3 h-3" />
+          {info.label}
+        </div>
+        {actionButton}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+      <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+      <div className="text-sm text-red-700 space-y-1">
+        <div className="font-medium">{info.label}</div>
+        {message && <div className="text-red-600">{message}</div>}
+        <div>{info.remedy}</div>
+        {actionButton}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { JOB_ERRORS, type JobErrorCode } from '../lib/jobErrors';
+
+interface JobErrorSummaryProps {
+  counts: Partial<Record<JobErrorCode, number>>;
+  // Shown in the heading, e.g. "last 6 months"
+  period: string;
+}
+
+export const JobErrorSummary: React.FC<JobErrorSummaryProps> = ({ counts, period }) => {
+  const rows = (Object.entries(counts) as [JobErrorCode, number][])
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1]);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <AlertTriangle className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900">Errors by Cause</h3>
+        <span className="text-sm text-gray-500">({period})</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {rows.map(([code, count]) => (
+          <div
+            key={code}
+            className="inline-flex items-center gap-2 px-3 py-1 bg-red-50 border border-red-200 rounded-full text-sm"
+            title={JOB_ERRORS[code].remedy}
+          >
+            <span className="text-red-700">{JOB_ERRORS[code].label}</span>
+            <span className="font-semibold text-red-900">{count}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { X, Loader2, CheckCircle, AlertCircle, Clock } from 'lucide-react';
+import { X, Loader2, CheckCircle, AlertCircle, Clock, StopCircle } from 'lucide-react';
+import { createClerkSupabaseClient, authorizeRealtime, type ProfileChunk, type ScrapingJob } from '../lib/supabase-clerk';
+import { JobErrorNotice } from './JobErrorNotice';
 
 interface JobProgressModalProps {
   jobId: string;
@@ -8,16 +10,29 @@ interface JobProgressModalProps {
   onCancelJob?: (jobId: string) => Promise<void>;
 }
 
-interface JobProgress {
-  id: string;
-  job_type: string;
-  input_url: string;
-  status: string;
-  results_count: number | null;
-  error_message: string | null;
-  created_at: string;
-  completed_at: string | null;
-}
+const STAGE_LABELS: Record<string, string> = {
+  starting: 'Initializing scraping process',
+  searching_profiles: 'Collecting people from LinkedIn search',
+  scraping_comments: 'Extracting comments from LinkedIn post',
+  scraping_reactions: 'Extracting reactions from LinkedIn post',
+  extracting_profiles: 'Extracting profile URLs from comments',
+  scraping_profiles: 'Gathering detailed profile information',
+  scraping_posts: 'Collecting recent posts from profiles',
+  scraping_companies: 'Gathering company page information',
+  saving_data: 'Saving data to database',
+  completed: 'Completed',
+  error: 'Failed'
+};
+
+const CHUNK_STATUS_COLORS: Record<ProfileChunk['status'], string> = {
+  pending: 'bg-gray-200',
+  running: 'bg-blue-400 animate-pulse',
+  succeeded: 'bg-green-500',
+  failed: 'bg-red-500',
+  cancelled: 'bg-yellow-400'
+};
+
+const PROGRESS_POLL_INTERVAL_MS = 5000;
 
 export const JobProgressModal: React.FC<JobProgressModalProps> = ({
   jobId,
@@ -25,40 +40,84 @@ export const JobProgressModal: React.FC<JobProgressModalProps> = ({
   onClose,
   onCancelJob
 }) => {
-  const [job, setJob] = useState<JobProgress | null>(null);
+  const [job, setJob] = useState<ScrapingJob | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isCancelling, setIsCancelling] = useState(false);
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
-    if (isOpen && jobId) {
-      loadJobProgress();
-      const interval = setInterval(loadJobProgress, 2000); // Poll every 2 seconds
-      return () => clearInterval(interval);
-    }
+    if (!isOpen || !jobId) return;
+
+    const supabase = createClerkSupabaseClient();
+    let isActive = true;
+
+    const loadJobProgress = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('scraping_jobs')
+          .select('*')
+          .eq('id', jobId)
+          .single();
+
+        if (error) {
+          console.error('Error loading job progress:', error);
+        }
+        if (isActive) {
+          setJob(data || null);
+        }
+      } catch (error) {
+        console.error('Error loading job progress:', error);
+      } finally {
+        if (isActive) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    setIsLoading(true);
+    loadJobProgress();
+
+    // Live updates from whichever tab or worker is running the job
+    const channel = supabase.channel(`scraping_job_${jobId}`);
+    let stopRealtimeAuth: (() => void) | undefined;
+    let pollInterval: ReturnType<typeof setInterval> | undefined;
+    authorizeRealtime(supabase)
+      .then(stop => {
+        stopRealtimeAuth = stop;
+        if (!isActive) {
+          stop();
+          return;
+        }
+        channel
+          .on(
+            'postgres_changes',
+            { event: 'UPDATE', schema: 'public', table: 'scraping_jobs', filter: `id=eq.${jobId}` },
+            payload => setJob(payload.new as ScrapingJob)
+          )
+          .subscribe();
+      })
+      .catch(error => {
+        // Without realtime, reload the job every few seconds instead
+        console.error('Error authorizing realtime, polling job progress instead:', error);
+        if (isActive) {
+          pollInterval = setInterval(loadJobProgress, PROGRESS_POLL_INTERVAL_MS);
+        }
+      });
+
+    return () => {
+      isActive = false;
+      stopRealtimeAuth?.();
+      if (pollInterval) clearInterval(pollInterval);
+      supabase.removeChannel(channel);
+    };
   }, [isOpen, jobId]);
 
-  const loadJobProgress = async () => {
-    try {
-      // In a real implementation, you would fetch from your API
-      // For now, we'll simulate the job progress
-      const mockJob: JobProgress = {
-        id: jobId,
-        job_type: 'profile_details',
-        input_url: 'https://linkedin.com/in/example',
-        status: 'running',
-        results_count: null,
-        error_message: null,
-        created_at: new Date().toISOString(),
-        completed_at: null
-      };
-      
-      setJob(mockJob);
-      setIsLoading(false);
-    } catch (error) {
-      console.error('Error loading job progress:', error);
-      setIsLoading(false);
-    }
-  };
+  // Keep the elapsed time ticking while the job is in progress
+  useEffect(() => {
+    if (!isOpen || !job || (job.status !== 'running' && job.status !== 'pending')) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isOpen, job]);
 
   const handleCancel = async () => {
     if (!onCancelJob || !job) return;
@@ -87,22 +146,39 @@ export const JobProgressModal: React.FC<JobProgressModalProps> = ({
         return <AlertCircle className="w-6 h-6 text-red-500" />;
       case 'running':
         return <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />;
+      case 'cancelled':
+        return <StopCircle className="w-6 h-6 text-gray-500" />;
       default:
         return <Clock className="w-6 h-6 text-yellow-500" />;
     }
   };
 
+  const getElapsedTime = () => {
+    if (!job) return '-';
+    
+    const end = job.completed_at ? new Date(job.completed_at).getTime() : now;
+    const durationMs = Math.max(0, end - new Date(job.created_at).getTime());
+    const minutes = Math.floor(durationMs / 60000);
+    const seconds = Math.floor((durationMs % 60000) / 1000);
+    
+    return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+  };
+
   const getEstimatedTimeRemaining = () => {
     if (!job || job.status !== 'running') return null;
     
-    const elapsed = Date.now() - new Date(job.created_at).getTime();
+    const elapsed = now - new Date(job.created_at).getTime();
     const elapsedMinutes = Math.floor(elapsed / 60000);
     
     // Rough estimates based on job type
     const estimates = {
       'post_comments': 2, // 2 minutes
+      'post_reactions': 2, // 2 minutes
       'profile_details': 5, // 5 minutes
-      'mixed': 10 // 10 minutes
+      'profile_posts': 7, // 7 minutes
+      'search_results': 8, // 8 minutes
+      'mixed': 10, // 10 minutes
+      'company_details': 3 // 3 minutes
     };
     
     const estimated = estimates[job.job_type as keyof typeof estimates] || 5;
@@ -150,11 +226,25 @@ export const JobProgressModal: React.FC<JobProgressModalProps> = ({
               <div className="text-sm text-gray-900 break-all">{job.input_url}</div>
             </div>
 
-            {job.status === 'running' && (
+            {(job.status === 'running' || job.status === 'pending') && (
               <div className="bg-blue-50 rounded-lg p-3">
                 <div className="text-sm text-blue-800">
                   <div className="font-medium mb-1">Current Phase:</div>
-                  <div>Saving data to database...</div>
+                  <div>{job.progress_message || `${STAGE_LABELS[job.progress_stage || 'starting']}...`}</div>
+                  
+                  <div className="mt-3">
+                    <div className="flex justify-between text-xs mb-1">
+                      <span>Progress</span>
+                      <span>{job.progress_percent || 0}%</span>
+                    </div>
+                    <div className="w-full bg-blue-100 rounded-full h-2">
+                      <div
+                        className="h-2 rounded-full bg-blue-500 transition-all duration-500"
+                        style={{ width: `${job.progress_percent || 0}%` }}
+                      />
+                    </div>
+                  </div>
+                  
                   {getEstimatedTimeRemaining() !== null && (
                     <div className="text-xs mt-2">
                       Estimated time remaining: ~{getEstimatedTimeRemaining()} minutes
@@ -164,7 +254,46 @@ export const JobProgressModal: React.FC<JobProgressModalProps> = ({
               </div>
             )}
 
-            {job.results_count !== null && (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-gray-50 rounded-lg p-3">
+                <div className="text-xs text-gray-600 mb-1">Items collected</div>
+                <div className="text-sm font-medium text-gray-900">{(job.items_collected || 0).toLocaleString()}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <div className="text-xs text-gray-600 mb-1">Elapsed</div>
+                <div className="text-sm font-medium text-gray-900">{getElapsedTime()}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <div className="text-xs text-gray-600 mb-1">Apify run</div>
+                <div className="text-sm font-medium text-gray-900 capitalize">
+                  {job.apify_run_status ? job.apify_run_status.toLowerCase() : '-'}
+                </div>
+              </div>
+            </div>
+
+            {job.profile_chunks && job.profile_chunks.length > 0 && (
+              <div className="bg-gray-50 rounded-lg p-3">
+                <div className="flex justify-between text-xs text-gray-600 mb-2">
+                  <span>Profile chunks</span>
+                  <span>
+                    {job.profile_chunks.filter(chunk => chunk.status === 'succeeded').length} of {job.profile_chunks.length} done
+                    {job.profile_chunks.some(chunk => chunk.status === 'failed') &&
+                      `, ${job.profile_chunks.filter(chunk => chunk.status === 'failed').length} failed`}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {job.profile_chunks.map(chunk => (
+                    <div
+                      key={chunk.index}
+                      className={`w-4 h-4 rounded-sm ${CHUNK_STATUS_COLORS[chunk.status]}`}
+                      title={`Chunk ${chunk.index + 1}: ${chunk.status}, ${chunk.urls.length} profiles, attempt ${chunk.attempts}${chunk.error ? ` - ${chunk.error}` : ''}`}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {job.status !== 'running' && job.status !== 'pending' && (
               <div className="bg-green-50 rounded-lg p-3">
                 <div className="text-sm text-green-800">
                   <div className="font-medium">Results: {job.results_count}</div>
@@ -172,7 +301,9 @@ export const JobProgressModal: React.FC<JobProgressModalProps> = ({
               </div>
             )}
 
-            {job.error_message && (
+            {job.error_code ? (
+              <JobErrorNotice code={job.error_code} message={job.error_message} />
+            ) : job.error_message && (
               <div className="bg-red-50 rounded-lg p-3">
                 <div className="text-sm text-red-800">
                   <div className="font-medium mb-1">Error:</div>
@@ -189,7 +320,7 @@ export const JobProgressModal: React.FC<JobProgressModalProps> = ({
                 Close
               </button>
               
-              {job.status === 'running' && onCancelJob && (
+              {(job.status === 'running' || job.status === 'pending') && onCancelJob && (
                 <button
                   onClick={handleCancel}
                   disabled={isCancelling}
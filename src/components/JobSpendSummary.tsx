@@ -0,0 +1,110 @@
+import React from 'react';
+import { DollarSign } from 'lucide-react';
+import type { JobSpend } from '../lib/database';
+import { estimateSavedUsd } from '../lib/jobProcessor';
+import { formatCostUsd } from '../lib/utils';
+
+interface JobSpendSummaryProps {
+  spend: JobSpend[];
+}
+
+interface SpendTotals {
+  label: string;
+  jobs: number;
+  costUsd: number;
+  computeUnits: number;
+  savedApiCalls: number;
+}
+
+// Spend of one job, or of the part of a job that ran on one key
+type SpendRow = Pick<JobSpend, 'cost_usd' | 'compute_units' | 'saved_api_calls'> & { label: string };
+
+function sumRows(rows: SpendRow[]): SpendTotals[] {
+  const totals = new Map<string, SpendTotals>();
+
+  for (const row of rows) {
+    const entry = totals.get(row.label) || { label: row.label, jobs: 0, costUsd: 0, computeUnits: 0, savedApiCalls: 0 };
+    entry.jobs++;
+    entry.costUsd += row.cost_usd;
+    entry.computeUnits += row.compute_units;
+    entry.savedApiCalls += row.saved_api_calls;
+    totals.set(row.label, entry);
+  }
+
+  return [...totals.values()];
+}
+
+// Runs count on the key that served them; cache savings on the job's own key
+function toKeyRows(spend: JobSpend[]): SpendRow[] {
+  return spend.flatMap(job => job.key_spend.map((keySpend, index) => {
+    const isJobKey = keySpend.apify_key_id === job.apify_key_id
+      || (index === 0 && !job.key_spend.some(other => other.apify_key_id === job.apify_key_id));
+
+    return {
+      label: keySpend.key_name || 'Deleted key',
+      cost_usd: keySpend.cost_usd,
+      compute_units: keySpend.compute_units,
+      saved_api_calls: isJobKey ? job.saved_api_calls : 0
+    };
+  }));
+}
+
+export const JobSpendSummary: React.FC<JobSpendSummaryProps> = ({ spend }) => {
+  // Rows come newest first, so months do too
+  const byMonth = sumRows(spend.map(row => ({
+    ...row,
+    label: new Date(row.created_at).toLocaleDateString(undefined, { year: 'numeric', month: 'long' })
+  })));
+  const byKey = sumRows(toKeyRows(spend))
+    .sort((a, b) => b.costUsd - a.costUsd);
+
+  const renderTotals = (title: string, rows: SpendTotals[]) => (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">{title}</h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500 uppercase tracking-wider">
+            <th className="text-left py-1"></th>
+            <th className="text-right py-1">Jobs</th>
+            <th className="text-right py-1">Spend</th>
+            <th className="text-right py-1">Compute units</th>
+            <th className="text-right py-1">Saved by cache</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map(row => (
+            <tr key={row.label}>
+              <td className="py-1 text-gray-900">{row.label}</td>
+              <td className="py-1 text-right text-gray-600">{row.jobs}</td>
+              <td className="py-1 text-right text-gray-900 font-medium">{formatCostUsd(row.costUsd)}</td>
+              <td className="py-1 text-right text-gray-600">{row.computeUnits.toFixed(3)}</td>
+              <td className="py-1 text-right text-green-700" title={`${row.savedApiCalls} profiles taken from the database`}>
+                ~{formatCostUsd(estimateSavedUsd(row.savedApiCalls))}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  if (spend.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <DollarSign className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900">Apify Spend</h3>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {renderTotals('By month', byMonth)}
+        {renderTotals('By key', byKey)}
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500">
+        Spend is what Apify reported for each finished run. Cache savings are estimated from the profiles that were already in the database.
+      </p>
+    </div>
+  );
+};
@@ -1,14 +1,36 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, CheckCircle, XCircle, Loader2, StopCircle, Eye, AlertTriangle } from 'lucide-react';
+import { Clock, CheckCircle, XCircle, Loader2, StopCircle, Eye, AlertTriangle, RotateCcw, RefreshCw, FolderOpen } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import {
+  canReingestJobItems,
+  canReopenJobResults,
+  estimateSavedUsd,
+  getFailedChunkUrls,
+  getJobInputUrls,
+  type JobRetryMode
+} from '../lib/jobProcessor';
+import type { JobErrorAction, JobErrorCode } from '../lib/jobErrors';
+import type { JobInputs, ProfileChunk, ScrapingJob } from '../lib/supabase';
+import { formatCostUsd } from '../lib/utils';
+import { JobErrorNotice } from './JobErrorNotice';
 
 interface Job {
   id: string;
-  job_type: string;
+  job_type: ScrapingJob['job_type'];
   input_url: string;
+  inputs?: JobInputs | null;
   status: string | null;
   results_count: number | null;
+  items_accepted?: number | null;
+  items_rejected?: number | null;
+  cost_usd?: number | null;
+  compute_units?: number | null;
+  saved_api_calls?: number | null;
   error_message: string | null;
+  error_code?: JobErrorCode | null;
+  profile_chunks?: ProfileChunk[] | null;
+  parent_job_id?: string | null;
+  schedule_id?: string | null;
   created_at: string | null;
   completed_at: string | null;
 }
@@ -17,14 +39,28 @@ interface JobsTableProps {
   jobs: Job[];
   onCancelJob?: (jobId: string) => Promise<void>;
   onViewJobProgress?: (jobId: string) => void;
+  // Validates the job's quarantined items again and saves the ones that now pass
+  onReingestJob?: (jobId: string) => Promise<{ accepted: number; rejected: number }>;
+  // Takes the remedy offered for the job's error code
+  onErrorAction?: (jobId: string, action: JobErrorAction) => void;
+  // Runs the job again as a child job, all of it or only the profiles that failed
+  onRetryJob?: (jobId: string, mode: JobRetryMode) => Promise<void>;
+  // Opens the profiles or comments the job produced in the results views
+  onViewJobResults?: (jobId: string) => Promise<void>;
 }
 
 export const JobsTable: React.FC<JobsTableProps> = ({ 
   jobs, 
   onCancelJob,
-  onViewJobProgress 
+  onViewJobProgress,
+  onReingestJob,
+  onErrorAction,
+  onRetryJob,
+  onViewJobResults
 }) => {
   const [cancellingJobs, setCancellingJobs] = useState<Set<string>>(new Set());
+  const [reingestingJobs, setReingestingJobs] = useState<Set<string>>(new Set());
+  const [openingJobs, setOpeningJobs] = useState<Set<string>>(new Set());
 
   const getStatusIcon = (status: string | null) => {
     switch (status) {
@@ -62,15 +98,44 @@ export const JobsTable: React.FC<JobsTableProps> = ({
     switch (jobType) {
       case 'post_comments':
         return 'Post Comments';
+      case 'post_reactions':
+        return 'Post Reactions';
       case 'profile_details':
         return 'Profile Details';
+      case 'profile_posts':
+        return 'Profile Posts';
+      case 'search_results':
+        return 'People Search';
       case 'mixed':
         return 'Mixed (Post + Profiles)';
+      case 'company_details':
+        return 'Company Details';
       default:
         return jobType;
     }
   };
 
+  // Multi-post and multi-profile jobs have several URLs; link the first and count the rest
+  const renderInputUrls = (job: Job) => {
+    const urls = getJobInputUrls(job);
+    return (
+      <div className="max-w-xs">
+        <a
+          href={urls[0]}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm text-blue-600 hover:underline truncate block"
+          title={urls.join('\n')}
+        >
+          {urls[0]}
+        </a>
+        {urls.length > 1 && (
+          <span className="text-xs text-gray-500">+{urls.length - 1} more</span>
+        )}
+      </div>
+    );
+  };
+
   const handleCancelJob = async (jobId: string) => {
     if (!onCancelJob) return;
     
@@ -94,10 +159,72 @@ export const JobsTable: React.FC<JobsTableProps> = ({
     }
   };
 
+  const handleReingestJob = async (jobId: string) => {
+    if (!onReingestJob) return;
+
+    setReingestingJobs(prev => new Set(prev).add(jobId));
+
+    try {
+      const { accepted, rejected } = await onReingestJob(jobId);
+      alert(rejected > 0
+        ? `${accepted} items re-ingested, ${rejected} still fail validation.`
+        : `${accepted} items re-ingested.`);
+    } catch (error) {
+      console.error('Error re-ingesting job items:', error);
+      alert('Failed to re-ingest quarantined items. Please try again.');
+    } finally {
+      setReingestingJobs(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(jobId);
+        return newSet;
+      });
+    }
+  };
+
+  const handleViewJobResults = async (jobId: string) => {
+    if (!onViewJobResults) return;
+
+    setOpeningJobs(prev => new Set(prev).add(jobId));
+
+    try {
+      await onViewJobResults(jobId);
+    } catch (error) {
+      console.error('Error opening job results:', error);
+      alert('Failed to load the results of this job. Please try again.');
+    } finally {
+      setOpeningJobs(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(jobId);
+        return newSet;
+      });
+    }
+  };
+
   const canCancelJob = (status: string | null) => {
     return status === 'running' || status === 'pending';
   };
 
+  // Failed URLs can only be retried when the job kept them in its chunks
+  const canTakeErrorAction = (job: Job) =>
+    job.error_code !== 'urls_failed' || getFailedChunkUrls(job.profile_chunks || []).length > 0;
+
+  // Finished jobs that failed, were cancelled or fell short can be run again
+  const canRetryJob = (job: Job) =>
+    job.status === 'failed' || job.status === 'cancelled' || (job.status === 'completed' && !!job.error_code);
+
+  // Offered separately unless the error notice already offers it
+  const canRetryFailedOnly = (job: Job) =>
+    job.error_code !== 'urls_failed' && getFailedChunkUrls(job.profile_chunks || []).length > 0;
+
+  // Finished jobs keep links to the profiles and comments they produced, cancelled ones to those saved before the abort
+  const canViewJobResults = (job: Job) =>
+    !canCancelJob(job.status) && (job.results_count || 0) > 0 && canReopenJobResults(job);
+
+  // Quarantined items are only re-ingested once the job no longer writes to the quarantine
+  const canReingestJob = (job: Job) => {
+    return !canCancelJob(job.status) && (job.items_rejected || 0) > 0 && canReingestJobItems(job);
+  };
+
   const getJobDuration = (createdAt: string | null, completedAt: string | null) => {
     if (!createdAt) return '-';
     
@@ -147,6 +274,9 @@ export const JobsTable: React.FC<JobsTableProps> = ({
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Results
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Cost
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Duration
               </th>
@@ -168,7 +298,14 @@ export const JobsTable: React.FC<JobsTableProps> = ({
                       {job.status || 'pending'}
                     </span>
                   </div>
-                  {job.error_message && (
+                  {job.error_code ? (
+                    <JobErrorNotice
+                      code={job.error_code}
+                      message={job.error_message}
+                      onAction={onErrorAction && canTakeErrorAction(job) ? action => onErrorAction(job.id, action) : undefined}
+                      compact
+                    />
+                  ) : job.error_message && (
                     <div className="flex items-center gap-1 text-xs text-red-600 mt-1" title={job.error_message}>
                       <AlertTriangle className="w-3 h-3" />
                       Error: {job.error_message.substring(0, 50)}...
@@ -184,24 +321,42 @@ export const JobsTable: React.FC<JobsTableProps> = ({
                   <span className="text-sm font-medium text-gray-900">
                     {formatJobType(job.job_type)}
                   </span>
+                  {job.parent_job_id && (
+                    <div className="text-xs text-gray-500 mt-1" title={`Retry of job ${job.parent_job_id}`}>
+                      Retry of {job.parent_job_id.slice(0, 8)}
+                    </div>
+                  )}
+                  {job.schedule_id && (
+                    <div className="text-xs text-gray-500 mt-1" title={`Created by schedule ${job.schedule_id}`}>
+                      Scheduled
+                    </div>
+                  )}
                 </td>
                 <td className="px-6 py-4">
-                  <div className="max-w-xs">
-                    <a
-                      href={job.input_url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-sm text-blue-600 hover:underline truncate block"
-                      title={job.input_url}
-                    >
-                      {job.input_url}
-                    </a>
-                  </div>
+                  {renderInputUrls(job)}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <span className="text-sm text-gray-900">
                     {job.results_count !== null ? job.results_count.toLocaleString() : '-'}
                   </span>
+                  {(job.items_accepted || job.items_rejected) ? (
+                    <div className="text-xs text-gray-500 mt-1">
+                      {(job.items_accepted || 0).toLocaleString()} accepted
+                      {(job.items_rejected || 0) > 0 && (
+                        <span className="text-orange-600"> / {(job.items_rejected || 0).toLocaleString()} rejected</span>
+                      )}
+                    </div>
+                  ) : null}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className="text-sm text-gray-900" title={`${Number(job.compute_units || 0).toFixed(3)} compute units`}>
+                    {job.cost_usd ? formatCostUsd(Number(job.cost_usd)) : '-'}
+                  </span>
+                  {(job.saved_api_calls || 0) > 0 && (
+                    <div className="text-xs text-green-700 mt-1" title="Profiles taken from the database instead of Apify">
+                      {job.saved_api_calls} cached (~{formatCostUsd(estimateSavedUsd(job.saved_api_calls || 0))} saved)
+                    </div>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <span className="text-sm text-gray-500">
@@ -215,7 +370,7 @@ export const JobsTable: React.FC<JobsTableProps> = ({
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="flex items-center gap-2">
-                    {job.status === 'running' && onViewJobProgress && (
+                    {canCancelJob(job.status) && onViewJobProgress && (
                       <button
                         onClick={() => onViewJobProgress(job.id)}
                         className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition-colors"
@@ -241,6 +396,60 @@ export const JobsTable: React.FC<JobsTableProps> = ({
                         {cancellingJobs.has(job.id) ? 'Cancelling...' : 'Cancel'}
                       </button>
                     )}
+
+                    {canViewJobResults(job) && onViewJobResults && (
+                      <button
+                        onClick={() => handleViewJobResults(job.id)}
+                        disabled={openingJobs.has(job.id)}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-green-100 text-green-700 rounded hover:bg-green-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        title="Open the profiles or comments of this job"
+                      >
+                        {openingJobs.has(job.id) ? (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        ) : (
+                          <FolderOpen className="w-3 h-3" />
+                        )}
+                        Results
+                      </button>
+                    )}
+
+                    {canRetryJob(job) && onRetryJob && (
+                      <button
+                        onClick={() => onRetryJob(job.id, 'all')}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition-colors"
+                        title="Run the job again with the same options, skipping profiles, posts and companies that already have results"
+                      >
+                        <RefreshCw className="w-3 h-3" />
+                        Retry
+                      </button>
+                    )}
+
+                    {canRetryJob(job) && canRetryFailedOnly(job) && onRetryJob && (
+                      <button
+                        onClick={() => onRetryJob(job.id, 'failed_only')}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition-colors"
+                        title="Run only the profiles that failed after all their attempts"
+                      >
+                        <RefreshCw className="w-3 h-3" />
+                        Retry failed
+                      </button>
+                    )}
+
+                    {canReingestJob(job) && onReingestJob && (
+                      <button
+                        onClick={() => handleReingestJob(job.id)}
+                        disabled={reingestingJobs.has(job.id)}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-orange-100 text-orange-700 rounded hover:bg-orange-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        title="Validate quarantined items again and save the ones that pass"
+                      >
+                        {reingestingJobs.has(job.id) ? (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        ) : (
+                          <RotateCcw className="w-3 h-3" />
+                        )}
+                        {reingestingJobs.has(job.id) ? 'Re-ingesting...' : 'Re-ingest'}
+                      </button>
+                    )}
                   </div>
                 </td>
               </tr>
@@ -1,12 +1,16 @@
 import React from 'react';
-import { Loader2, CheckCircle, AlertCircle, MessageSquare, User, Users } from 'lucide-react';
+import { Loader2, CheckCircle, AlertCircle, MessageSquare, User, Users, Building2, ThumbsUp, Newspaper, UserSearch } from 'lucide-react';
+import type { ScrapingJob, ScrapingStage } from '../lib/supabase-clerk';
+import type { JobErrorCode } from '../lib/jobErrors';
+import { JobErrorNotice } from './JobErrorNotice';
 
 interface LoadingProgressProps {
-  type: 'post_comments' | 'profile_details' | 'mixed';
-  stage: 'starting' | 'scraping_comments' | 'extracting_profiles' | 'scraping_profiles' | 'saving_data' | 'completed' | 'error';
+  type: ScrapingJob['job_type'];
+  stage: ScrapingStage;
   progress?: number;
   message?: string;
   error?: string;
+  errorCode?: JobErrorCode;
 }
 
 export const LoadingProgress: React.FC<LoadingProgressProps> = ({
@@ -14,16 +18,25 @@ export const LoadingProgress: React.FC<LoadingProgressProps> = ({
   stage,
   progress = 0,
   message,
-  error
+  error,
+  errorCode
 }) => {
   const getIcon = () => {
     switch (type) {
       case 'post_comments':
         return <MessageSquare className="w-6 h-6 text-blue-600" />;
+      case 'post_reactions':
+        return <ThumbsUp className="w-6 h-6 text-blue-600" />;
       case 'profile_details':
         return <User className="w-6 h-6 text-green-600" />;
+      case 'profile_posts':
+        return <Newspaper className="w-6 h-6 text-green-600" />;
+      case 'search_results':
+        return <UserSearch className="w-6 h-6 text-indigo-600" />;
       case 'mixed':
         return <Users className="w-6 h-6 text-purple-600" />;
+      case 'company_details':
+        return <Building2 className="w-6 h-6 text-amber-600" />;
     }
   };
 
@@ -31,10 +44,18 @@ export const LoadingProgress: React.FC<LoadingProgressProps> = ({
     switch (type) {
       case 'post_comments':
         return 'Scraping Post Comments';
+      case 'post_reactions':
+        return 'Scraping Post Reactions';
       case 'profile_details':
         return 'Scraping Profile Details';
+      case 'profile_posts':
+        return 'Scraping Profile Posts';
+      case 'search_results':
+        return 'Scraping People Search Results';
       case 'mixed':
         return 'Mixed Scraping (Comments + Profiles)';
+      case 'company_details':
+        return 'Scraping Company Details';
     }
   };
 
@@ -45,12 +66,20 @@ export const LoadingProgress: React.FC<LoadingProgressProps> = ({
     switch (stage) {
       case 'starting':
         return 'Initializing scraping process...';
+      case 'searching_profiles':
+        return 'Collecting people from LinkedIn search...';
       case 'scraping_comments':
         return 'Extracting comments from LinkedIn post...';
+      case 'scraping_reactions':
+        return 'Extracting reactions from LinkedIn post...';
       case 'extracting_profiles':
         return 'Extracting profile URLs from comments...';
       case 'scraping_profiles':
         return 'Gathering detailed profile information...';
+      case 'scraping_posts':
+        return 'Collecting recent posts from profiles...';
+      case 'scraping_companies':
+        return 'Gathering company page information...';
       case 'saving_data':
         return 'Saving data to database...';
       case 'completed':
@@ -77,8 +106,12 @@ export const LoadingProgress: React.FC<LoadingProgressProps> = ({
   const stages = [
     { key: 'starting', label: 'Initialize' },
     ...(type === 'post_comments' || type === 'mixed' ? [{ key: 'scraping_comments', label: 'Extract Comments' }] : []),
+    ...(type === 'post_reactions' ? [{ key: 'scraping_reactions', label: 'Extract Reactions' }] : []),
+    ...(type === 'search_results' ? [{ key: 'searching_profiles', label: 'Run Search' }] : []),
     ...(type === 'mixed' ? [{ key: 'extracting_profiles', label: 'Extract Profiles' }] : []),
-    ...(type === 'profile_details' || type === 'mixed' ? [{ key: 'scraping_profiles', label: 'Scrape Profiles' }] : []),
+    ...(type === 'profile_details' || type === 'profile_posts' || type === 'search_results' || type === 'mixed' ? [{ key: 'scraping_profiles', label: 'Scrape Profiles' }] : []),
+    ...(type === 'profile_posts' ? [{ key: 'scraping_posts', label: 'Scrape Posts' }] : []),
+    ...(type === 'company_details' ? [{ key: 'scraping_companies', label: 'Scrape Companies' }] : []),
     { key: 'saving_data', label: 'Save Data' },
     { key: 'completed', label: 'Complete' }
   ];
@@ -112,6 +145,12 @@ export const LoadingProgress: React.FC<LoadingProgressProps> = ({
         </div>
       </div>
 
+      {error && errorCode && (
+        <div className="mb-6">
+          <JobErrorNotice code={errorCode} />
+        </div>
+      )}
+
       {/* Progress Bar */}
       <div className="mb-6">
         <div className="flex justify-between text-sm text-gray-600 mb-2">
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { FileText, Loader2, MessageSquare, ExternalLink } from 'lucide-react';
+import { formatDate, getFullDate } from '../lib/utils';
+import type { LinkedInPost } from '../lib/supabase-clerk';
+
+interface PostsTableProps {
+  posts: LinkedInPost[];
+  isLoading: boolean;
+  onViewComments: (post: LinkedInPost) => Promise<void>;
+}
+
+export const PostsTable: React.FC<PostsTableProps> = ({ posts, isLoading, onViewComments }) => {
+  const [openingPostId, setOpeningPostId] = useState<string | null>(null);
+
+  const handleViewComments = async (post: LinkedInPost) => {
+    setOpeningPostId(post.id);
+    try {
+      await onViewComments(post);
+    } finally {
+      setOpeningPostId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100">
+      <div className="p-6 border-b border-gray-200">
+        <h3 className="text-xl font-bold text-gray-900">Scraped Posts ({posts.length})</h3>
+        <p className="text-sm text-gray-600">
+          Reopen the commenters of any post scraped before, without another Apify run
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <div className="text-gray-600">Loading posts...</div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Post
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Comments
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Last Scraped
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {posts.map((post) => (
+                <tr key={post.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <a
+                      href={post.post_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-2 text-sm text-blue-600 hover:underline max-w-md"
+                      title={post.post_url}
+                    >
+                      <span className="truncate">{post.post_url}</span>
+                      <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                    </a>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className="text-sm text-gray-900">{post.comments_count.toLocaleString()}</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className="text-sm text-gray-500" title={getFullDate(post.last_scraped_at)}>
+                      {formatDate(post.last_scraped_at)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <button
+                      onClick={() => handleViewComments(post)}
+                      disabled={openingPostId !== null}
+                      className="flex items-center gap-1 px-3 py-1 text-sm text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded disabled:opacity-50"
+                    >
+                      {openingPostId === post.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <MessageSquare className="w-4 h-4" />
+                      )}
+                      View Commenters
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {posts.length === 0 && (
+            <div className="text-center py-12">
+              <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <div className="text-gray-500">No posts scraped yet</div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
-import { User, MapPin, Users, Briefcase, GraduationCap, Award, ArrowLeft, ExternalLink, Mail, Phone, Globe, Calendar, Building } from 'lucide-react';
+import { User, MapPin, Users, Briefcase, GraduationCap, Award, ArrowLeft, ExternalLink, Mail, Phone, Globe, Calendar, Building, Newspaper, ThumbsUp, MessageSquare, Repeat2 } from 'lucide-react';
+import type { ProfilePost } from '../lib/supabase-clerk';
 
 interface ProfileDetailsDisplayProps {
   profiles: any[];
@@ -330,6 +331,49 @@ export const ProfileDetailsDisplay: React.FC<ProfileDetailsDisplayProps> = ({
             </div>
           )}
 
+          {/* Recent Posts */}
+          {profile.recentPosts && profile.recentPosts.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                <Newspaper className="w-5 h-5 text-blue-600" />
+                Recent Posts ({profile.recentPosts.length})
+              </h3>
+              <div className="space-y-3">
+                {profile.recentPosts.map((post: ProfilePost, idx: number) => (
+                  <div key={idx} className="bg-gray-50 p-3 rounded-lg">
+                    <div className="flex items-center justify-between gap-3 mb-2">
+                      <span className="text-sm text-gray-500">{post.postedAt ? formatDate(post.postedAt) : 'Date unknown'}</span>
+                      <a
+                        href={post.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                      >
+                        View post
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    </div>
+                    <p className="text-gray-700 whitespace-pre-line line-clamp-4">{post.text}</p>
+                    <div className="flex items-center gap-4 mt-2 text-sm text-gray-500">
+                      <span className="flex items-center gap-1">
+                        <ThumbsUp className="w-4 h-4" />
+                        {post.likes.toLocaleString()}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <MessageSquare className="w-4 h-4" />
+                        {post.comments.toLocaleString()}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Repeat2 className="w-4 h-4" />
+                        {post.shares.toLocaleString()}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Contact Information */}
           <div className="bg-blue-50 p-4 rounded-lg">
             <h3 className="text-lg font-semibold text-gray-900 mb-3">Contact Information</h3>
@@ -0,0 +1,525 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CalendarClock, AlertCircle, CheckCircle, Plus, Pause, Play, Pencil, Trash2, Zap, Save, X, Loader2 } from 'lucide-react';
+import type { ApifyKey, JobSchedule, ScrapingJob } from '../lib/supabase';
+import { DatabaseService } from '../lib/database';
+import { createClerkSupabaseClient } from '../lib/supabase-clerk';
+import {
+  MIN_SCHEDULE_INTERVAL_MINUTES,
+  createScheduledJob,
+  describeScheduleTiming,
+  findScheduleTimingError,
+  getNextScheduleRun,
+  type JobScheduleTemplate
+} from '../lib/schedules';
+
+interface ScheduleManagerProps {
+  userId: string;
+  // Scheduled jobs are only queued and run by the background worker
+  backgroundWorkerEnabled: boolean;
+  onViewJob?: (jobId: string) => void;
+}
+
+const JOB_TYPE_OPTIONS: { value: ScrapingJob['job_type']; label: string }[] = [
+  { value: 'post_comments', label: 'Post Comments' },
+  { value: 'post_reactions', label: 'Post Reactions' },
+  { value: 'mixed', label: 'Mixed (Post + Profiles)' },
+  { value: 'profile_details', label: 'Profile Details' },
+  { value: 'profile_posts', label: 'Profile Posts' },
+  { value: 'search_results', label: 'People Search' },
+  { value: 'company_details', label: 'Company Details' }
+];
+
+const COMMENT_JOB_TYPES: ScrapingJob['job_type'][] = ['post_comments', 'mixed'];
+
+// Form fields as typed
+interface ScheduleDraft {
+  name: string;
+  job_type: ScrapingJob['job_type'];
+  // One URL per line
+  urls: string;
+  apify_key_id: string;
+  // Comma-separated
+  tags: string;
+  timing: 'interval' | 'cron';
+  interval_minutes: string;
+  cron_expression: string;
+  max_comments: string;
+  max_results: string;
+}
+
+const toDraft = (schedule?: JobSchedule): ScheduleDraft => ({
+  name: schedule?.name || '',
+  job_type: schedule?.job_type || 'post_comments',
+  urls: schedule?.inputs.urls.join('\n') || '',
+  apify_key_id: schedule?.apify_key_id || '',
+  tags: schedule?.tags.join(', ') || '',
+  timing: schedule?.cron_expression ? 'cron' : 'interval',
+  interval_minutes: schedule?.interval_minutes?.toString() || '10080',
+  cron_expression: schedule?.cron_expression || '0 9 * * 1',
+  max_comments: schedule?.comment_options?.maxComments?.toString() || '',
+  max_results: schedule?.search_options?.maxResults?.toString() || ''
+});
+
+// Options the form does not show are kept from the schedule being edited
+const fromDraft = (draft: ScheduleDraft, schedule?: JobSchedule): JobScheduleTemplate => {
+  const parse = (value: string) => (value.trim() === '' ? undefined : Number(value));
+  const lines = draft.urls.split('\n').map(url => url.trim()).filter(Boolean);
+
+  return {
+    name: draft.name.trim(),
+    job_type: draft.job_type,
+    // A search URL is kept whole: its query string may contain commas
+    inputs: { urls: draft.job_type === 'search_results' ? lines.slice(0, 1) : lines },
+    comment_options: { ...schedule?.comment_options, maxComments: parse(draft.max_comments) },
+    search_options: { ...schedule?.search_options, maxResults: parse(draft.max_results) },
+    tags: draft.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+    apify_key_id: draft.apify_key_id || null,
+    cron_expression: draft.timing === 'cron' ? draft.cron_expression.trim() : null,
+    interval_minutes: draft.timing === 'interval' ? parse(draft.interval_minutes) ?? null : null
+  };
+};
+
+const formatDateTime = (value?: string | null) => (value ? new Date(value).toLocaleString() : '-');
+
+export const ScheduleManager: React.FC<ScheduleManagerProps> = ({ userId, backgroundWorkerEnabled, onViewJob }) => {
+  const db = useMemo(() => new DatabaseService(createClerkSupabaseClient()), []);
+  const [schedules, setSchedules] = useState<JobSchedule[]>([]);
+  const [keys, setKeys] = useState<ApifyKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Schedule being edited; 'new' for the create form
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ScheduleDraft>(toDraft());
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    const loadSchedules = async () => {
+      try {
+        console.log('🔍 Loading schedules for user:', userId);
+        const [userSchedules, userKeys] = await Promise.all([
+          db.getSchedules(userId),
+          db.getApifyKeys(userId)
+        ]);
+        setSchedules(userSchedules);
+        setKeys(userKeys);
+      } catch (loadError) {
+        console.error('❌ Error loading schedules:', loadError);
+        setError('Failed to load schedules.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSchedules();
+  }, [db, userId]);
+
+  const replaceSchedule = (updated: JobSchedule) => {
+    setSchedules(prev => prev.map(schedule => (schedule.id === updated.id ? updated : schedule)));
+  };
+
+  const startEditing = (schedule?: JobSchedule) => {
+    setEditingId(schedule?.id || 'new');
+    setDraft({ ...toDraft(schedule), apify_key_id: schedule?.apify_key_id || keys.find(key => key.is_active)?.id || '' });
+    setError('');
+    setSuccess('');
+  };
+
+  const handleSave = async () => {
+    const editing = schedules.find(schedule => schedule.id === editingId);
+    const template = fromDraft(draft, editing);
+
+    const problem = !template.name
+      ? 'Give the schedule a name.'
+      : template.inputs.urls.length === 0
+        ? 'Add at least one URL.'
+        : !template.apify_key_id
+          ? 'Pick the API key the jobs run on.'
+          : findScheduleTimingError(template);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setBusyId(editingId);
+    setError('');
+    setSuccess('');
+
+    try {
+      // Saving starts the timing again from now; paused schedules get their next run on resume
+      const nextRunAt = getNextScheduleRun(template, new Date());
+      if (editing) {
+        replaceSchedule(await db.updateSchedule(editing.id, {
+          ...template,
+          next_run_at: editing.is_paused ? editing.next_run_at : nextRunAt.toISOString()
+        }));
+      } else {
+        const created = await db.createSchedule(userId, template, nextRunAt);
+        setSchedules(prev => [created, ...prev]);
+      }
+      setEditingId(null);
+      setSuccess('Schedule saved.');
+    } catch (saveError) {
+      console.error('❌ Error saving schedule:', saveError);
+      setError('Failed to save the schedule. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleTogglePaused = async (schedule: JobSchedule) => {
+    setBusyId(schedule.id);
+    setError('');
+    setSuccess('');
+
+    try {
+      // Resuming skips the runs missed while paused
+      replaceSchedule(await db.updateSchedule(schedule.id, schedule.is_paused
+        ? { is_paused: false, next_run_at: getNextScheduleRun(schedule, new Date()).toISOString() }
+        : { is_paused: true }));
+    } catch (toggleError) {
+      console.error('❌ Error pausing or resuming schedule:', toggleError);
+      setError('Failed to update the schedule. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Queues one extra run; the schedule's next regular run stays as it is
+  const handleRunNow = async (schedule: JobSchedule) => {
+    setBusyId(schedule.id);
+    setError('');
+    setSuccess('');
+
+    try {
+      const now = new Date();
+      const job = await createScheduledJob(db, schedule, now);
+      replaceSchedule({ ...schedule, last_run_at: now.toISOString(), last_job_id: job.id });
+      setSuccess(`Job queued for "${schedule.name}".`);
+      onViewJob?.(job.id);
+    } catch (runError) {
+      console.error('❌ Error running schedule:', runError);
+      setError('Failed to queue the job. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: JobSchedule) => {
+    if (!confirm(`Delete the schedule "${schedule.name}"? Jobs it already created are kept.`)) {
+      return;
+    }
+
+    setBusyId(schedule.id);
+    setError('');
+    setSuccess('');
+
+    try {
+      await db.deleteSchedule(schedule.id);
+      setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+      if (editingId === schedule.id) setEditingId(null);
+    } catch (deleteError) {
+      console.error('❌ Error deleting schedule:', deleteError);
+      setError('Failed to delete the schedule. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const updateDraft = (changes: Partial<ScheduleDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  const renderForm = () => (
+    <div className="mb-6 p-4 border border-blue-200 bg-blue-50 rounded-lg space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="schedule-name" className="block text-xs text-gray-600 mb-1">Name</label>
+          <input
+            id="schedule-name"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            placeholder="Weekly key posts"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="schedule-type" className="block text-xs text-gray-600 mb-1">Job type</label>
+          <select
+            id="schedule-type"
+            value={draft.job_type}
+            onChange={(e) => updateDraft({ job_type: e.target.value as ScrapingJob['job_type'] })}
+            className={inputClassName}
+          >
+            {JOB_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="schedule-key" className="block text-xs text-gray-600 mb-1">API key</label>
+          <select
+            id="schedule-key"
+            value={draft.apify_key_id}
+            onChange={(e) => updateDraft({ apify_key_id: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Select a key...</option>
+            {keys.map(key => (
+              <option key={key.id} value={key.id}>{key.key_name}{key.is_active ? '' : ' (inactive)'}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="schedule-urls" className="block text-xs text-gray-600 mb-1">
+          {draft.job_type === 'search_results' ? 'Search URL' : 'URLs, one per line'}
+        </label>
+        <textarea
+          id="schedule-urls"
+          value={draft.urls}
+          onChange={(e) => updateDraft({ urls: e.target.value })}
+          rows={draft.job_type === 'search_results' ? 1 : 4}
+          className={`${inputClassName} font-mono`}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+        <div>
+          <span className="block text-xs text-gray-600 mb-1">Runs</span>
+          <div className="flex gap-2">
+            <select
+              value={draft.timing}
+              onChange={(e) => updateDraft({ timing: e.target.value as ScheduleDraft['timing'] })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="interval">Every (minutes)</option>
+              <option value="cron">Cron (UTC)</option>
+            </select>
+            {draft.timing === 'interval' ? (
+              <input
+                type="number"
+                min={MIN_SCHEDULE_INTERVAL_MINUTES}
+                value={draft.interval_minutes}
+                onChange={(e) => updateDraft({ interval_minutes: e.target.value })}
+                aria-label="Interval in minutes"
+                className={inputClassName}
+              />
+            ) : (
+              <input
+                value={draft.cron_expression}
+                onChange={(e) => updateDraft({ cron_expression: e.target.value })}
+                placeholder="0 9 * * 1"
+                aria-label="Cron expression"
+                className={`${inputClassName} font-mono`}
+              />
+            )}
+          </div>
+        </div>
+        <div>
+          <label htmlFor="schedule-tags" className="block text-xs text-gray-600 mb-1">Profile tags, comma-separated</label>
+          <input
+            id="schedule-tags"
+            value={draft.tags}
+            onChange={(e) => updateDraft({ tags: e.target.value })}
+            placeholder="target-accounts, weekly"
+            className={inputClassName}
+          />
+        </div>
+        {COMMENT_JOB_TYPES.includes(draft.job_type) && (
+          <div>
+            <label htmlFor="schedule-max-comments" className="block text-xs text-gray-600 mb-1">Max comments per post</label>
+            <input
+              id="schedule-max-comments"
+              type="number"
+              min="1"
+              value={draft.max_comments}
+              onChange={(e) => updateDraft({ max_comments: e.target.value })}
+              placeholder="No limit"
+              className={inputClassName}
+            />
+          </div>
+        )}
+        {draft.job_type === 'search_results' && (
+          <div>
+            <label htmlFor="schedule-max-results" className="block text-xs text-gray-600 mb-1">Max profiles</label>
+            <input
+              id="schedule-max-results"
+              type="number"
+              min="1"
+              value={draft.max_results}
+              onChange={(e) => updateDraft({ max_results: e.target.value })}
+              placeholder="Default"
+              className={inputClassName}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => setEditingId(null)}
+          disabled={busyId === editingId}
+          className="flex items-center gap-2 px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={busyId === editingId}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          {busyId === editingId ? 'Saving...' : 'Save schedule'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-gray-500" />
+          <h3 className="text-lg font-semibold text-gray-900">Schedules ({schedules.length})</h3>
+        </div>
+        {editingId === null && (
+          <button
+            onClick={() => startEditing()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            New schedule
+          </button>
+        )}
+      </div>
+
+      {!backgroundWorkerEnabled && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start gap-2">
+          <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-yellow-800">
+            Scheduled jobs are queued and run by the background worker (<code>npm run worker</code>).
+            Without one they stay pending.
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg flex items-start gap-2">
+          <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-green-700">{success}</div>
+        </div>
+      )}
+
+      {editingId !== null && renderForm()}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8 text-gray-500">
+          <Loader2 className="w-5 h-5 animate-spin mr-2" />
+          Loading schedules...
+        </div>
+      ) : schedules.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">
+          No schedules yet. Create one to re-scrape the same posts or accounts on a regular basis.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Schedule</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Runs</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Run</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Run</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {schedules.map(schedule => (
+                <tr key={schedule.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <div className="text-sm font-medium text-gray-900">{schedule.name}</div>
+                    <div className="text-xs text-gray-500" title={schedule.inputs.urls.join('\n')}>
+                      {JOB_TYPE_OPTIONS.find(option => option.value === schedule.job_type)?.label || schedule.job_type}
+                      {' · '}{schedule.inputs.urls.length} URL{schedule.inputs.urls.length === 1 ? '' : 's'}
+                      {!schedule.apify_key_id && <span className="text-red-600"> · key deleted</span>}
+                    </div>
+                    {schedule.tags.length > 0 && (
+                      <div className="text-xs text-gray-400">{schedule.tags.join(', ')}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">{describeScheduleTiming(schedule)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                    {formatDateTime(schedule.last_run_at)}
+                    {schedule.last_job_id && onViewJob && (
+                      <button
+                        onClick={() => onViewJob(schedule.last_job_id!)}
+                        className="block text-xs text-blue-600 hover:underline"
+                        title={`Job ${schedule.last_job_id}`}
+                      >
+                        Job {schedule.last_job_id.slice(0, 8)}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm whitespace-nowrap">
+                    {schedule.is_paused ? (
+                      <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-800">Paused</span>
+                    ) : (
+                      <span className="text-gray-700">{formatDateTime(schedule.next_run_at)}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => handleRunNow(schedule)}
+                        disabled={busyId === schedule.id}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        title="Queue a job from this schedule now, besides its regular runs"
+                      >
+                        <Zap className="w-3 h-3" />
+                        Run now
+                      </button>
+                      <button
+                        onClick={() => handleTogglePaused(schedule)}
+                        disabled={busyId === schedule.id}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {schedule.is_paused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+                        {schedule.is_paused ? 'Resume' : 'Pause'}
+                      </button>
+                      <button
+                        onClick={() => startEditing(schedule)}
+                        disabled={busyId === schedule.id}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        <Pencil className="w-3 h-3" />
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(schedule)}
+                        disabled={busyId === schedule.id}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,32 +1,74 @@
 import React, { useState } from 'react';
-import { Search, Users, UserCheck, Loader2, AlertTriangle } from 'lucide-react';
+import { Search, Users, UserCheck, Loader2, AlertTriangle, SlidersHorizontal, Building2, ThumbsUp, Newspaper, UserSearch } from 'lucide-react';
+import { DEFAULT_SEARCH_MAX_RESULTS, type CommentScrapeOptions, type SearchScrapeOptions } from '../lib/apify';
+import type { ScrapingJob } from '../lib/supabase-clerk';
 
 interface ScrapingFormProps {
-  onScrape: (type: 'post_comments' | 'profile_details' | 'mixed', url: string) => Promise<void>;
+  onScrape: (
+    type: ScrapingJob['job_type'],
+    urls: string[],
+    commentOptions?: CommentScrapeOptions,
+    searchOptions?: SearchScrapeOptions
+  ) => Promise<void>;
   isLoading: boolean;
   disabled?: boolean;
 }
 
 export const ScrapingForm: React.FC<ScrapingFormProps> = ({ onScrape, isLoading, disabled = false }) => {
-  const [scrapingType, setScrapingType] = useState<'post_comments' | 'profile_details' | 'mixed'>('post_comments');
+  const [scrapingType, setScrapingType] = useState<ScrapingJob['job_type']>('post_comments');
   const [url, setUrl] = useState('');
+  const [maxComments, setMaxComments] = useState('');
+  const [sortOrder, setSortOrder] = useState<'relevance' | 'date'>('relevance');
+  const [includeReplies, setIncludeReplies] = useState(false);
+  const [postedAfter, setPostedAfter] = useState('');
+  const [maxResults, setMaxResults] = useState(String(DEFAULT_SEARCH_MAX_RESULTS));
+
+  const scrapesComments = scrapingType === 'post_comments' || scrapingType === 'mixed';
+  const acceptsPosts = scrapesComments || scrapingType === 'post_reactions';
+  const acceptsUrlList = acceptsPosts || scrapingType === 'profile_posts';
+
+  const getCommentOptions = (): CommentScrapeOptions => ({
+    ...(Number(maxComments) > 0 && { maxComments: Number(maxComments) }),
+    sortOrder,
+    includeReplies,
+    ...(postedAfter && { postedAfter: new Date(postedAfter).toISOString() })
+  });
+
+  // Comment, reaction and profile posts jobs accept several URLs, one per line or comma separated
+  const inputUrls = url.split(/[\s,]+/).filter(Boolean);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!url.trim() || disabled) return;
     
-    await onScrape(scrapingType, url.trim());
+    if (acceptsUrlList) {
+      await onScrape(scrapingType, inputUrls, scrapesComments ? getCommentOptions() : undefined);
+    } else if (scrapingType === 'search_results') {
+      await onScrape(scrapingType, [url.trim()], undefined, {
+        maxResults: Number(maxResults) > 0 ? Number(maxResults) : DEFAULT_SEARCH_MAX_RESULTS
+      });
+    } else {
+      await onScrape(scrapingType, [url.trim()]);
+    }
     setUrl('');
   };
 
   const getPlaceholder = () => {
     switch (scrapingType) {
       case 'post_comments':
-        return 'https://www.linkedin.com/posts/...';
+        return 'https://www.linkedin.com/posts/...\nhttps://www.linkedin.com/posts/... (one post per line)';
+      case 'post_reactions':
+        return 'https://www.linkedin.com/posts/... (one post per line)';
       case 'profile_details':
         return 'https://www.linkedin.com/in/username';
+      case 'profile_posts':
+        return 'https://www.linkedin.com/in/username (one profile per line)';
+      case 'search_results':
+        return 'https://www.linkedin.com/search/results/people/?keywords=...';
       case 'mixed':
-        return 'https://www.linkedin.com/posts/... (will scrape post + profiles)';
+        return 'https://www.linkedin.com/posts/... (will scrape posts + profiles, one post per line)';
+      case 'company_details':
+        return 'https://www.linkedin.com/company/company-name';
       default:
         return '';
     }
@@ -36,10 +78,18 @@ export const ScrapingForm: React.FC<ScrapingFormProps> = ({ onScrape, isLoading,
     switch (scrapingType) {
       case 'post_comments':
         return <Search className="w-5 h-5" />;
+      case 'post_reactions':
+        return <ThumbsUp className="w-5 h-5" />;
       case 'profile_details':
         return <UserCheck className="w-5 h-5" />;
+      case 'profile_posts':
+        return <Newspaper className="w-5 h-5" />;
+      case 'search_results':
+        return <UserSearch className="w-5 h-5" />;
       case 'mixed':
         return <Users className="w-5 h-5" />;
+      case 'company_details':
+        return <Building2 className="w-5 h-5" />;
       default:
         return <Search className="w-5 h-5" />;
     }
@@ -69,7 +119,7 @@ export const ScrapingForm: React.FC<ScrapingFormProps> = ({ onScrape, isLoading,
           <label className="block text-sm font-medium text-gray-700 mb-3">
             Scraping Type
           </label>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4">
             <button
               type="button"
               onClick={() => setScrapingType('post_comments')}
@@ -85,6 +135,21 @@ export const ScrapingForm: React.FC<ScrapingFormProps> = ({ onScrape, isLoading,
               <div className="text-sm text-gray-500">Scrape post engagers</div>
             </button>
 
+            <button
+              type="button"
+              onClick={() => setScrapingType('post_reactions')}
+              disabled={disabled}
+              className={`p-4 rounded-lg border-2 transition-all ${
+                scrapingType === 'post_reactions'
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 hover:border-gray-300'
+              } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <ThumbsUp className="w-6 h-6 mx-auto mb-2" />
+              <div className="font-medium">Post Reactions</div>
+              <div className="text-sm text-gray-500">Scrape post likers</div>
+            </button>
+
             <button
               type="button"
               onClick={() => setScrapingType('profile_details')}
@@ -100,6 +165,36 @@ export const ScrapingForm: React.FC<ScrapingFormProps> = ({ onScrape, isLoading,
               <div className="text-sm text-gray-500">Scrape profile info</div>
             </button>
 
+            <button
+              type="button"
+              onClick={() => setScrapingType('profile_posts')}
+              disabled={disabled}
+              className={`p-4 rounded-lg border-2 transition-all ${
+                scrapingType === 'profile_posts'
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 hover:border-gray-300'
+              } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <Newspaper className="w-6 h-6 mx-auto mb-2" />
+              <div className="font-medium">Profile Posts</div>
+              <div className="text-sm text-gray-500">Scrape recent posts</div>
+            </button>
+
+            <button
+              type="button"
+              onClick={() => setScrapingType('search_results')}
+              disabled={disabled}
+              className={`p-4 rounded-lg border-2 transition-all ${
+                scrapingType === 'search_results'
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 hover:border-gray-300'
+              } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <UserSearch className="w-6 h-6 mx-auto mb-2" />
+              <div className="font-medium">People Search</div>
+              <div className="text-sm text-gray-500">Scrape search results</div>
+            </button>
+
             <button
               type="button"
               onClick={() => setScrapingType('mixed')}
@@ -114,25 +209,151 @@ export const ScrapingForm: React.FC<ScrapingFormProps> = ({ onScrape, isLoading,
               <div className="font-medium">Mixed</div>
               <div className="text-sm text-gray-500">Post + Profiles</div>
             </button>
+
+            <button
+              type="button"
+              onClick={() => setScrapingType('company_details')}
+              disabled={disabled}
+              className={`p-4 rounded-lg border-2 transition-all ${
+                scrapingType === 'company_details'
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 hover:border-gray-300'
+              } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <Building2 className="w-6 h-6 mx-auto mb-2" />
+              <div className="font-medium">Company</div>
+              <div className="text-sm text-gray-500">Scrape company page</div>
+            </button>
           </div>
         </div>
 
         <div>
           <label htmlFor="url" className="block text-sm font-medium text-gray-700 mb-2">
-            LinkedIn URL
+            {acceptsPosts
+              ? 'LinkedIn Post URLs'
+              : acceptsUrlList
+                ? 'LinkedIn Profile URLs'
+                : scrapingType === 'search_results' ? 'LinkedIn Search URL' : 'LinkedIn URL'}
           </label>
-          <input
-            type="url"
-            id="url"
-            value={url}
-            onChange={(e) => setUrl(e.target.value)}
-            placeholder={getPlaceholder()}
-            disabled={disabled}
-            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
-            required
-          />
+          {acceptsUrlList ? (
+            <>
+              <textarea
+                id="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder={getPlaceholder()}
+                disabled={disabled}
+                rows={4}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+                required
+              />
+              {inputUrls.length > 1 && (
+                <p className="mt-1 text-sm text-gray-500">
+                  {inputUrls.length} {acceptsPosts ? 'posts' : 'profiles'} will be scraped in one job
+                </p>
+              )}
+            </>
+          ) : (
+            <input
+              type="url"
+              id="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder={getPlaceholder()}
+              disabled={disabled}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+              required
+            />
+          )}
         </div>
 
+        {scrapingType === 'search_results' && (
+          <div>
+            <label htmlFor="maxResults" className="block text-sm font-medium text-gray-700 mb-2">
+              Maximum results
+            </label>
+            <input
+              type="number"
+              id="maxResults"
+              min={1}
+              value={maxResults}
+              onChange={(e) => setMaxResults(e.target.value)}
+              disabled={disabled}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+            <p className="mt-1 text-sm text-gray-500">
+              People already in the database are not scraped again
+            </p>
+          </div>
+        )}
+
+        {scrapesComments && (
+          <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+            <div className="flex items-center gap-2 mb-4 text-sm font-medium text-gray-700">
+              <SlidersHorizontal className="w-4 h-4" />
+              Comment Options
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="maxComments" className="block text-sm text-gray-600 mb-1">
+                  Maximum comments
+                </label>
+                <input
+                  type="number"
+                  id="maxComments"
+                  min={1}
+                  value={maxComments}
+                  onChange={(e) => setMaxComments(e.target.value)}
+                  placeholder="Actor default"
+                  disabled={disabled}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="sortOrder" className="block text-sm text-gray-600 mb-1">
+                  Sort order
+                </label>
+                <select
+                  id="sortOrder"
+                  value={sortOrder}
+                  onChange={(e) => setSortOrder(e.target.value as 'relevance' | 'date')}
+                  disabled={disabled}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                >
+                  <option value="relevance">Most relevant</option>
+                  <option value="date">Most recent</option>
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="postedAfter" className="block text-sm text-gray-600 mb-1">
+                  Only comments posted after
+                </label>
+                <input
+                  type="date"
+                  id="postedAfter"
+                  value={postedAfter}
+                  onChange={(e) => setPostedAfter(e.target.value)}
+                  disabled={disabled}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-600 md:mt-6">
+                <input
+                  type="checkbox"
+                  checked={includeReplies}
+                  onChange={(e) => setIncludeReplies(e.target.checked)}
+                  disabled={disabled}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Include replies to comments
+              </label>
+            </div>
+          </div>
+        )}
+
         <button
           type="submit"
           disabled={isLoading || !url.trim() || disabled}
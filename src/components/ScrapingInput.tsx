@@ -17,10 +17,18 @@ export function ScrapingInput({ mode, onScrape, isLoading }: ScrapingInputProps)
     switch (mode) {
       case 'post_comments':
         return 'https://www.linkedin.com/posts/microsoft-events_microsoft-build...';
+      case 'post_reactions':
+        return 'https://www.linkedin.com/posts/microsoft-events_microsoft-build...';
       case 'profile_details':
         return 'https://www.linkedin.com/in/username or multiple URLs (one per line)';
+      case 'profile_posts':
+        return 'https://www.linkedin.com/in/username or multiple URLs (one per line)';
+      case 'search_results':
+        return 'https://www.linkedin.com/search/results/people/?keywords=...';
       case 'mixed':
         return 'https://www.linkedin.com/posts/microsoft-events_microsoft-build...';
+      case 'company_details':
+        return 'https://www.linkedin.com/company/microsoft';
       default:
         return 'Enter LinkedIn URL';
     }
@@ -30,10 +38,18 @@ export function ScrapingInput({ mode, onScrape, isLoading }: ScrapingInputProps)
     switch (mode) {
       case 'post_comments':
         return 'Enter a LinkedIn post URL to extract all commenters';
+      case 'post_reactions':
+        return 'Enter a LinkedIn post URL to extract everyone who reacted to it';
       case 'profile_details':
         return 'Enter LinkedIn profile URLs to extract detailed information';
+      case 'profile_posts':
+        return 'Enter LinkedIn profile URLs to collect their recent posts';
+      case 'search_results':
+        return 'Enter a LinkedIn people search URL to extract the profiles it lists';
       case 'mixed':
         return 'Enter a LinkedIn post URL to extract commenters and their full profiles';
+      case 'company_details':
+        return 'Enter a LinkedIn company page URL to extract company details';
       default:
         return '';
     }
@@ -48,8 +64,8 @@ export function ScrapingInput({ mode, onScrape, isLoading }: ScrapingInputProps)
       return;
     }
 
-    // For profile details mode, allow multiple URLs
-    if (mode === 'profile_details') {
+    // For profile modes, allow multiple URLs
+    if (mode === 'profile_details' || mode === 'profile_posts') {
       const urls = url.split('\n').map(u => u.trim()).filter(Boolean);
       const invalidUrls = urls.filter(u => !validateLinkedInUrl(u));
       
@@ -81,7 +97,7 @@ export function ScrapingInput({ mode, onScrape, isLoading }: ScrapingInputProps)
 
       <form onSubmit={handleSubmit} className="space-y-4">
         <div>
-          {mode === 'profile_details' ? (
+          {mode === 'profile_details' || mode === 'profile_posts' ? (
             <textarea
               value={url}
               onChange={(e) => setUrl(e.target.value)}
@@ -1,7 +1,7 @@
 import React from 'react';
-import { MessageSquare, User, Users } from 'lucide-react';
+import { MessageSquare, User, Users, Building2, ThumbsUp, Newspaper, UserSearch } from 'lucide-react';
 
-export type ScrapingMode = 'post_comments' | 'profile_details' | 'mixed';
+export type ScrapingMode = 'post_comments' | 'post_reactions' | 'profile_details' | 'profile_posts' | 'search_results' | 'mixed' | 'company_details';
 
 interface ScrapingModeSelectorProps {
   selectedMode: ScrapingMode;
@@ -17,6 +17,14 @@ const modes = [
     color: 'bg-blue-50 border-blue-200 text-blue-700',
     iconColor: 'text-blue-600'
   },
+  {
+    id: 'post_reactions' as ScrapingMode,
+    title: 'Scrape Post Reactions',
+    description: 'Extract everyone who reacted to a LinkedIn post',
+    icon: ThumbsUp,
+    color: 'bg-sky-50 border-sky-200 text-sky-700',
+    iconColor: 'text-sky-600'
+  },
   {
     id: 'profile_details' as ScrapingMode,
     title: 'Scrape Profile Details',
@@ -25,6 +33,22 @@ const modes = [
     color: 'bg-green-50 border-green-200 text-green-700',
     iconColor: 'text-green-600'
   },
+  {
+    id: 'profile_posts' as ScrapingMode,
+    title: 'Scrape Profile Posts',
+    description: 'Collect the recent posts of LinkedIn profiles with their engagement',
+    icon: Newspaper,
+    color: 'bg-teal-50 border-teal-200 text-teal-700',
+    iconColor: 'text-teal-600'
+  },
+  {
+    id: 'search_results' as ScrapingMode,
+    title: 'Scrape People Search',
+    description: 'Get the full profiles of the people in a LinkedIn search',
+    icon: UserSearch,
+    color: 'bg-indigo-50 border-indigo-200 text-indigo-700',
+    iconColor: 'text-indigo-600'
+  },
   {
     id: 'mixed' as ScrapingMode,
     title: 'Mixed Scraper',
@@ -32,6 +56,14 @@ const modes = [
     icon: Users,
     color: 'bg-purple-50 border-purple-200 text-purple-700',
     iconColor: 'text-purple-600'
+  },
+  {
+    id: 'company_details' as ScrapingMode,
+    title: 'Scrape Company Details',
+    description: 'Get size, industry, website and followers of company pages',
+    icon: Building2,
+    color: 'bg-amber-50 border-amber-200 text-amber-700',
+    iconColor: 'text-amber-600'
   }
 ];
 
@@ -39,7 +71,7 @@ export function ScrapingModeSelector({ selectedMode, onModeChange }: ScrapingMod
   return (
     <div className="bg-white rounded-lg border border-gray-200 p-6">
       <h2 className="text-lg font-semibold text-gray-900 mb-4">Select Scraping Mode</h2>
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4">
         {modes.map((mode) => {
           const Icon = mode.icon;
           const isSelected = selectedMode === mode.id;
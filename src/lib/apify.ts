@@ -1,9 +1,77 @@
+import {
+  COMMENT_ITEM_KIND,
+  COMPANY_ITEM_KIND,
+  PROFILE_ITEM_KIND,
+  PROFILE_POST_ITEM_KIND,
+  REACTION_ITEM_KIND,
+  SEARCH_RESULT_ITEM_KIND,
+  defineScraperProvider,
+  ingestItems,
+  resolveActorAdapters,
+  type ActorRegistry,
+  type CanonicalCompany,
+  type CanonicalProfile,
+  type CanonicalProfilePost,
+  type CanonicalSearchResult,
+  type IngestResult
+} from './scraperProviders';
+import { BudgetExceededError } from './budgets';
+import { createRateLimiter, getBackoffDelay, parseRetryAfter } from './rateLimiter';
+import { sleep } from './utils';
+
+export interface ApifyRun {
+  id: string;
+  actId: string;
+  defaultDatasetId: string;
+  status: string;
+  // Usage so far; final once the run reached a terminal status
+  stats?: { computeUnits?: number };
+  usageTotalUsd?: number;
+}
+
 export interface ApifyRunResponse {
-  data: {
-    id: string;
-    defaultDatasetId: string;
-    status: string;
-  };
+  data: ApifyRun;
+}
+
+// Called as soon as Apify accepts a run, before polling starts, so the caller
+// can persist the run and dataset IDs and re-attach after a page reload
+export type RunStartedCallback = (run: ApifyRun) => void | Promise<void>;
+
+export interface RunProgress {
+  status: string;
+  itemCount: number;
+}
+
+export interface RunOptions {
+  onRunStarted?: RunStartedCallback;
+  // Called after every status poll with the run status and items collected so far
+  onPoll?: (progress: RunProgress) => void | Promise<void>;
+  // Called once the run succeeded, failed, was aborted or timed out, with its final usage
+  onRunFinished?: (run: ApifyRun) => void | Promise<void>;
+  // Aborting stops local polling only; call abortRun to stop the actor itself
+  signal?: AbortSignal;
+}
+
+const TERMINAL_RUN_STATUSES = ['SUCCEEDED', 'FAILED', 'ABORTED', 'TIMED-OUT'];
+
+// Point at the local emulator (`npm run emulator`) to work without a live Apify account
+export const DEFAULT_APIFY_BASE_URL = 'https://api.apify.com';
+
+export const DEFAULT_SEARCH_MAX_RESULTS = 50;
+
+// Options for the post comments actor. Unset fields fall back to the actor's defaults.
+export interface CommentScrapeOptions {
+  maxComments?: number;
+  sortOrder?: 'relevance' | 'date';
+  includeReplies?: boolean;
+  // ISO date; comments posted before it are skipped
+  postedAfter?: string;
+}
+
+// Options for the people search actor
+export interface SearchScrapeOptions {
+  // Upper bound on the profiles taken from the search, which is what the job is billed for
+  maxResults?: number;
 }
 
 export interface LinkedInComment {
@@ -12,6 +80,8 @@ export interface LinkedInComment {
   linkedinUrl: string;
   commentary: string;
   createdAt: string;
+  // Post the comment belongs to, set when the dataset is ingested
+  postUrl?: string;
   actor: {
     id: string;
     name: string;
@@ -21,9 +91,66 @@ export interface LinkedInComment {
   };
 }
 
-// Enhanced fetch function with retry logic for Apify API calls
-async function apifyFetchWithRetry(url: string, options: RequestInit = {}, retries = 3): Promise<Response> {
+export interface LinkedInReaction {
+  id: string;
+  // LIKE, PRAISE, EMPATHY, INTEREST, APPRECIATION or ENTERTAINMENT
+  reactionType: string;
+  // Post the reaction belongs to, set when the dataset is ingested
+  postUrl?: string;
+  actor: LinkedInComment['actor'];
+}
+
+// Plan and spending of the account an API key belongs to, from /v2/users/me and /v2/users/me/limits
+export interface ApifyAccountStatus {
+  username: string;
+  plan: string;
+  monthlyUsageUsd: number;
+  // Spending cap of the current billing cycle; undefined when the account has none
+  monthlyLimitUsd?: number;
+  remainingUsd?: number;
+  cycleEndsAt?: string;
+}
+
+// Result of a key health check, stored on the key so the key list can show it
+export interface ApifyKeyHealth {
+  // False only when Apify rejected the key; a check that could not reach Apify says nothing about it
+  valid: boolean;
+  error?: string;
+  account?: ApifyAccountStatus;
+  checkedAt: string;
+}
+
+// Client-wide limit on Apify calls. Apify allows far more per account, but a user's parallel
+// jobs all poll and page through datasets at once, and 429s cost more time than queueing.
+const APIFY_REQUESTS_PER_SECOND = 10;
+const MAX_ATTEMPTS = 5;
+// A 429 asking to wait longer than this fails at once, so a key pool can move to another key
+const MAX_RETRY_AFTER_MS = 60000;
+
+const apifyRateLimiter = createRateLimiter({ requestsPerSecond: APIFY_REQUESTS_PER_SECOND });
+
+// Rate limits (429) and server errors (5xx) are retried; other 4xx errors are final
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Fetch for Apify API calls: rate limited, with exponential backoff and jitter between attempts,
+// honouring Retry-After. Aborting `signal` ends the wait between attempts; a request already
+// sent is not cut off, so a run Apify accepted is never lost.
+async function apifyFetchWithRetry(
+  url: string,
+  options: RequestInit = {},
+  signal?: AbortSignal,
+  retries = MAX_ATTEMPTS
+): Promise<Response> {
   for (let i = 0; i < retries; i++) {
+    if (signal?.aborted) {
+      throw new Error('Scraping cancelled');
+    }
+
+    const isLastAttempt = i === retries - 1;
+    let delay = getBackoffDelay(i);
+
+    await apifyRateLimiter.acquire();
+
     try {
       console.log(`🔍 Apify API call attempt ${i + 1}/${retries}:`, url);
       const controller = new AbortController();
@@ -33,9 +160,8 @@ async function apifyFetchWithRetry(url: string, options: RequestInit = {}, retri
       const response = await fetch(url, {
         ...options,
         signal: controller.signal,
-      });
+      }).finally(() => clearTimeout(timeoutId));
       
-      clearTimeout(timeoutId);
       const endTime = Date.now();
       console.log(`⏱️ Apify API call took ${endTime - startTime}ms`);
       
@@ -45,176 +171,565 @@ async function apifyFetchWithRetry(url: string, options: RequestInit = {}, retri
       }
       
       console.error(`❌ Apify API error ${response.status}: ${response.statusText}`);
-      
-      if (response.status >= 400 && response.status < 500) {
-        throw new Error(`Apify API error ${response.status}: ${response.statusText}`);
+
+      // The proxy refuses runs that would go over a budget cap, see apify-proxy
+      if (response.status === 402) {
+        const body: { error?: { type?: string; message?: string } } | null = await response.json().catch(() => null);
+        if (body?.error?.type === 'budget-exceeded') {
+          throw new BudgetExceededError(body.error.message || 'Budget cap reached. Ask an admin to raise the cap.');
+        }
       }
-      
-      if (i === retries - 1) {
-        throw new Error(`Apify API error ${response.status}: ${response.statusText}`);
+      const apiError = new Error(`Apify API error ${response.status}: ${response.statusText}`);
+
+      if (!isRetryableStatus(response.status) || isLastAttempt) {
+        throw apiError;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (retryAfter !== undefined) {
+        if (retryAfter > MAX_RETRY_AFTER_MS) throw apiError;
+        delay = retryAfter;
+      }
+      if (response.status === 429) {
+        // Every other call of this client would be refused too
+        apifyRateLimiter.pauseFor(delay);
       }
-      
     } catch (error) {
+      if (!(error instanceof Error) || error.message.startsWith('Apify API error')) {
+        throw error;
+      }
+
       console.error(`❌ Apify API call attempt ${i + 1} failed:`, error);
-      
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          if (i === retries - 1) {
-            throw new Error(`Apify API request timeout. The service may be slow to respond. Please try again.`);
-          }
-        } else if (error.message.includes('Failed to fetch')) {
-          if (i === retries - 1) {
-            throw new Error(`Cannot reach Apify API. Please check your internet connection and try again.`);
-          }
-        } else {
-          throw error;
+
+      if (error.name === 'AbortError') {
+        if (isLastAttempt) {
+          throw new Error(`Apify API request timeout. The service may be slow to respond. Please try again.`);
         }
-      }
-      
-      if (i < retries - 1) {
-        const delay = Math.pow(2, i) * 1000;
-        console.log(`⏳ Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
+      } else if (error.message.includes('Failed to fetch') || error.message.includes('fetch failed')) {
+        if (isLastAttempt) {
+          throw new Error(`Cannot reach Apify API. Please check your internet connection and try again.`);
+        }
+      } else {
+        throw error;
       }
     }
+
+    console.log(`⏳ Retrying in ${delay}ms...`);
+    await sleep(delay, signal);
   }
   
   throw new Error('Max retries exceeded for Apify API call');
 }
 
-export const createApifyService = (apiKey: string) => ({
-  async scrapePostComments(postUrl: string): Promise<string> {
-    try {
-      console.log('🔍 Starting post comments scraping for:', postUrl);
-      
-      const response = await apifyFetchWithRetry(`https://api.apify.com/v2/acts/ZI6ykbLlGS3APaPE8/runs`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          posts: [postUrl]
-        }),
-      });
-
-      const result: ApifyRunResponse = await response.json();
-      console.log('✅ Post comments scraping started, run ID:', result.data.id);
-      
-      await this.waitForRunCompletion(result.data.id);
-      
-      console.log('✅ Post comments scraping completed, dataset ID:', result.data.defaultDatasetId);
-      return result.data.defaultDatasetId;
-    } catch (error) {
-      console.error('❌ Error scraping post comments:', error);
-      if (error instanceof Error) {
-        throw new Error(`Failed to scrape post comments: ${error.message}`);
+// Status polls start every few seconds and slow down as a run gets older, to about a tenth of
+// its age, and with the number of runs this client is polling at once
+const MIN_POLL_INTERVAL_MS = 3000;
+const MAX_POLL_INTERVAL_MS = 30000;
+let activeRunPolls = 0;
+
+function getPollInterval(elapsedMs: number): number {
+  const byAge = Math.max(MIN_POLL_INTERVAL_MS, elapsedMs / 10);
+  const byLoad = byAge * (1 + Math.max(0, activeRunPolls - 1) * 0.25);
+  // ±10% so runs started together don't poll in lockstep
+  const jitter = 0.9 + Math.random() * 0.2;
+  return Math.round(Math.min(MAX_POLL_INTERVAL_MS, byLoad) * jitter);
+}
+
+// Headers that authorize a request: the key itself where it may be known (worker, key check),
+// or the caller's session and key ID for the server-side proxy, which adds the key
+export type ApifyAuthHeaders = () => Record<string, string> | Promise<Record<string, string>>;
+
+export const createApifyService = (
+  credentials: string | ApifyAuthHeaders,
+  actorRegistry: ActorRegistry = {},
+  apiBaseUrl: string = DEFAULT_APIFY_BASE_URL
+) => {
+  const actors = resolveActorAdapters(actorRegistry);
+  const baseUrl = apiBaseUrl.replace(/\/+$/, '');
+  const getAuthHeaders: ApifyAuthHeaders = typeof credentials === 'string'
+    ? () => ({ 'Authorization': `Bearer ${credentials}` })
+    : credentials;
+
+  return defineScraperProvider({
+    actors,
+
+    async scrapePostComments(postUrls: string[], commentOptions: CommentScrapeOptions = {}, options: RunOptions = {}): Promise<string> {
+      try {
+        console.log('🔍 Starting post comments scraping for:', postUrls, commentOptions, 'with', actors.comments.id);
+        if (options.signal?.aborted) {
+          throw new Error('Scraping cancelled');
+        }
+      
+        const response = await apifyFetchWithRetry(`${baseUrl}/v2/acts/${actors.comments.actorId}/runs`, {
+          method: 'POST',
+          headers: {
+            ...await getAuthHeaders(),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(actors.comments.buildInput(postUrls, commentOptions)),
+        }, options.signal);
+
+        const result: ApifyRunResponse = await response.json();
+        console.log('✅ Post comments scraping started, run ID:', result.data.id);
+      
+        if (options.onRunStarted) {
+          await options.onRunStarted(result.data);
+        }
+      
+        await this.waitForRunCompletion(result.data.id, options);
+      
+        console.log('✅ Post comments scraping completed, dataset ID:', result.data.defaultDatasetId);
+        return result.data.defaultDatasetId;
+      } catch (error) {
+        console.error('❌ Error scraping post comments:', error);
+        if (error instanceof Error) {
+          throw new Error(`Failed to scrape post comments: ${error.message}`);
+        }
+        throw new Error('Failed to scrape post comments: Unknown error');
       }
-      throw new Error('Failed to scrape post comments: Unknown error');
-    }
-  },
+    },
 
-  async scrapeProfiles(profileUrls: string[]): Promise<string> {
-    try {
-      console.log('🔍 Starting profile scraping for', profileUrls.length, 'profiles');
-      
-      const response = await apifyFetchWithRetry(`https://api.apify.com/v2/acts/2SyF0bVxmgGr8IVCZ/runs`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          profileUrls: profileUrls
-        }),
-      });
-
-      const result: ApifyRunResponse = await response.json();
-      console.log('✅ Profile scraping started, run ID:', result.data.id);
-      
-      await this.waitForRunCompletion(result.data.id);
-      
-      console.log('✅ Profile scraping completed, dataset ID:', result.data.defaultDatasetId);
-      return result.data.defaultDatasetId;
-    } catch (error) {
-      console.error('❌ Error scraping profiles:', error);
-      if (error instanceof Error) {
-        throw new Error(`Failed to scrape profiles: ${error.message}`);
+    async scrapePostReactions(postUrls: string[], options: RunOptions = {}): Promise<string> {
+      try {
+        console.log('🔍 Starting post reactions scraping for:', postUrls, 'with', actors.reactions.id);
+        if (options.signal?.aborted) {
+          throw new Error('Scraping cancelled');
+        }
+      
+        const response = await apifyFetchWithRetry(`${baseUrl}/v2/acts/${actors.reactions.actorId}/runs`, {
+          method: 'POST',
+          headers: {
+            ...await getAuthHeaders(),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(actors.reactions.buildInput(postUrls)),
+        }, options.signal);
+
+        const result: ApifyRunResponse = await response.json();
+        console.log('✅ Post reactions scraping started, run ID:', result.data.id);
+      
+        if (options.onRunStarted) {
+          await options.onRunStarted(result.data);
+        }
+      
+        await this.waitForRunCompletion(result.data.id, options);
+      
+        console.log('✅ Post reactions scraping completed, dataset ID:', result.data.defaultDatasetId);
+        return result.data.defaultDatasetId;
+      } catch (error) {
+        console.error('❌ Error scraping post reactions:', error);
+        if (error instanceof Error) {
+          throw new Error(`Failed to scrape post reactions: ${error.message}`);
+        }
+        throw new Error('Failed to scrape post reactions: Unknown error');
       }
-      throw new Error('Failed to scrape profiles: Unknown error');
-    }
-  },
+    },
+
+    async scrapeProfiles(profileUrls: string[], options: RunOptions = {}): Promise<string> {
+      try {
+        console.log('🔍 Starting profile scraping for', profileUrls.length, 'profiles with', actors.profiles.id);
+        if (options.signal?.aborted) {
+          throw new Error('Scraping cancelled');
+        }
+      
+        const response = await apifyFetchWithRetry(`${baseUrl}/v2/acts/${actors.profiles.actorId}/runs`, {
+          method: 'POST',
+          headers: {
+            ...await getAuthHeaders(),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(actors.profiles.buildInput(profileUrls)),
+        }, options.signal);
+
+        const result: ApifyRunResponse = await response.json();
+        console.log('✅ Profile scraping started, run ID:', result.data.id);
+      
+        if (options.onRunStarted) {
+          await options.onRunStarted(result.data);
+        }
+      
+        await this.waitForRunCompletion(result.data.id, options);
+      
+        console.log('✅ Profile scraping completed, dataset ID:', result.data.defaultDatasetId);
+        return result.data.defaultDatasetId;
+      } catch (error) {
+        console.error('❌ Error scraping profiles:', error);
+        if (error instanceof Error) {
+          throw new Error(`Failed to scrape profiles: ${error.message}`);
+        }
+        throw new Error('Failed to scrape profiles: Unknown error');
+      }
+    },
+
+    async scrapeProfilePosts(profileUrls: string[], maxPosts: number, options: RunOptions = {}): Promise<string> {
+      try {
+        console.log('🔍 Starting profile posts scraping for', profileUrls.length, 'profiles with', actors.profilePosts.id);
+        if (options.signal?.aborted) {
+          throw new Error('Scraping cancelled');
+        }
+      
+        const response = await apifyFetchWithRetry(`${baseUrl}/v2/acts/${actors.profilePosts.actorId}/runs`, {
+          method: 'POST',
+          headers: {
+            ...await getAuthHeaders(),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(actors.profilePosts.buildInput(profileUrls, maxPosts)),
+        }, options.signal);
 
-  async waitForRunCompletion(runId: string): Promise<void> {
-    const maxWaitTime = 10 * 60 * 1000;
-    const pollInterval = 5000;
-    const startTime = Date.now();
+        const result: ApifyRunResponse = await response.json();
+        console.log('✅ Profile posts scraping started, run ID:', result.data.id);
+      
+        if (options.onRunStarted) {
+          await options.onRunStarted(result.data);
+        }
+      
+        await this.waitForRunCompletion(result.data.id, options);
+      
+        console.log('✅ Profile posts scraping completed, dataset ID:', result.data.defaultDatasetId);
+        return result.data.defaultDatasetId;
+      } catch (error) {
+        console.error('❌ Error scraping profile posts:', error);
+        if (error instanceof Error) {
+          throw new Error(`Failed to scrape profile posts: ${error.message}`);
+        }
+        throw new Error('Failed to scrape profile posts: Unknown error');
+      }
+    },
 
-    console.log('⏳ Waiting for Apify run completion:', runId);
+    async scrapeSearchResults(searchUrl: string, searchOptions: SearchScrapeOptions = {}, options: RunOptions = {}): Promise<string> {
+      try {
+        console.log('🔍 Starting people search scraping for:', searchUrl, searchOptions, 'with', actors.search.id);
+        if (options.signal?.aborted) {
+          throw new Error('Scraping cancelled');
+        }
+      
+        const response = await apifyFetchWithRetry(`${baseUrl}/v2/acts/${actors.search.actorId}/runs`, {
+          method: 'POST',
+          headers: {
+            ...await getAuthHeaders(),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(actors.search.buildInput([searchUrl], {
+            ...searchOptions,
+            maxResults: searchOptions.maxResults || DEFAULT_SEARCH_MAX_RESULTS
+          })),
+        }, options.signal);
 
-    while (Date.now() - startTime < maxWaitTime) {
+        const result: ApifyRunResponse = await response.json();
+        console.log('✅ People search scraping started, run ID:', result.data.id);
+      
+        if (options.onRunStarted) {
+          await options.onRunStarted(result.data);
+        }
+      
+        await this.waitForRunCompletion(result.data.id, options);
+      
+        console.log('✅ People search scraping completed, dataset ID:', result.data.defaultDatasetId);
+        return result.data.defaultDatasetId;
+      } catch (error) {
+        console.error('❌ Error scraping search results:', error);
+        if (error instanceof Error) {
+          throw new Error(`Failed to scrape search results: ${error.message}`);
+        }
+        throw new Error('Failed to scrape search results: Unknown error');
+      }
+    },
+
+    async scrapeCompanies(companyUrls: string[], options: RunOptions = {}): Promise<string> {
       try {
-        const status = await this.checkRunStatus(runId);
-        console.log('📊 Run status:', status);
-        
-        if (status === 'SUCCEEDED') {
-          console.log('✅ Apify run completed successfully');
-          return;
-        } else if (status === 'FAILED' || status === 'ABORTED') {
-          throw new Error(`Apify run ${status.toLowerCase()}`);
-        }
-        
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
+        console.log('🔍 Starting company scraping for', companyUrls.length, 'companies with', actors.companies.id);
+        if (options.signal?.aborted) {
+          throw new Error('Scraping cancelled');
+        }
+      
+        const response = await apifyFetchWithRetry(`${baseUrl}/v2/acts/${actors.companies.actorId}/runs`, {
+          method: 'POST',
+          headers: {
+            ...await getAuthHeaders(),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(actors.companies.buildInput(companyUrls)),
+        }, options.signal);
+
+        const result: ApifyRunResponse = await response.json();
+        console.log('✅ Company scraping started, run ID:', result.data.id);
+      
+        if (options.onRunStarted) {
+          await options.onRunStarted(result.data);
+        }
+      
+        await this.waitForRunCompletion(result.data.id, options);
+      
+        console.log('✅ Company scraping completed, dataset ID:', result.data.defaultDatasetId);
+        return result.data.defaultDatasetId;
       } catch (error) {
-        console.error('❌ Error checking run status:', error);
-        if (Date.now() - startTime >= maxWaitTime - pollInterval) {
-          throw error;
+        console.error('❌ Error scraping companies:', error);
+        if (error instanceof Error) {
+          throw new Error(`Failed to scrape companies: ${error.message}`);
         }
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
+        throw new Error('Failed to scrape companies: Unknown error');
       }
-    }
+    },
+
+    async waitForRunCompletion(runId: string, options: RunOptions = {}): Promise<void> {
+      const { signal, onPoll } = options;
+      const maxWaitTime = 10 * 60 * 1000;
+      const startTime = Date.now();
+
+      console.log('⏳ Waiting for Apify run completion:', runId);
+      activeRunPolls++;
+
+      try {
+        while (Date.now() - startTime < maxWaitTime) {
+          const pollInterval = getPollInterval(Date.now() - startTime);
+
+          if (signal?.aborted) {
+            console.log('🛑 Stopped polling cancelled run:', runId);
+            throw new Error('Scraping cancelled');
+          }
+
+          let run: ApifyRun;
+          try {
+            run = await this.getRun(runId, signal);
+            console.log('📊 Run status:', run.status);
+          } catch (error) {
+            console.error('❌ Error checking run status:', error);
+            if (Date.now() - startTime >= maxWaitTime - pollInterval) {
+              throw error;
+            }
+            await sleep(pollInterval, signal);
+            continue;
+          }
+
+          const status = run.status;
+          if (onPoll) {
+            try {
+              const itemCount = await this.getDatasetItemCount(run.defaultDatasetId, signal);
+              await onPoll({ status, itemCount });
+            } catch (error) {
+              // Progress reporting must never break the run itself
+              console.error('❌ Error reporting run progress:', error);
+            }
+          }
+
+          if (TERMINAL_RUN_STATUSES.includes(status) && options.onRunFinished) {
+            try {
+              await options.onRunFinished(run);
+            } catch (error) {
+              // Cost accounting must never break the run itself
+              console.error('❌ Error recording run usage:', error);
+            }
+          }
+
+          if (status === 'SUCCEEDED') {
+            console.log('✅ Apify run completed successfully');
+            return;
+          } else if (status === 'FAILED' || status === 'ABORTED' || status === 'TIMED-OUT') {
+            throw new Error(`Apify run ${status.toLowerCase()}`);
+          }
+      
+          await sleep(pollInterval, signal);
+        }
     
-    throw new Error('Apify run timed out after 10 minutes');
-  },
+        throw new Error('Apify run timed out after 10 minutes');
+      } finally {
+        activeRunPolls--;
+      }
+    },
 
-  async getDatasetItems(datasetId: string): Promise<any[]> {
-    try {
-      console.log('🔍 Fetching dataset items for:', datasetId);
+    async getDatasetItems(datasetId: string): Promise<unknown[]> {
+      try {
+        console.log('🔍 Fetching dataset items for:', datasetId);
       
-      const response = await apifyFetchWithRetry(`https://api.apify.com/v2/datasets/${datasetId}/items`, {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-        },
-      });
+        const response = await apifyFetchWithRetry(`${baseUrl}/v2/datasets/${datasetId}/items`, {
+          headers: {
+            ...await getAuthHeaders(),
+          },
+        });
 
-      const data = await response.json();
-      console.log('✅ Retrieved', data?.length || 0, 'dataset items');
-      return data;
-    } catch (error) {
-      console.error('❌ Error fetching dataset items:', error);
-      if (error instanceof Error) {
-        throw new Error(`Failed to fetch dataset items: ${error.message}`);
+        const data: unknown = await response.json();
+        const items = Array.isArray(data) ? data : [];
+        console.log('✅ Retrieved', items.length, 'dataset items');
+        return items;
+      } catch (error) {
+        console.error('❌ Error fetching dataset items:', error);
+        if (error instanceof Error) {
+          throw new Error(`Failed to fetch dataset items: ${error.message}`);
+        }
+        throw new Error('Failed to fetch dataset items: Unknown error');
       }
-      throw new Error('Failed to fetch dataset items: Unknown error');
-    }
-  },
+    },
 
-  async checkRunStatus(runId: string): Promise<string> {
-    try {
-      const response = await apifyFetchWithRetry(`https://api.apify.com/v2/actor-runs/${runId}`, {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-        },
-      });
-
-      const result = await response.json();
-      return result.data.status;
-    } catch (error) {
-      console.error('❌ Error checking run status:', error);
-      if (error instanceof Error) {
-        throw new Error(`Failed to check run status: ${error.message}`);
+    async getCommentItems(datasetId: string): Promise<IngestResult<LinkedInComment>> {
+      return this.toCanonicalComments(await this.getDatasetItems(datasetId));
+    },
+
+    async getProfileItems(datasetId: string): Promise<IngestResult<CanonicalProfile>> {
+      return this.toCanonicalProfiles(await this.getDatasetItems(datasetId));
+    },
+
+    async getReactionItems(datasetId: string): Promise<IngestResult<LinkedInReaction>> {
+      return this.toCanonicalReactions(await this.getDatasetItems(datasetId));
+    },
+
+    async getProfilePostItems(datasetId: string): Promise<IngestResult<CanonicalProfilePost>> {
+      return this.toCanonicalProfilePosts(await this.getDatasetItems(datasetId));
+    },
+
+    async getSearchItems(datasetId: string): Promise<IngestResult<CanonicalSearchResult>> {
+      return this.toCanonicalSearchResults(await this.getDatasetItems(datasetId));
+    },
+
+    async getCompanyItems(datasetId: string): Promise<IngestResult<CanonicalCompany>> {
+      return this.toCanonicalCompanies(await this.getDatasetItems(datasetId));
+    },
+
+    // Maps and validates raw items of the workspace's comment actor; use for datasets fetched some other way
+    toCanonicalComments(items: unknown[]): IngestResult<LinkedInComment> {
+      return ingestItems(actors.comments, COMMENT_ITEM_KIND, items);
+    },
+
+    toCanonicalProfiles(items: unknown[]): IngestResult<CanonicalProfile> {
+      return ingestItems(actors.profiles, PROFILE_ITEM_KIND, items);
+    },
+
+    toCanonicalReactions(items: unknown[]): IngestResult<LinkedInReaction> {
+      return ingestItems(actors.reactions, REACTION_ITEM_KIND, items);
+    },
+
+    toCanonicalProfilePosts(items: unknown[]): IngestResult<CanonicalProfilePost> {
+      return ingestItems(actors.profilePosts, PROFILE_POST_ITEM_KIND, items);
+    },
+
+    toCanonicalSearchResults(items: unknown[]): IngestResult<CanonicalSearchResult> {
+      return ingestItems(actors.search, SEARCH_RESULT_ITEM_KIND, items);
+    },
+
+    toCanonicalCompanies(items: unknown[]): IngestResult<CanonicalCompany> {
+      return ingestItems(actors.companies, COMPANY_ITEM_KIND, items);
+    },
+
+    async abortRun(runId: string): Promise<string> {
+      try {
+        console.log('🛑 Aborting Apify run:', runId);
+      
+        const response = await apifyFetchWithRetry(`${baseUrl}/v2/actor-runs/${runId}/abort`, {
+          method: 'POST',
+          headers: {
+            ...await getAuthHeaders(),
+          },
+        });
+
+        const result: ApifyRunResponse = await response.json();
+        console.log('✅ Apify run aborted, status:', result.data.status);
+        return result.data.status;
+      } catch (error) {
+        console.error('❌ Error aborting run:', error);
+        if (error instanceof Error) {
+          throw new Error(`Failed to abort run: ${error.message}`);
+        }
+        throw new Error('Failed to abort run: Unknown error');
+      }
+    },
+
+    async getDatasetItemCount(datasetId: string, signal?: AbortSignal): Promise<number> {
+      try {
+        const response = await apifyFetchWithRetry(`${baseUrl}/v2/datasets/${datasetId}`, {
+          headers: {
+            ...await getAuthHeaders(),
+          },
+        }, signal);
+
+        const result = await response.json();
+        return result.data.itemCount || 0;
+      } catch (error) {
+        console.error('❌ Error fetching dataset info:', error);
+        if (error instanceof Error) {
+          throw new Error(`Failed to fetch dataset info: ${error.message}`);
+        }
+        throw new Error('Failed to fetch dataset info: Unknown error');
+      }
+    },
+
+    async getRun(runId: string, signal?: AbortSignal): Promise<ApifyRun> {
+      try {
+        const response = await apifyFetchWithRetry(`${baseUrl}/v2/actor-runs/${runId}`, {
+          headers: {
+            ...await getAuthHeaders(),
+          },
+        }, signal);
+
+        const result: ApifyRunResponse = await response.json();
+        return result.data;
+      } catch (error) {
+        console.error('❌ Error checking run status:', error);
+        if (error instanceof Error) {
+          throw new Error(`Failed to check run status: ${error.message}`);
+        }
+        throw new Error('Failed to check run status: Unknown error');
+      }
+    },
+
+    async checkRunStatus(runId: string): Promise<string> {
+      const run = await this.getRun(runId);
+      return run.status;
+    },
+
+    async getAccountStatus(): Promise<ApifyAccountStatus> {
+      try {
+        console.log('🔍 Checking Apify account status');
+        const headers = await getAuthHeaders();
+
+        const [userResponse, limitsResponse] = await Promise.all([
+          apifyFetchWithRetry(`${baseUrl}/v2/users/me`, { headers }),
+          apifyFetchWithRetry(`${baseUrl}/v2/users/me/limits`, { headers })
+        ]);
+        const { data: user } = await userResponse.json();
+        const { data: limits } = await limitsResponse.json();
+
+        const monthlyUsageUsd = limits?.current?.monthlyUsageUsd ?? 0;
+        const monthlyLimitUsd = limits?.limits?.maxMonthlyUsageUsd ?? user?.plan?.monthlyUsageCreditsUsd;
+
+        const status: ApifyAccountStatus = {
+          username: user?.username || '',
+          plan: user?.plan?.id || 'UNKNOWN',
+          monthlyUsageUsd,
+          monthlyLimitUsd,
+          remainingUsd: monthlyLimitUsd !== undefined ? Math.max(0, monthlyLimitUsd - monthlyUsageUsd) : undefined,
+          cycleEndsAt: limits?.monthlyUsageCycle?.endAt
+        };
+
+        console.log('✅ Apify account status:', status);
+        return status;
+      } catch (error) {
+        console.error('❌ Error checking Apify account status:', error);
+        if (error instanceof Error) {
+          throw new Error(`Failed to check Apify account: ${error.message}`);
+        }
+        throw new Error('Failed to check Apify account: Unknown error');
       }
-      throw new Error('Failed to check run status: Unknown error');
     }
+  });
+};
+
+// Verifies a key against the account endpoints. Never throws: failures are part of the result.
+export async function checkApifyKey(
+  credentials: string | ApifyAuthHeaders,
+  apiBaseUrl: string = DEFAULT_APIFY_BASE_URL
+): Promise<ApifyKeyHealth> {
+  const checkedAt = new Date().toISOString();
+  try {
+    const account = await createApifyService(credentials, {}, apiBaseUrl).getAccountStatus();
+    return { valid: true, account, checkedAt };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const rejected = /Apify API error (401|403)/.test(message);
+    return {
+      valid: !rejected,
+      error: rejected ? 'Apify rejected this API key' : message,
+      checkedAt
+    };
   }
-});
\ No newline at end of file
+}
+export type ApifyService = ReturnType<typeof createApifyService>;
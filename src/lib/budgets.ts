@@ -0,0 +1,124 @@
+import type { DatabaseService } from './database';
+import type { ApifyRunRecord, BudgetCaps } from './supabase';
+
+// Spending caps on users and keys. A job is checked when it is created, when a worker claims
+// it and before each Apify run it starts, so a job that turns out bigger than estimated (a
+// viral post in a mixed job) still stops at the cap. Days and months are UTC.
+// Usage comes from the apify_runs ledger, which only the server writes, and the apify-proxy
+// function checks each run the browser starts again (find_run_budget_violation), so the
+// checks here are for early, friendly errors rather than the enforcement itself.
+
+// What a job, or a single run of it, is expected to use
+export interface BudgetDemand {
+  profiles: number;
+  runs: number;
+  spendUsd: number;
+}
+
+export interface BudgetUsage {
+  profilesToday: number;
+  runsThisMonth: number;
+  spendUsdThisMonth: number;
+}
+
+// Columns of a ledger entry that count towards the caps
+export type BudgetUsageRun = Pick<ApifyRunRecord, 'apify_key_id' | 'created_at' | 'profiles' | 'usage_usd'>;
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export function hasBudgetCaps(caps?: BudgetCaps | null): boolean {
+  return caps?.budget_profiles_per_day != null
+    || caps?.budget_runs_per_month != null
+    || caps?.budget_spend_usd_per_month != null;
+}
+
+export function getBudgetPeriodStarts(now = new Date()): { day: Date; month: Date } {
+  return {
+    day: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+    month: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  };
+}
+
+// Usage of this month's runs, of one key when `apifyKeyId` is given. Runs count as soon as they
+// started, with their spend so far; profiles count as many as each run was asked for.
+export function sumBudgetUsage(runs: BudgetUsageRun[], apifyKeyId?: string, now = new Date()): BudgetUsage {
+  const { day, month } = getBudgetPeriodStarts(now);
+  const usage: BudgetUsage = { profilesToday: 0, runsThisMonth: 0, spendUsdThisMonth: 0 };
+
+  for (const run of runs) {
+    const createdAt = new Date(run.created_at);
+    if (createdAt < month || (apifyKeyId && run.apify_key_id !== apifyKeyId)) continue;
+
+    usage.runsThisMonth++;
+    // numeric columns may come back as strings
+    usage.spendUsdThisMonth += Number(run.usage_usd) || 0;
+    if (createdAt >= day) {
+      usage.profilesToday += run.profiles || 0;
+    }
+  }
+
+  return usage;
+}
+
+// The first cap the demand would go over, as a message for the user; undefined when it fits
+export function findBudgetViolation(
+  caps: BudgetCaps,
+  usage: BudgetUsage,
+  demand: BudgetDemand,
+  owner: string
+): string | undefined {
+  const profileCap = caps.budget_profiles_per_day;
+  if (profileCap != null && demand.profiles > 0 && usage.profilesToday + demand.profiles > profileCap) {
+    const left = Math.max(0, profileCap - usage.profilesToday);
+    return `This needs up to ${demand.profiles} profiles, but ${owner} has ${left} of ${profileCap} profiles per day left.`;
+  }
+
+  const runCap = caps.budget_runs_per_month;
+  if (runCap != null && demand.runs > 0 && usage.runsThisMonth + demand.runs > runCap) {
+    const left = Math.max(0, runCap - usage.runsThisMonth);
+    return `This needs up to ${demand.runs} Apify runs, but ${owner} has ${left} of ${runCap} runs this month left.`;
+  }
+
+  if (caps.budget_spend_usd_per_month != null) {
+    // numeric columns may come back as strings
+    const spendCap = Number(caps.budget_spend_usd_per_month);
+    const spent = usage.spendUsdThisMonth;
+
+    if (demand.spendUsd > 0 && spent + demand.spendUsd > spendCap) {
+      const left = Math.max(0, spendCap - spent);
+      return `This may cost up to $${demand.spendUsd.toFixed(2)}, but ${owner} has $${left.toFixed(2)} of $${spendCap.toFixed(2)} this month left.`;
+    }
+    // Before a single run its cost is unknown, so it only needs some budget left
+    if (demand.spendUsd === 0 && demand.runs > 0 && spent >= spendCap) {
+      return `${owner[0].toUpperCase()}${owner.slice(1)} has spent $${spent.toFixed(2)} of $${spendCap.toFixed(2)} this month.`;
+    }
+  }
+
+  return undefined;
+}
+
+// Throws a BudgetExceededError when the demand doesn't fit the caps of the user or of the key
+export async function assertWithinBudget(
+  db: DatabaseService,
+  userId: string,
+  apifyKeyId: string | undefined,
+  demand: BudgetDemand
+): Promise<void> {
+  const { user, key } = await db.getBudgetCaps(userId, apifyKeyId);
+  if (!hasBudgetCaps(user) && !hasBudgetCaps(key)) return;
+
+  const runs = await db.getBudgetUsageRuns(userId, getBudgetPeriodStarts().month);
+
+  const violation = (user && findBudgetViolation(user, sumBudgetUsage(runs), demand, 'your account'))
+    || (key && findBudgetViolation(key, sumBudgetUsage(runs, apifyKeyId), demand, `the key "${key.key_name}"`));
+
+  if (violation) {
+    console.warn('⚠️ Budget cap reached:', { userId, apifyKeyId, demand, violation });
+    throw new BudgetExceededError(`${violation} Ask an admin to raise the cap.`);
+  }
+}
@@ -1,10 +1,72 @@
-import { supabase } from './supabase';
-import type { LinkedInProfile, ScrapingJob } from './supabase';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  ApifyKey,
+  BudgetCaps,
+  JobResultKind,
+  JobSchedule,
+  LinkedInCompany,
+  LinkedInPost,
+  LinkedInProfile,
+  PostComment,
+  ProfilePost,
+  QuarantinedItem,
+  ScrapingJob,
+  User
+} from './supabase';
+import type { ApifyKeyHealth, ApifyRun, CommentScrapeOptions, LinkedInComment, SearchScrapeOptions } from './apify';
+import type { BudgetUsageRun } from './budgets';
+import { isJobErrorCode, type JobErrorCode } from './jobErrors';
+import type { JobLease } from './jobLeases';
+import type { KeyPoolMode } from './keyPool';
+import type { JobScheduleTemplate } from './schedules';
+import type { ActorRegistry, ItemKind, RejectedItem } from './scraperProviders';
+import { chunkArray } from './utils';
 
+// Columns of apify_keys clients may read; the key itself is only decrypted by the service role
+export const APIFY_KEY_COLUMNS = 'id, user_id, key_name, api_key_hint, is_active, health_status, last_used_at, budget_profiles_per_day, budget_runs_per_month, budget_spend_usd_per_month, created_at, updated_at';
+
+const BUDGET_CAP_COLUMNS = 'budget_profiles_per_day, budget_runs_per_month, budget_spend_usd_per_month';
+
+// Spend of one job on one key
+export interface KeySpend {
+  apify_key_id?: string;
+  // Unset when the key was deleted
+  key_name?: string;
+  cost_usd: number;
+  compute_units: number;
+}
+
+// Cost columns of one job, for spend summaries over more jobs than the Jobs table lists
+export interface JobSpend {
+  apify_key_id?: string;
+  key_name?: string;
+  created_at: string;
+  cost_usd: number;
+  compute_units: number;
+  saved_api_calls: number;
+  // Per key that served the job's runs; a job moved to another key of its pool has several
+  key_spend: KeySpend[];
+}
+
+// The profiles and comments a job produced, in the order they were linked to it
+export interface JobResultSet {
+  profiles: LinkedInProfile[];
+  comments: PostComment[];
+}
+
+// Keeps `.in()` filters well below URL length limits
+const RESULT_ID_BATCH_SIZE = 100;
+
+const JOB_RESULTS_PAGE_SIZE = 1000;
+
+// Takes the client to use so the same data layer works with the Clerk-authenticated
+// browser client and with the service-role client of the background worker
 export class DatabaseService {
+  constructor(private readonly supabase: SupabaseClient) {}
+
   // Profile operations
   async getProfile(linkedinUrl: string): Promise<LinkedInProfile | null> {
-    const { data, error } = await supabase
+    const { data, error } = await this.supabase
       .from('linkedin_profiles')
       .select('*')
       .eq('linkedin_url', linkedinUrl)
@@ -17,12 +79,14 @@ export class DatabaseService {
     return data;
   }
 
-  async upsertProfile(linkedinUrl: string, profileData: any): Promise<LinkedInProfile> {
-    const { data, error } = await supabase
+  async upsertProfile(userId: string, linkedinUrl: string, profileData: any, tags: string[] = []): Promise<LinkedInProfile> {
+    const { data, error } = await this.supabase
       .from('linkedin_profiles')
       .upsert({
+        user_id: userId,
         linkedin_url: linkedinUrl,
         profile_data: profileData,
+        tags,
         last_updated: new Date().toISOString(),
       }, {
         onConflict: 'linkedin_url'
@@ -35,7 +99,7 @@ export class DatabaseService {
   }
 
   async getProfiles(limit?: number): Promise<LinkedInProfile[]> {
-    let query = supabase
+    let query = this.supabase
       .from('linkedin_profiles')
       .select('*')
       .order('last_updated', { ascending: false });
@@ -50,7 +114,7 @@ export class DatabaseService {
   }
 
   async updateProfile(id: string, profileData: any): Promise<LinkedInProfile> {
-    const { data, error } = await supabase
+    const { data, error } = await this.supabase
       .from('linkedin_profiles')
       .update({
         profile_data: profileData,
@@ -64,14 +128,314 @@ export class DatabaseService {
     return data;
   }
 
+  // Through a function, so posts can be saved on profiles another user saved first, which RLS
+  // would not let this user update. Throws when no profile has the URL.
+  async updateProfilePosts(linkedinUrl: string, posts: ProfilePost[]): Promise<void> {
+    const { data, error } = await this.supabase.rpc('update_profile_posts', {
+      profile_url: linkedinUrl,
+      posts,
+    });
+
+    if (error) throw error;
+    if (!data) throw new Error(`No saved profile to store posts on: ${linkedinUrl}`);
+  }
+
+  // Company operations
+  async getCompany(linkedinUrl: string): Promise<LinkedInCompany | null> {
+    const { data, error } = await this.supabase
+      .from('companies')
+      .select('*')
+      .eq('linkedin_url', linkedinUrl)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Which of the URLs already have a stored company
+  async getSavedCompanyUrls(linkedinUrls: string[]): Promise<string[]> {
+    if (linkedinUrls.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('companies')
+      .select('linkedin_url')
+      .in('linkedin_url', linkedinUrls);
+
+    if (error) throw error;
+    return (data || []).map(company => company.linkedin_url);
+  }
+
+  async upsertCompany(
+    userId: string,
+    company: Pick<LinkedInCompany, 'linkedin_url' | 'name' | 'company_size' | 'industry' | 'website' | 'headquarters' | 'follower_count' | 'company_data'>
+  ): Promise<LinkedInCompany> {
+    const { data, error } = await this.supabase
+      .from('companies')
+      .upsert({
+        user_id: userId,
+        ...company,
+        last_updated: new Date().toISOString(),
+      }, {
+        onConflict: 'linkedin_url'
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Number of stored profiles per company, matched on the profile's companyLinkedin URL
+  async getCompanyProfileCounts(companyKeys: string[]): Promise<Record<string, number>> {
+    if (companyKeys.length === 0) return {};
+
+    const { data, error } = await this.supabase
+      .from('linkedin_profiles')
+      .select('company_key')
+      .in('company_key', companyKeys);
+
+    if (error) throw error;
+
+    const counts: Record<string, number> = {};
+    for (const row of data || []) {
+      counts[row.company_key] = (counts[row.company_key] || 0) + 1;
+    }
+    return counts;
+  }
+
+  // API key operations
+  // Decrypts a key of `ownerId`; only the service role (proxy function, background worker) may
+  // call this. Null when the key is gone or belongs to another user
+  async getApifyKeyValue(keyId: string, ownerId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .rpc('get_apify_key_secret', { key_id: keyId, owner_id: ownerId });
+
+    if (error) throw error;
+    return data || null;
+  }
+
+  async updateApifyKeyHealth(keyId: string, health: ApifyKeyHealth): Promise<void> {
+    const { error } = await this.supabase
+      .from('apify_keys')
+      .update({ health_status: health })
+      .eq('id', keyId);
+
+    if (error) throw error;
+  }
+
+  async getActiveApifyKeys(userId: string): Promise<ApifyKey[]> {
+    const { data, error } = await this.supabase
+      .from('apify_keys')
+      .select(APIFY_KEY_COLUMNS)
+      .eq('user_id', userId)
+      .eq('is_active', true);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async markApifyKeyUsed(keyId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('apify_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', keyId);
+
+    if (error) throw error;
+  }
+
+  async getKeyPoolMode(userId: string): Promise<KeyPoolMode> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('key_pool_mode')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.key_pool_mode || 'off';
+  }
+
+  async updateKeyPoolMode(userId: string, mode: KeyPoolMode): Promise<User> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .update({ key_pool_mode: mode })
+      .eq('id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Budget operations
+  async getBudgetCaps(
+    userId: string,
+    apifyKeyId?: string
+  ): Promise<{ user: BudgetCaps | null; key: (BudgetCaps & { key_name: string }) | null }> {
+    const { data: user, error: userError } = await this.supabase
+      .from('users')
+      .select(BUDGET_CAP_COLUMNS)
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (userError) throw userError;
+    if (!apifyKeyId) return { user, key: null };
+
+    const { data: key, error: keyError } = await this.supabase
+      .from('apify_keys')
+      .select(`key_name, ${BUDGET_CAP_COLUMNS}`)
+      .eq('id', apifyKeyId)
+      .maybeSingle();
+
+    if (keyError) throw keyError;
+    return { user, key };
+  }
+
+  async getBudgetUsageRuns(userId: string, since: Date): Promise<BudgetUsageRun[]> {
+    const { data, error } = await this.supabase
+      .from('apify_runs')
+      .select('apify_key_id, created_at, profiles, usage_usd')
+      .eq('user_id', userId)
+      .gte('created_at', since.toISOString());
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Budget ledger writes; only the service role may make them. The apify-proxy function records
+  // the runs browsers start, the worker calls these for its own runs.
+  async recordApifyRun(userId: string, apifyKeyId: string, run: ApifyRun, profiles: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('apify_runs')
+      .upsert({
+        id: run.id,
+        user_id: userId,
+        apify_key_id: apifyKeyId,
+        profiles,
+        status: run.status,
+        compute_units: run.stats?.computeUnits || 0,
+        usage_usd: run.usageTotalUsd || 0
+      }, { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) throw error;
+  }
+
+  async updateApifyRunUsage(run: ApifyRun): Promise<void> {
+    const { error } = await this.supabase
+      .from('apify_runs')
+      .update({
+        status: run.status,
+        compute_units: run.stats?.computeUnits || 0,
+        usage_usd: run.usageTotalUsd || 0
+      })
+      .eq('id', run.id);
+
+    if (error) throw error;
+  }
+
+  // Raising or removing a cap is refused by the database unless the caller is an admin
+  async updateUserBudget(userId: string, caps: BudgetCaps): Promise<User> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .update(caps)
+      .eq('id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateApifyKeyBudget(keyId: string, caps: BudgetCaps): Promise<ApifyKey> {
+    const { data, error } = await this.supabase
+      .from('apify_keys')
+      .update(caps)
+      .eq('id', keyId)
+      .select(APIFY_KEY_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getApifyKeys(userId: string): Promise<ApifyKey[]> {
+    const { data, error } = await this.supabase
+      .from('apify_keys')
+      .select(APIFY_KEY_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Every user for admins; RLS limits everyone else to their own row
+  async getUsers(): Promise<User[]> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('*')
+      .order('email');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getActorRegistry(userId: string): Promise<ActorRegistry> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('actor_registry')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.actor_registry || {};
+  }
+
+  async updateActorRegistry(userId: string, registry: ActorRegistry): Promise<User> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .update({ actor_registry: registry })
+      .eq('id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
   // Job operations
-  async createJob(jobType: ScrapingJob['job_type'], inputUrl: string): Promise<ScrapingJob> {
-    const { data, error } = await supabase
+  async createJob(
+    userId: string,
+    jobType: ScrapingJob['job_type'],
+    inputUrls: string[],
+    apifyKeyId?: string | null,
+    status: ScrapingJob['status'] = 'pending',
+    commentOptions: CommentScrapeOptions = {},
+    searchOptions: SearchScrapeOptions = {},
+    parentJobId?: string,
+    scheduleId?: string,
+    tags: string[] = [],
+    // Lock of the tab that runs the job itself, see jobLeases.ts
+    lockedBy?: string
+  ): Promise<ScrapingJob> {
+    const { data, error } = await this.supabase
       .from('scraping_jobs')
       .insert({
+        user_id: userId,
+        apify_key_id: apifyKeyId || null,
         job_type: jobType,
-        input_url: inputUrl,
-        status: 'pending'
+        input_url: inputUrls.join(','),
+        inputs: { urls: inputUrls },
+        parent_job_id: parentJobId || null,
+        schedule_id: scheduleId || null,
+        tags,
+        status,
+        comment_options: commentOptions,
+        search_options: searchOptions,
+        locked_by: lockedBy || null,
+        locked_at: lockedBy ? new Date().toISOString() : null
       })
       .select()
       .single();
@@ -80,20 +444,39 @@ export class DatabaseService {
     return data;
   }
 
+  async getJob(id: string): Promise<ScrapingJob | null> {
+    const { data, error } = await this.supabase
+      .from('scraping_jobs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw error;
+    }
+
+    return data;
+  }
+
   async updateJobStatus(
-    id: string, 
-    status: ScrapingJob['status'], 
+    id: string,
+    status: ScrapingJob['status'],
     resultsCount?: number,
-    errorMessage?: string
+    errorMessage?: string,
+    errorCode?: JobErrorCode
   ): Promise<ScrapingJob> {
     const updateData: any = {
       status,
       ...(resultsCount !== undefined && { results_count: resultsCount }),
       ...(errorMessage && { error_message: errorMessage }),
-      ...(status === 'completed' && { completed_at: new Date().toISOString() })
+      // A finished job's code describes this outcome, not an earlier attempt's
+      ...((status === 'completed' || status === 'failed') && { error_code: errorCode ?? null }),
+      ...(status === 'completed' && { completed_at: new Date().toISOString(), progress_stage: 'completed', progress_percent: 100 }),
+      ...(status === 'failed' && { progress_stage: 'error' }),
+      ...(status === 'cancelled' && { completed_at: new Date().toISOString() })
     };
 
-    const { data, error } = await supabase
+    const { data, error } = await this.supabase
       .from('scraping_jobs')
       .update(updateData)
       .eq('id', id)
@@ -104,8 +487,106 @@ export class DatabaseService {
     return data;
   }
 
+  async updateJobProgress(id: string, progress: Partial<ScrapingJob>): Promise<void> {
+    const { error } = await this.supabase
+      .from('scraping_jobs')
+      .update(progress)
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async recordJobRun(id: string, run: ApifyRun): Promise<void> {
+    await this.updateJobProgress(id, {
+      apify_run_id: run.id,
+      apify_actor_id: run.actId,
+      apify_dataset_id: run.defaultDatasetId,
+      apify_run_status: run.status,
+      items_collected: 0
+    });
+  }
+
+  // Copies the run's usage from the budget ledger onto the job. Idempotent per run, so a resumed
+  // job re-attaching to a finished run doesn't count it twice
+  async recordJobRunUsage(id: string, run: ApifyRun): Promise<void> {
+    const { error } = await this.supabase
+      .rpc('record_job_run_usage', { job_id: id, run_id: run.id });
+
+    if (error) throw error;
+  }
+
+  async getJobSpend(userId: string, since: Date): Promise<JobSpend[]> {
+    const [{ data, error }, { data: keys, error: keysError }] = await Promise.all([
+      this.supabase
+        .from('scraping_jobs')
+        .select('apify_key_id, created_at, cost_usd, compute_units, saved_api_calls, run_usage')
+        .eq('user_id', userId)
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: false }),
+      this.supabase
+        .from('apify_keys')
+        .select('id, key_name')
+        .eq('user_id', userId)
+    ]);
+
+    if (error) throw error;
+    if (keysError) throw keysError;
+
+    const keyNames = new Map((keys || []).map((key: Pick<ApifyKey, 'id' | 'key_name'>) => [key.id, key.key_name]));
+    const toKeySpend = (apifyKeyId?: string | null): KeySpend => ({
+      apify_key_id: apifyKeyId || undefined,
+      key_name: apifyKeyId ? keyNames.get(apifyKeyId) : undefined,
+      cost_usd: 0,
+      compute_units: 0
+    });
+
+    type JobSpendRow = Pick<ScrapingJob, 'apify_key_id' | 'created_at' | 'cost_usd' | 'compute_units' | 'saved_api_calls' | 'run_usage'>;
+    return (data || []).map((row: JobSpendRow) => {
+      // Runs recorded before keys were stored per run count on the job's key
+      const keySpend = new Map<string | undefined, KeySpend>();
+      for (const run of Object.values(row.run_usage || {})) {
+        const apifyKeyId = run.apifyKeyId || row.apify_key_id || undefined;
+        const entry = keySpend.get(apifyKeyId) || toKeySpend(apifyKeyId);
+        entry.cost_usd += Number(run.usageUsd) || 0;
+        entry.compute_units += Number(run.computeUnits) || 0;
+        keySpend.set(apifyKeyId, entry);
+      }
+
+      return {
+        apify_key_id: row.apify_key_id || undefined,
+        key_name: row.apify_key_id ? keyNames.get(row.apify_key_id) : undefined,
+        created_at: row.created_at,
+        // numeric columns may come back as strings
+        cost_usd: Number(row.cost_usd) || 0,
+        compute_units: Number(row.compute_units) || 0,
+        saved_api_calls: row.saved_api_calls || 0,
+        key_spend: keySpend.size > 0 ? [...keySpend.values()] : [toKeySpend(row.apify_key_id)]
+      };
+    });
+  }
+
+  // Jobs per error code since the given date, for the Jobs tab
+  async getJobErrorCounts(userId: string, since: Date): Promise<Partial<Record<JobErrorCode, number>>> {
+    const { data, error } = await this.supabase
+      .from('scraping_jobs')
+      .select('error_code')
+      .eq('user_id', userId)
+      .gte('created_at', since.toISOString())
+      .not('error_code', 'is', null);
+
+    if (error) throw error;
+
+    const counts: Partial<Record<JobErrorCode, number>> = {};
+    for (const { error_code } of data || []) {
+      if (isJobErrorCode(error_code)) {
+        counts[error_code] = (counts[error_code] || 0) + 1;
+      }
+    }
+    return counts;
+  }
+
   async getJobs(limit?: number): Promise<ScrapingJob[]> {
-    let query = supabase
+    let query = this.supabase
       .from('scraping_jobs')
       .select('*')
       .order('created_at', { ascending: false });
@@ -118,6 +599,323 @@ export class DatabaseService {
     if (error) throw error;
     return data || [];
   }
-}
 
-export const dbService = new DatabaseService();
\ No newline at end of file
+  // Post operations
+  // Through a function that keeps the owner of a post another user saved first, which RLS
+  // would not let this user update
+  async upsertPost(userId: string, postUrn: string, postUrl: string, commentsCount: number, jobId?: string): Promise<LinkedInPost> {
+    const { data, error } = await this.supabase.rpc('upsert_scraped_post', {
+      owner_id: userId,
+      post_urn: postUrn,
+      post_url: postUrl,
+      comments_count: commentsCount,
+      job_id: jobId || null,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async upsertPostComments(userId: string, postUrn: string | null, comments: LinkedInComment[]): Promise<void> {
+    if (comments.length === 0) return;
+
+    const { error } = await this.supabase.rpc('upsert_post_comments', {
+      owner_id: userId,
+      post_urn: postUrn,
+      comments: comments.map(comment => ({
+        id: comment.id,
+        commenter_url: comment.actor?.linkedinUrl || null,
+        comment_data: comment,
+        commented_at: comment.createdAt || null,
+      })),
+    });
+
+    if (error) throw error;
+  }
+
+  async getPosts(limit?: number): Promise<LinkedInPost[]> {
+    let query = this.supabase
+      .from('posts')
+      .select('*')
+      .order('last_scraped_at', { ascending: false });
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Posts whose comments the job saved last
+  async getJobPostUrns(jobId: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('posts')
+      .select('post_urn')
+      .eq('last_job_id', jobId);
+
+    if (error) throw error;
+    return (data || []).map(post => post.post_urn);
+  }
+
+  async getPostComments(postUrn: string): Promise<PostComment[]> {
+    const { data, error } = await this.supabase
+      .from('post_comments')
+      .select('*')
+      .eq('post_urn', postUrn)
+      .order('commented_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Schedule operations
+  async getSchedules(userId: string): Promise<JobSchedule[]> {
+    const { data, error } = await this.supabase
+      .from('job_schedules')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createSchedule(userId: string, template: JobScheduleTemplate, nextRunAt: Date): Promise<JobSchedule> {
+    const { data, error } = await this.supabase
+      .from('job_schedules')
+      .insert({
+        ...template,
+        user_id: userId,
+        next_run_at: nextRunAt.toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateSchedule(
+    id: string,
+    changes: Partial<JobScheduleTemplate & Pick<JobSchedule, 'is_paused' | 'next_run_at' | 'last_run_at' | 'last_job_id'>>
+  ): Promise<JobSchedule> {
+    const { data, error } = await this.supabase
+      .from('job_schedules')
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteSchedule(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('job_schedules')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Active schedules of every user whose next run has passed; needs the service role
+  async getDueSchedules(now: Date): Promise<JobSchedule[]> {
+    const { data, error } = await this.supabase
+      .from('job_schedules')
+      .select('*')
+      .eq('is_paused', false)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Moves next_run_at on only if it is still the run this caller saw, so of several workers
+  // seeing the same due run exactly one claims it
+  async claimScheduleRun(id: string, dueRunAt: string, nextRunAt: Date): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('job_schedules')
+      .update({ next_run_at: nextRunAt.toISOString() })
+      .eq('id', id)
+      .eq('next_run_at', dueRunAt)
+      .eq('is_paused', false)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  // Job result operations
+  async linkJobResults(jobId: string, resultKind: JobResultKind, resultIds: string[], fromCache = false): Promise<void> {
+    if (resultIds.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('job_results')
+      .upsert([...new Set(resultIds)].map(resultId => ({
+        job_id: jobId,
+        result_kind: resultKind,
+        result_id: resultId,
+        from_cache: fromCache
+      })), {
+        onConflict: 'job_id,result_kind,result_id'
+      });
+
+    if (error) throw error;
+  }
+
+  async getJobResults(jobId: string): Promise<JobResultSet> {
+    // PostgREST caps each response, and large comment jobs have more links than that
+    const links: { result_kind: JobResultKind; result_id: string }[] = [];
+    for (let from = 0; ; from += JOB_RESULTS_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('job_results')
+        .select('result_kind, result_id')
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: true })
+        .order('result_id', { ascending: true })
+        .range(from, from + JOB_RESULTS_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      links.push(...(data || []));
+      if (!data || data.length < JOB_RESULTS_PAGE_SIZE) break;
+    }
+
+    const idsOf = (kind: JobResultKind) => links
+      .filter(link => link.result_kind === kind)
+      .map(link => link.result_id);
+
+    const profiles = await this.getRowsById<LinkedInProfile>('linkedin_profiles', idsOf('profile'));
+    const comments = await this.getRowsById<PostComment>('post_comments', idsOf('comment'));
+    return { profiles, comments };
+  }
+
+  // Rows come back in the order of `ids`; ids whose row was deleted are skipped
+  private async getRowsById<T extends { id: string }>(table: string, ids: string[]): Promise<T[]> {
+    const rowsById = new Map<string, T>();
+
+    for (const batch of chunkArray(ids, RESULT_ID_BATCH_SIZE)) {
+      const { data, error } = await this.supabase
+        .from(table)
+        .select('*')
+        .in('id', batch);
+
+      if (error) throw error;
+      for (const row of (data || []) as T[]) rowsById.set(row.id, row);
+    }
+
+    return ids.flatMap(id => rowsById.get(id) ?? []);
+  }
+
+  // Quarantine operations
+  async quarantineItems(
+    userId: string,
+    jobId: string | null,
+    itemKind: ItemKind,
+    adapterId: string,
+    rejected: RejectedItem[]
+  ): Promise<void> {
+    if (rejected.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('quarantined_items')
+      .insert(rejected.map(({ item, errors }) => ({
+        user_id: userId,
+        job_id: jobId,
+        item_kind: itemKind,
+        adapter_id: adapterId,
+        item,
+        errors
+      })));
+
+    if (error) throw error;
+  }
+
+  // Items of the job still waiting to be re-ingested
+  async getQuarantinedItems(jobId: string): Promise<QuarantinedItem[]> {
+    const { data, error } = await this.supabase
+      .from('quarantined_items')
+      .select('*')
+      .eq('job_id', jobId)
+      .is('reingested_at', null)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async markQuarantinedItemsReingested(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('quarantined_items')
+      .update({ reingested_at: new Date().toISOString() })
+      .in('id', ids);
+
+    if (error) throw error;
+  }
+
+  async updateQuarantinedItemErrors(id: string, errors: string[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('quarantined_items')
+      .update({ errors })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Worker operations
+  // Atomically moves the oldest pending job to `running` for this worker.
+  // Uses FOR UPDATE SKIP LOCKED in the database so two workers never get the same job.
+  async claimNextJob(workerId: string): Promise<ScrapingJob | null> {
+    const { data, error } = await this.supabase
+      .rpc('claim_scraping_job', { worker_id: workerId });
+
+    if (error) throw error;
+    return data?.[0] || null;
+  }
+
+  // Takes a running job over only if its lock is still the one the caller saw, so of several
+  // tabs resuming the same job exactly one gets it. Returns the claimed job, or null.
+  async claimJobLease(id: string, leaseId: string, previous: JobLease): Promise<ScrapingJob | null> {
+    let query = this.supabase
+      .from('scraping_jobs')
+      .update({ locked_by: leaseId, locked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'running');
+    query = previous.locked_by ? query.eq('locked_by', previous.locked_by) : query.is('locked_by', null);
+    query = previous.locked_at ? query.eq('locked_at', previous.locked_at) : query.is('locked_at', null);
+
+    const { data, error } = await query.select();
+
+    if (error) throw error;
+    return data?.[0] || null;
+  }
+
+  // False when the lock is no longer the caller's
+  async renewJobLease(id: string, leaseId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('scraping_jobs')
+      .update({ locked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('locked_by', leaseId)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  async getWorkerJobs(workerId: string): Promise<ScrapingJob[]> {
+    const { data, error } = await this.supabase
+      .from('scraping_jobs')
+      .select('*')
+      .eq('locked_by', workerId)
+      .eq('status', 'running');
+
+    if (error) throw error;
+    return data || [];
+  }
+}
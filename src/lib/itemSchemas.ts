@@ -0,0 +1,135 @@
+// Runtime schemas for the canonical items of every kind of scrape. Actor output is checked
+// against them on ingest, after the adapter mapped it, so schema drift surfaces as quarantined
+// items instead of missing rows.
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+export interface FieldSchema {
+  type: FieldType;
+  required?: boolean;
+  // For strings
+  pattern?: RegExp;
+  // For objects
+  fields?: ItemSchema;
+}
+
+export type ItemSchema = Record<string, FieldSchema>;
+
+const LINKEDIN_URL_PATTERN = /^https?:\/\/([a-z]{2,3}\.)?linkedin\.com\//i;
+const LINKEDIN_PROFILE_URL_PATTERN = /^https?:\/\/([a-z]{2,3}\.)?linkedin\.com\/in\//i;
+
+export const COMMENT_ITEM_SCHEMA: ItemSchema = {
+  id: { type: 'string', required: true },
+  linkedinUrl: { type: 'string', pattern: LINKEDIN_URL_PATTERN },
+  commentary: { type: 'string' },
+  createdAt: { type: 'string' },
+  actor: {
+    type: 'object',
+    required: true,
+    fields: {
+      name: { type: 'string' },
+      linkedinUrl: { type: 'string', required: true, pattern: LINKEDIN_URL_PATTERN },
+      position: { type: 'string' },
+      pictureUrl: { type: 'string' }
+    }
+  }
+};
+
+export const PROFILE_ITEM_SCHEMA: ItemSchema = {
+  linkedinUrl: { type: 'string', required: true, pattern: LINKEDIN_PROFILE_URL_PATTERN },
+  fullName: { type: 'string' },
+  firstName: { type: 'string' },
+  lastName: { type: 'string' },
+  headline: { type: 'string' },
+  connections: { type: 'number' },
+  followers: { type: 'number' },
+  email: { type: 'string' },
+  experiences: { type: 'array' },
+  educations: { type: 'array' },
+  skills: { type: 'array' }
+};
+
+export const REACTION_ITEM_SCHEMA: ItemSchema = {
+  id: { type: 'string' },
+  reactionType: { type: 'string' },
+  actor: {
+    type: 'object',
+    required: true,
+    fields: {
+      name: { type: 'string' },
+      linkedinUrl: { type: 'string', required: true, pattern: LINKEDIN_URL_PATTERN },
+      position: { type: 'string' },
+      pictureUrl: { type: 'string' }
+    }
+  }
+};
+
+export const PROFILE_POST_ITEM_SCHEMA: ItemSchema = {
+  url: { type: 'string', required: true, pattern: LINKEDIN_URL_PATTERN },
+  text: { type: 'string' },
+  postedAt: { type: 'string' },
+  likes: { type: 'number', required: true },
+  comments: { type: 'number', required: true },
+  shares: { type: 'number', required: true },
+  authorUrl: { type: 'string', pattern: LINKEDIN_URL_PATTERN }
+};
+
+export const SEARCH_RESULT_ITEM_SCHEMA: ItemSchema = {
+  linkedinUrl: { type: 'string', required: true, pattern: LINKEDIN_PROFILE_URL_PATTERN }
+};
+
+export const COMPANY_ITEM_SCHEMA: ItemSchema = {
+  linkedin_url: { type: 'string', required: true, pattern: LINKEDIN_URL_PATTERN },
+  name: { type: 'string' },
+  company_size: { type: 'string' },
+  industry: { type: 'string' },
+  website: { type: 'string' },
+  headquarters: { type: 'string' },
+  follower_count: { type: 'number' },
+  company_data: { type: 'object', required: true }
+};
+
+function getType(value: unknown): FieldType | 'null' | 'undefined' | 'other' {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'object' ? type : 'other';
+}
+
+// Returns one message per problem, e.g. `actor.linkedinUrl: expected string, got undefined`.
+// Fields not in the schema are not checked; null counts as missing.
+export function validateItem(item: unknown, schema: ItemSchema, path = ''): string[] {
+  if (getType(item) !== 'object') {
+    return [`${path || 'item'}: expected object, got ${getType(item)}`];
+  }
+
+  const errors: string[] = [];
+  const record = item as Record<string, unknown>;
+
+  for (const [key, field] of Object.entries(schema)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const value = record[key];
+    const type = getType(value);
+
+    if (type === 'null' || type === 'undefined') {
+      if (field.required) errors.push(`${fieldPath}: expected ${field.type}, got ${type}`);
+      continue;
+    }
+
+    if (type !== field.type) {
+      errors.push(`${fieldPath}: expected ${field.type}, got ${type}`);
+      continue;
+    }
+
+    if (field.pattern && !field.pattern.test(value as string)) {
+      errors.push(`${fieldPath}: "${String(value).slice(0, 80)}" does not match ${field.pattern}`);
+    }
+
+    if (field.fields) {
+      errors.push(...validateItem(value, field.fields, fieldPath));
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,153 @@
+import { BudgetExceededError } from './budgets';
+
+// Why a job failed, or finished short of what was asked, stored in scraping_jobs.error_code
+// next to the full message. Keep in sync with the CHECK constraint on that column.
+export type JobErrorCode =
+  | 'invalid_key'
+  | 'out_of_credit'
+  | 'rate_limited'
+  | 'budget_exceeded'
+  | 'actor_failed'
+  | 'actor_timed_out'
+  | 'dataset_empty'
+  | 'urls_failed'
+  | 'db_write_failed'
+  | 'network_offline'
+  | 'interrupted'
+  | 'unknown';
+
+// What the UI offers to fix an error
+export type JobErrorAction = 'switch_key' | 'manage_budget' | 'retry_failed_urls';
+
+export const JOB_ERROR_ACTION_LABELS: Record<JobErrorAction, string> = {
+  switch_key: 'Switch key',
+  manage_budget: 'View budgets',
+  retry_failed_urls: 'Retry failed URLs'
+};
+
+export interface JobErrorInfo {
+  label: string;
+  remedy: string;
+  action?: JobErrorAction;
+}
+
+export interface JobFailure {
+  code: JobErrorCode;
+  message: string;
+}
+
+export const JOB_ERRORS: Record<JobErrorCode, JobErrorInfo> = {
+  invalid_key: {
+    label: 'Invalid API key',
+    remedy: 'Apify rejected the key, or it was deleted. Check it in Apify API Keys or pick another key.',
+    action: 'switch_key'
+  },
+  out_of_credit: {
+    label: 'Out of credit',
+    remedy: 'The Apify account of this key has no credit left this month. Switch to another key or top up the account.',
+    action: 'switch_key'
+  },
+  rate_limited: {
+    label: 'Rate limited',
+    remedy: 'Apify kept refusing requests after several retries. Run fewer jobs at once or add keys to a key pool.',
+    action: 'switch_key'
+  },
+  budget_exceeded: {
+    label: 'Budget cap reached',
+    remedy: 'The job would go over a budget cap of your account or key. Ask an admin to raise the cap.',
+    action: 'manage_budget'
+  },
+  actor_failed: {
+    label: 'Actor failed',
+    remedy: 'The Apify actor failed or was aborted. Check the run log in Apify, or choose another actor under Scraping Actors.'
+  },
+  actor_timed_out: {
+    label: 'Actor timed out',
+    remedy: 'The run took too long. Split the input into smaller jobs.'
+  },
+  dataset_empty: {
+    label: 'No results',
+    remedy: 'The actor returned nothing. Check that the URLs are public LinkedIn posts or profiles.'
+  },
+  urls_failed: {
+    label: 'Some URLs failed',
+    remedy: 'Some profiles could not be scraped after retries. Retry just those URLs.',
+    action: 'retry_failed_urls'
+  },
+  db_write_failed: {
+    label: 'Saving failed',
+    remedy: 'Results could not be saved to the database. Check your session and try again.'
+  },
+  network_offline: {
+    label: 'Network offline',
+    remedy: 'Apify could not be reached. Check your internet connection and try again.'
+  },
+  interrupted: {
+    label: 'Interrupted',
+    remedy: 'The tab was closed before the Apify run started. Start the job again.'
+  },
+  unknown: {
+    label: 'Unexpected error',
+    remedy: 'Try again; if it keeps failing, check the browser console or worker log.'
+  }
+};
+
+// Errors are mostly plain Errors whose message was prefixed on the way up
+// ("Failed to scrape profiles: Apify API error 402: ..."), so they are matched on the message.
+// The first match wins: a pool whose keys were all refused for credit is out of credit.
+const MESSAGE_PATTERNS: [JobErrorCode, RegExp][] = [
+  ['budget_exceeded', /Ask an admin to raise the cap/],
+  ['out_of_credit', /Apify API error 402/],
+  ['invalid_key', /Apify API error (401|403)|API key used for this job is no longer available/],
+  ['rate_limited', /Apify API error 429/],
+  ['actor_timed_out', /Apify run timed[- ]out/],
+  ['actor_failed', /Apify run (failed|aborted)/],
+  ['network_offline', /Cannot reach Apify API|Apify API request timeout|Failed to fetch|fetch failed|NetworkError/],
+  ['interrupted', /interrupted before its Apify run started/],
+  ['db_write_failed', /row-level security|violates .* constraint|duplicate key|permission denied/]
+];
+
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  // Supabase returns plain error objects
+  if (error && typeof error === 'object' && typeof (error as { message?: unknown }).message === 'string') {
+    return (error as { message: string }).message;
+  }
+  return 'Unknown error occurred';
+}
+
+export function classifyJobError(error: unknown): JobErrorCode {
+  if (error instanceof BudgetExceededError) return 'budget_exceeded';
+
+  const message = getErrorMessage(error);
+  const match = MESSAGE_PATTERNS.find(([, pattern]) => pattern.test(message));
+  if (match) return match[0];
+
+  // Plain error objects with a Postgres or PostgREST code come from the database
+  if (!(error instanceof Error) && error && typeof error === 'object' && 'code' in error) {
+    return 'db_write_failed';
+  }
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return 'network_offline';
+  }
+  return 'unknown';
+}
+
+export function describeJobError(error: unknown): JobFailure {
+  return { code: classifyJobError(error), message: getErrorMessage(error) };
+}
+
+// A job that completed can still fall short: some URLs failed, or the actor found nothing
+export function describeJobResult(result: { resultsCount: number; failedUrls: string[] }): JobFailure | undefined {
+  if (result.failedUrls.length > 0) {
+    return { code: 'urls_failed', message: `${result.failedUrls.length} profiles could not be scraped after retries` };
+  }
+  if (result.resultsCount === 0) {
+    return { code: 'dataset_empty', message: 'The actor returned no results' };
+  }
+  return undefined;
+}
+
+export function isJobErrorCode(value: unknown): value is JobErrorCode {
+  return typeof value === 'string' && value in JOB_ERRORS;
+}
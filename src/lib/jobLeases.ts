@@ -0,0 +1,61 @@
+import type { DatabaseService } from './database';
+import type { ScrapingJob } from './supabase';
+
+// Browser tabs lock the jobs they run, like workers do, so a reload or a second tab doesn't
+// re-attach to a job another tab is still running and pay for its runs twice. A tab's lock is
+// `locked_by` set to its lease ID and renewed every heartbeat; a lock that stopped being renewed
+// belongs to a closed tab and may be taken over. Workers never renew theirs, so only tab locks
+// expire.
+
+export const TAB_LEASE_PREFIX = 'tab:';
+export const JOB_LEASE_HEARTBEAT_MS = 30 * 1000;
+// A few missed heartbeats, so a tab throttled in the background keeps its jobs
+export const JOB_LEASE_TTL_MS = 2 * 60 * 1000;
+
+export type JobLease = Pick<ScrapingJob, 'locked_by' | 'locked_at'>;
+
+// Abort reason of a tab's scrape when another tab took its job over. Unlike a cancel, the job
+// goes on in that tab, so the one that lost it must leave the job's status alone.
+export class JobLeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was taken over by another tab`);
+    this.name = 'JobLeaseLostError';
+  }
+}
+
+export function isJobLeaseLost(signal: AbortSignal): boolean {
+  return signal.aborted && signal.reason instanceof JobLeaseLostError;
+}
+
+export function createTabLeaseId(): string {
+  return `${TAB_LEASE_PREFIX}${crypto.randomUUID()}`;
+}
+
+// Running jobs nobody holds: never locked, or locked by a tab that stopped renewing its lock
+export function isJobResumableByTab(job: ScrapingJob, now = new Date()): boolean {
+  if (job.status !== 'running') return false;
+  if (!job.locked_by) return true;
+  if (!job.locked_by.startsWith(TAB_LEASE_PREFIX)) return false;
+
+  const lockedAt = job.locked_at ? new Date(job.locked_at).getTime() : 0;
+  return now.getTime() - lockedAt > JOB_LEASE_TTL_MS;
+}
+
+// Renews the lease until the returned function is called. `onLost` runs when another tab took
+// the job over, which only happens after this tab missed its heartbeats for the whole TTL.
+export function holdJobLease(db: DatabaseService, jobId: string, leaseId: string, onLost: () => void): () => void {
+  const heartbeat = setInterval(async () => {
+    try {
+      if (!await db.renewJobLease(jobId, leaseId)) {
+        console.warn('⚠️ Lost the lock on job to another tab:', jobId);
+        clearInterval(heartbeat);
+        onLost();
+      }
+    } catch (error) {
+      // Not fatal: the next heartbeat tries again before the lock expires
+      console.error('❌ Error renewing job lock:', error);
+    }
+  }, JOB_LEASE_HEARTBEAT_MS);
+
+  return () => clearInterval(heartbeat);
+}
@@ -0,0 +1,1365 @@
+import {
+  DEFAULT_SEARCH_MAX_RESULTS,
+  type ApifyRun,
+  type ApifyService,
+  type LinkedInComment,
+  type LinkedInReaction,
+  type RunOptions
+} from './apify';
+import { assertWithinBudget, BudgetExceededError, type BudgetDemand } from './budgets';
+import type { DatabaseService } from './database';
+import { isKeyFailoverError, type ApifyKeyPool } from './keyPool';
+import {
+  COMMENT_ITEM_KIND,
+  COMPANY_ITEM_KIND,
+  PROFILE_ITEM_KIND,
+  PROFILE_POST_ITEM_KIND,
+  REACTION_ITEM_KIND,
+  SEARCH_RESULT_ITEM_KIND,
+  isProfileActorId,
+  reingestItem,
+  type CanonicalCompany,
+  type CanonicalProfile,
+  type CanonicalProfilePost,
+  type CanonicalSearchResult,
+  type IngestResult,
+  type ItemKind
+} from './scraperProviders';
+import type { JobResultKind, LinkedInCompany, ProfileChunk, ProfilePost, ScrapingJob, ScrapingStage } from './supabase';
+import {
+  chunkArray,
+  getLinkedInActivityId,
+  getLinkedInPostUrn,
+  getLinkedInUrlKey,
+  mapWithConcurrency,
+  sleep
+} from './utils';
+
+// Shared scraping pipeline used by the in-tab scraper and the background worker
+
+export type ProgressReporter = (stage: ScrapingStage, progress?: number, message?: string) => void;
+
+export interface ChunkOptions {
+  chunkSize: number;
+  concurrency: number;
+  maxAttempts: number;
+}
+
+export interface JobContext {
+  db: DatabaseService;
+  // Service of the key new runs start on; replaced when the job moves to another key of its pool
+  apifyService: ApifyService;
+  apifyKeyId?: string;
+  keyPool?: ApifyKeyPool;
+  userId: string;
+  // Set when the scrape belongs to a job row, so chunk state can be saved on it
+  jobId?: string;
+  runOptions?: RunOptions;
+  reportProgress?: ProgressReporter;
+  chunkOptions?: Partial<ChunkOptions>;
+  // Running totals of validated items, saved on the job row; created on first ingest when unset
+  ingestStats?: IngestStats;
+  // Tags of the job's schedule, given to the profiles it saves
+  profileTags?: string[];
+  // Set by the worker, which calls Apify directly: it records its runs in the budget ledger
+  // itself. Runs started through the apify-proxy function are recorded by the proxy.
+  recordsRuns?: boolean;
+}
+
+export interface IngestStats {
+  accepted: number;
+  rejected: number;
+  // Last write of the totals; writes are chained so an older total never lands last
+  saved: Promise<void>;
+}
+
+export interface JobResult {
+  comments: LinkedInComment[];
+  profiles: CanonicalProfile[];
+  companies?: LinkedInCompany[];
+  reactions?: LinkedInReaction[];
+  resultsCount: number;
+  // Profile URLs whose chunk still failed after all retries
+  failedUrls: string[];
+}
+
+export interface ProfileScrapeResult {
+  profiles: CanonicalProfile[];
+  failedUrls: string[];
+  savedCost: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  chunkSize: 25,
+  concurrency: 2,
+  maxAttempts: 3
+};
+
+const CHUNK_RETRY_DELAY_MS = 5000;
+
+// How many of each person's latest posts a profile_posts job collects
+const RECENT_POSTS_LIMIT = 20;
+
+// Resumed and aborted jobs add to the totals they already saved
+export function createIngestStats(job?: ScrapingJob): IngestStats {
+  return { accepted: job?.items_accepted || 0, rejected: job?.items_rejected || 0, saved: Promise.resolve() };
+}
+
+// Rough pay-per-result prices of the default actors in USD, only used to warn before a job
+// that would likely use up the key's remaining credit
+export const ESTIMATED_ITEM_COST_USD = {
+  comment: 0.002,
+  reaction: 0.002,
+  profile: 0.01,
+  post: 0.002,
+  searchResult: 0.004,
+  company: 0.004
+};
+
+// What the profiles served from the database would have cost to scrape again
+export function estimateSavedUsd(savedApiCalls: number): number {
+  return savedApiCalls * ESTIMATED_ITEM_COST_USD.profile;
+}
+
+// Assumed for posts when the job sets no comment limit
+const ESTIMATED_ITEMS_PER_POST = 100;
+
+// Upper bound of what a job costs if nothing is found in the database cache
+export function estimateJobCostUsd(job: JobInputFields & Pick<ScrapingJob, 'comment_options' | 'search_options'>): number {
+  const urlCount = getJobInputUrls(job).length;
+  const commentsPerPost = job.comment_options?.maxComments || ESTIMATED_ITEMS_PER_POST;
+  const prices = ESTIMATED_ITEM_COST_USD;
+
+  switch (job.job_type) {
+    case 'post_comments':
+      return urlCount * commentsPerPost * prices.comment;
+    case 'post_reactions':
+      return urlCount * ESTIMATED_ITEMS_PER_POST * prices.reaction;
+    case 'profile_details':
+      return urlCount * prices.profile;
+    case 'profile_posts':
+      return urlCount * (prices.profile + RECENT_POSTS_LIMIT * prices.post);
+    case 'search_results': {
+      const maxResults = job.search_options?.maxResults || DEFAULT_SEARCH_MAX_RESULTS;
+      return maxResults * (prices.searchResult + prices.profile);
+    }
+    case 'company_details':
+      return urlCount * prices.company;
+    case 'mixed':
+      // Every commenter counted as a new profile
+      return urlCount * commentsPerPost * (prices.comment + prices.profile);
+  }
+}
+
+// Upper bound of the profiles, Apify runs and spend of a job, checked against the budget caps
+export function estimateJobDemand(
+  job: JobInputFields & Pick<ScrapingJob, 'comment_options' | 'search_options'>,
+  chunkOptions?: Partial<ChunkOptions>
+): BudgetDemand {
+  const { chunkSize } = { ...DEFAULT_CHUNK_OPTIONS, ...chunkOptions };
+  const urlCount = getJobInputUrls(job).length;
+
+  let profiles = 0;
+  switch (job.job_type) {
+    case 'profile_details':
+    case 'profile_posts':
+      profiles = urlCount;
+      break;
+    case 'search_results':
+      profiles = job.search_options?.maxResults || DEFAULT_SEARCH_MAX_RESULTS;
+      break;
+    case 'mixed':
+      profiles = urlCount * (job.comment_options?.maxComments || ESTIMATED_ITEMS_PER_POST);
+      break;
+  }
+
+  // Every type but profile_details has one run of its own; profiles are scraped in chunks
+  const runs = (job.job_type === 'profile_details' ? 0 : 1) + Math.ceil(profiles / chunkSize);
+
+  return { profiles, runs, spendUsd: estimateJobCostUsd(job) };
+}
+
+// Reads chunk settings from environment strings, ignoring anything that isn't a positive integer
+export function parseChunkOptions(values: Record<keyof ChunkOptions, string | undefined>): Partial<ChunkOptions> {
+  const options: Partial<ChunkOptions> = {};
+  for (const key of Object.keys(values) as (keyof ChunkOptions)[]) {
+    const value = Number(values[key]);
+    if (Number.isInteger(value) && value > 0) {
+      options[key] = value;
+    }
+  }
+  return options;
+}
+
+const noProgress: ProgressReporter = () => {};
+
+// Jobs created before `inputs` existed store their URLs comma separated in input_url
+export function parseJobInputUrls(inputUrl: string): string[] {
+  return inputUrl
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+}
+
+// Columns a job's input URLs are read from
+export type JobInputFields = Pick<ScrapingJob, 'job_type'> & Partial<Pick<ScrapingJob, 'input_url' | 'inputs'>>;
+
+// The post, profile or company URLs of a job, or its one search URL (commas included)
+export function getJobInputUrls(job: JobInputFields): string[] {
+  if (job.inputs?.urls) return job.inputs.urls;
+  if (job.job_type === 'search_results') return job.input_url ? [job.input_url.trim()] : [];
+  return parseJobInputUrls(job.input_url || '');
+}
+
+// Tags each comment or reaction with the post it was left on. One run covers all posts of the job,
+// so items are matched to posts through the activity ID in their URL.
+export function attachPostUrls<T extends { linkedinUrl?: string; postUrl?: string }>(comments: T[], postUrls: string[]): T[] {
+  if (postUrls.length === 1) {
+    return comments.map(comment => ({ ...comment, postUrl: postUrls[0] }));
+  }
+
+  const postUrlsByActivityId = new Map<string, string>();
+  for (const url of postUrls) {
+    const activityId = getLinkedInActivityId(url);
+    if (activityId) postUrlsByActivityId.set(activityId, url);
+  }
+
+  return comments.map(comment => {
+    const activityId = comment.linkedinUrl ? getLinkedInActivityId(comment.linkedinUrl) : null;
+    return { ...comment, postUrl: (activityId && postUrlsByActivityId.get(activityId)) || comment.postUrl };
+  });
+}
+
+// Reactions have no ID of their own in some actor versions; a person reacts once per post
+function processReactions(items: LinkedInReaction[], job: ScrapingJob): LinkedInReaction[] {
+  return attachPostUrls(items, getJobInputUrls(job)).map(reaction => ({
+    ...reaction,
+    id: reaction.id || `${reaction.postUrl}:${reaction.actor?.id || reaction.actor?.linkedinUrl}`
+  }));
+}
+
+// Comment datasets are filtered by the job's date cutoff and tagged with their post
+function processComments(items: LinkedInComment[], job: ScrapingJob): LinkedInComment[] {
+  return attachPostUrls(
+    filterCommentsByDate(items, job.comment_options?.postedAfter),
+    getJobInputUrls(job)
+  );
+}
+
+// Stores the posts of a comment job and their comments, so results can be reopened without Apify.
+// Comments that could not be matched to a post, or whose post could not be saved, are still
+// kept, without a post.
+export async function savePostComments(comments: LinkedInComment[], postUrls: string[], ctx: JobContext): Promise<void> {
+  for (const postUrl of postUrls) {
+    const postComments = comments.filter(comment => comment.postUrl === postUrl);
+
+    let postUrn: string | null = getLinkedInPostUrn(postUrl);
+    try {
+      await ctx.db.upsertPost(ctx.userId, postUrn, postUrl, postComments.length, ctx.jobId);
+    } catch (error) {
+      console.error('❌ Error saving post:', postUrl, error);
+      postUrn = null;
+    }
+
+    try {
+      await ctx.db.upsertPostComments(ctx.userId, postUrn, postComments);
+      await linkJobResults(ctx, 'comment', postComments.map(comment => comment.id));
+    } catch (error) {
+      console.error('❌ Error saving post comments:', postUrl, error);
+    }
+  }
+
+  const unmatched = comments.filter(comment => !comment.postUrl || !postUrls.includes(comment.postUrl));
+  if (unmatched.length > 0) {
+    console.warn('⚠️ Saving', unmatched.length, 'comments that could not be matched to a post');
+    try {
+      await ctx.db.upsertPostComments(ctx.userId, null, unmatched);
+      await linkJobResults(ctx, 'comment', unmatched.map(comment => comment.id));
+    } catch (error) {
+      console.error('❌ Error saving unmatched comments:', error);
+    }
+  }
+}
+
+// Links saved profiles or comments to the job so its results can be reopened from the Jobs tab.
+// Not fatal: the job keeps its results, they just can't be reopened later.
+async function linkJobResults(
+  ctx: Pick<JobContext, 'db' | 'jobId'>,
+  kind: JobResultKind,
+  resultIds: string[],
+  fromCache = false
+): Promise<void> {
+  if (!ctx.jobId || resultIds.length === 0) return;
+
+  try {
+    await ctx.db.linkJobResults(ctx.jobId, kind, resultIds, fromCache);
+  } catch (error) {
+    console.error('❌ Error linking results to job:', error);
+  }
+}
+
+// Reactions and companies are not linked to their job, so only these jobs can be reopened
+export function canReopenJobResults(job: Pick<ScrapingJob, 'job_type'>): boolean {
+  return job.job_type !== 'post_reactions' && job.job_type !== 'company_details';
+}
+
+// Reactions are not stored and search results only name the profiles to scrape, so re-ingesting
+// them would save nothing; they stay quarantined for reference
+const REINGESTABLE_ITEM_KINDS: ItemKind[] = [COMMENT_ITEM_KIND, PROFILE_ITEM_KIND, PROFILE_POST_ITEM_KIND, COMPANY_ITEM_KIND];
+
+// A reaction job only quarantines reactions, so it has nothing to re-ingest
+export function canReingestJobItems(job: Pick<ScrapingJob, 'job_type'>): boolean {
+  return job.job_type !== 'post_reactions';
+}
+
+// Drops comments older than the job's date cutoff, in case the actor returned them anyway
+export function filterCommentsByDate(comments: LinkedInComment[], postedAfter?: string): LinkedInComment[] {
+  if (!postedAfter) return comments;
+
+  const cutoff = new Date(postedAfter).getTime();
+  return comments.filter(comment => !comment.createdAt || new Date(comment.createdAt).getTime() >= cutoff);
+}
+
+export function extractCommenterProfileUrls(comments: LinkedInComment[]): string[] {
+  const urls = comments
+    .map(comment => comment.actor?.linkedinUrl)
+    .filter(Boolean);
+
+  // People often comment more than once on the same post
+  return [...new Set(urls)];
+}
+
+export function isCancellationError(error: unknown): boolean {
+  return error instanceof Error && error.message === 'Scraping cancelled';
+}
+
+// Saves progress on the job row so other tabs, teammates and workers can watch it
+export function createJobProgressReporter(db: DatabaseService, jobId: string): ProgressReporter {
+  return (stage, progress = 0, message = '') => {
+    db.updateJobProgress(jobId, {
+      progress_stage: stage,
+      progress_percent: Math.round(progress),
+      progress_message: message
+    }).catch(error => console.error('❌ Error saving job progress:', error));
+  };
+}
+
+// Links the job to each Apify run it starts (so it can be resumed), records run status while polling
+// and each run's final usage once it ends. `recordsRuns` as on JobContext.
+export function createJobRunOptions(db: DatabaseService, jobId: string, signal?: AbortSignal, recordsRuns = false): RunOptions {
+  return {
+    signal,
+    onRunStarted: async run => {
+      console.log('🔗 Linking job to Apify run:', { jobId, runId: run.id });
+      try {
+        await db.recordJobRun(jobId, run);
+      } catch (error) {
+        // Not fatal: the scrape continues, it just can't be resumed after a restart
+        console.error('❌ Error linking job to Apify run:', error);
+      }
+    },
+    onPoll: async ({ status, itemCount }) => {
+      await db.updateJobProgress(jobId, {
+        apify_run_status: status,
+        items_collected: itemCount
+      });
+    },
+    onRunFinished: async run => {
+      console.log('💰 Apify run usage:', { jobId, runId: run.id, computeUnits: run.stats?.computeUnits, usageUsd: run.usageTotalUsd });
+      if (recordsRuns) {
+        await db.updateApifyRunUsage(run);
+      }
+      await db.recordJobRunUsage(jobId, run);
+    }
+  };
+}
+
+// Records what an aborted run used; it is no longer polled, so onRunFinished never sees it
+async function recordAbortedRunUsage(runId: string, apifyService: ApifyService, ctx: JobContext): Promise<void> {
+  if (!ctx.jobId) return;
+
+  try {
+    const run = await apifyService.getRun(runId);
+    if (ctx.recordsRuns) {
+      await ctx.db.updateApifyRunUsage(run);
+    }
+    await ctx.db.recordJobRunUsage(ctx.jobId, run);
+  } catch (error) {
+    console.error('❌ Error recording usage of aborted run:', error);
+  }
+}
+
+// Quarantines the items that failed validation and adds both counts to the job's totals.
+// Returns the accepted items.
+async function acceptItems<T>(result: IngestResult<T>, kind: ItemKind, ctx: JobContext): Promise<T[]> {
+  if (result.rejected.length > 0) {
+    try {
+      await ctx.db.quarantineItems(ctx.userId, ctx.jobId || null, kind, result.adapterId, result.rejected);
+    } catch (error) {
+      // The job goes on with the valid items; the rejected ones are only missing from the quarantine
+      console.error('❌ Error quarantining items:', error);
+    }
+  }
+
+  const stats = (ctx.ingestStats ??= createIngestStats());
+  stats.accepted += result.accepted.length;
+  stats.rejected += result.rejected.length;
+
+  const { jobId } = ctx;
+  if (jobId) {
+    const totals = { items_accepted: stats.accepted, items_rejected: stats.rejected };
+    stats.saved = stats.saved
+      .then(() => ctx.db.updateJobProgress(jobId, totals))
+      .catch(error => console.error('❌ Error saving ingest totals:', error));
+    await stats.saved;
+  }
+
+  return result.accepted;
+}
+
+export async function saveScrapedProfiles(
+  newProfilesData: CanonicalProfile[],
+  ctx: Pick<JobContext, 'db' | 'userId' | 'jobId' | 'profileTags'>
+): Promise<CanonicalProfile[]> {
+  const results: CanonicalProfile[] = [];
+  const savedIds: string[] = [];
+
+  // Save new profiles to database with better error handling
+  for (const profileData of newProfilesData) {
+    if (profileData.linkedinUrl) {
+      try {
+        const saved = await ctx.db.upsertProfile(ctx.userId, profileData.linkedinUrl, profileData, ctx.profileTags);
+        savedIds.push(saved.id);
+        results.push(profileData);
+      } catch (saveError) {
+        // Continue with other profiles even if one fails; only saved ones are returned
+        console.error('❌ Error saving profile:', profileData.linkedinUrl, saveError);
+      }
+    }
+  }
+
+  await linkJobResults(ctx, 'profile', savedIds);
+  return results;
+}
+
+export async function getProfilesWithOptimization(profileUrls: string[], ctx: JobContext): Promise<ProfileScrapeResult> {
+  const reportProgress = ctx.reportProgress || noProgress;
+  const results: CanonicalProfile[] = [];
+  const urlsToScrape: string[] = [];
+  let savedCost = 0;
+  let failedUrls: string[] = [];
+  const cachedIds: string[] = [];
+
+  reportProgress('scraping_profiles', 30, 'Checking database for existing profiles...');
+
+  // Check each URL in database first
+  for (const url of profileUrls) {
+    let existingProfile = null;
+    try {
+      existingProfile = await ctx.db.getProfile(url);
+    } catch (error) {
+      console.error('❌ Error checking profile:', url, error);
+    }
+
+    if (existingProfile) {
+      results.push(existingProfile.profile_data);
+      cachedIds.push(existingProfile.id);
+      savedCost++;
+    } else {
+      urlsToScrape.push(url);
+    }
+  }
+
+  await linkJobResults(ctx, 'profile', cachedIds, true);
+
+  if (urlsToScrape.length > 0) {
+    const { chunkSize } = { ...DEFAULT_CHUNK_OPTIONS, ...ctx.chunkOptions };
+    const chunks: ProfileChunk[] = chunkArray(urlsToScrape, chunkSize).map((urls, index) => ({
+      index,
+      urls,
+      status: 'pending',
+      attempts: 0
+    }));
+
+    reportProgress('scraping_profiles', 50, `Scraping ${urlsToScrape.length} new profiles in ${chunks.length} chunks (saved ${savedCost} API calls)...`);
+
+    const scraped = await scrapeProfileChunks(chunks, ctx);
+    results.push(...scraped.profiles);
+    failedUrls = scraped.failedUrls;
+  }
+
+  if (ctx.jobId && savedCost > 0) {
+    try {
+      await ctx.db.updateJobProgress(ctx.jobId, { saved_api_calls: savedCost });
+    } catch (error) {
+      console.error('❌ Error saving cache savings:', error);
+    }
+  }
+
+  reportProgress('scraping_profiles', 90, `Completed! Saved ${savedCost} API calls by using cached profiles.`);
+
+  return { profiles: results, failedUrls, savedCost };
+}
+
+// Profile URLs of the chunks that failed after all their attempts
+export function getFailedChunkUrls(chunks: ProfileChunk[] = []): string[] {
+  return chunks
+    .filter(chunk => chunk.status === 'failed')
+    .flatMap(chunk => chunk.urls);
+}
+
+// 'all' runs the job again without the profiles it already scraped; 'failed_only' runs just
+// the profiles that failed after all their attempts
+export type JobRetryMode = 'all' | 'failed_only';
+
+export interface JobRetryPlan {
+  jobType: ScrapingJob['job_type'];
+  urls: string[];
+  // Set when the job's results aren't tracked per URL, so the retry runs every URL of it again
+  rerunsWholeJob: boolean;
+}
+
+// What a retry of the job runs, or null when there is nothing left to retry. Inputs that already
+// have results are skipped: profiles of finished chunks, posts whose comments the job saved and
+// companies already stored. Reactions aren't stored and posts are collected after all profiles,
+// so reaction and profile posts jobs (and search jobs that never reached their profiles) run
+// whole again; the profiles they already saved are then taken from the database instead of Apify.
+export async function planJobRetry(
+  job: ScrapingJob,
+  mode: JobRetryMode,
+  ctx: Pick<JobContext, 'db'>
+): Promise<JobRetryPlan | null> {
+  const chunks = job.profile_chunks || [];
+
+  if (mode === 'failed_only') {
+    const urls = getFailedChunkUrls(chunks);
+    // Failed profiles of a mixed or search job are scraped as a profile job of their own
+    const jobType = job.job_type === 'profile_posts' ? 'profile_posts' : 'profile_details';
+    return urls.length > 0 ? { jobType, urls, rerunsWholeJob: false } : null;
+  }
+
+  const inputUrls = getJobInputUrls(job);
+
+  if (job.job_type === 'profile_details') {
+    const succeeded = new Set(chunks.filter(chunk => chunk.status === 'succeeded').flatMap(chunk => chunk.urls));
+    return planRetryOf('profile_details', inputUrls.filter(url => !succeeded.has(url)));
+  }
+
+  if (job.job_type === 'post_comments' || job.job_type === 'mixed') {
+    const savedPostUrns = new Set(await ctx.db.getJobPostUrns(job.id));
+    const urls = inputUrls.filter(url => !savedPostUrns.has(getLinkedInPostUrn(url)));
+    if (urls.length > 0 || job.job_type === 'post_comments') return planRetryOf(job.job_type, urls);
+
+    // Every post's comments were saved: only the commenter profiles that didn't finish are left
+    return planRetryOf('profile_details', getUnfinishedChunkUrls(chunks));
+  }
+
+  if (job.job_type === 'company_details') {
+    const savedUrls = new Set(await ctx.db.getSavedCompanyUrls(inputUrls));
+    return planRetryOf('company_details', inputUrls.filter(url => !savedUrls.has(url)));
+  }
+
+  if (job.job_type === 'search_results' && chunks.length > 0) {
+    // The search run finished: only the profiles that didn't finish are left
+    return planRetryOf('profile_details', getUnfinishedChunkUrls(chunks));
+  }
+
+  return { jobType: job.job_type, urls: inputUrls, rerunsWholeJob: true };
+}
+
+function planRetryOf(jobType: ScrapingJob['job_type'], urls: string[]): JobRetryPlan | null {
+  return urls.length > 0 ? { jobType, urls, rerunsWholeJob: false } : null;
+}
+
+function getUnfinishedChunkUrls(chunks: ProfileChunk[]): string[] {
+  return chunks
+    .filter(chunk => chunk.status !== 'succeeded')
+    .flatMap(chunk => chunk.urls);
+}
+
+// Scrapes every unfinished chunk with bounded concurrency. Each chunk is saved as soon as
+// it finishes and retried on its own, so one bad chunk never fails the whole job.
+async function scrapeProfileChunks(chunks: ProfileChunk[], ctx: JobContext): Promise<{ profiles: CanonicalProfile[]; failedUrls: string[] }> {
+  const reportProgress = ctx.reportProgress || noProgress;
+  const options = { ...DEFAULT_CHUNK_OPTIONS, ...ctx.chunkOptions };
+  const saveChunks = createChunkSaver(chunks, ctx);
+
+  const reportChunkProgress = () => {
+    const done = chunks.filter(chunk => chunk.status === 'succeeded' || chunk.status === 'failed').length;
+    const saved = chunks.reduce((sum, chunk) => sum + (chunk.results_count || 0), 0);
+    reportProgress('scraping_profiles', 50 + (done / chunks.length) * 40, `Finished ${done} of ${chunks.length} chunks (${saved} profiles saved)...`);
+  };
+
+  const unfinished = chunks.filter(chunk => chunk.status === 'pending' || chunk.status === 'running');
+  console.log('📦 Scraping profile chunks:', { total: chunks.length, unfinished: unfinished.length, ...options });
+
+  const chunkResults = await mapWithConcurrency(unfinished, options.concurrency, async chunk => {
+    const profiles = await scrapeProfileChunk(chunk, chunks, ctx, options, saveChunks);
+    reportChunkProgress();
+    return profiles;
+  });
+
+  await saveChunks();
+
+  const failedUrls = getFailedChunkUrls(chunks);
+
+  if (failedUrls.length > 0 && chunks.every(chunk => chunk.status === 'failed')) {
+    throw new Error(`All ${chunks.length} profile chunks failed: ${chunks[0].error || 'Unknown error'}`);
+  }
+
+  return { profiles: chunkResults.flat(), failedUrls };
+}
+
+async function scrapeProfileChunk(
+  chunk: ProfileChunk,
+  chunks: ProfileChunk[],
+  ctx: JobContext,
+  options: ChunkOptions,
+  saveChunks: () => Promise<void>
+): Promise<CanonicalProfile[]> {
+  const label = `${chunk.index + 1}/${chunks.length}`;
+
+  // A chunk left running by an interrupted job is re-attached to its Apify run first
+  let reattachRunId = chunk.status === 'running' && chunk.dataset_id ? chunk.run_id : undefined;
+  // Key of the attempt in progress
+  let runKeyId: string | undefined;
+
+  // Item counts across all chunks, so the job shows one running total
+  const runOptions: RunOptions = {
+    ...ctx.runOptions,
+    onRunStarted: async run => {
+      chunk.run_id = run.id;
+      chunk.dataset_id = run.defaultDatasetId;
+      chunk.apify_key_id = runKeyId;
+      saveChunks();
+      await ctx.runOptions?.onRunStarted?.(run);
+    },
+    onPoll: async ({ status, itemCount }) => {
+      chunk.items_collected = itemCount;
+      const total = chunks.reduce((sum, c) => sum + (c.status === 'succeeded' ? c.results_count || 0 : c.items_collected || 0), 0);
+      await ctx.runOptions?.onPoll?.({ status, itemCount: total });
+    }
+  };
+
+  while (reattachRunId || chunk.attempts < options.maxAttempts) {
+    await throwIfJobCancelled(ctx);
+
+    if (!reattachRunId) {
+      chunk.attempts++;
+      chunk.run_id = undefined;
+      chunk.dataset_id = undefined;
+      chunk.items_collected = 0;
+    }
+    chunk.status = 'running';
+    chunk.error = undefined;
+    saveChunks();
+
+    try {
+      let ingested: IngestResult<CanonicalProfile>;
+      if (reattachRunId && chunk.dataset_id) {
+        console.log('🔄 Re-attaching profile chunk to Apify run:', { chunk: label, runId: reattachRunId });
+        const apifyService = await getServiceForKey(ctx, chunk.apify_key_id);
+        await apifyService.waitForRunCompletion(reattachRunId, runOptions);
+        ingested = await apifyService.getProfileItems(chunk.dataset_id);
+      } else {
+        console.log(`🚀 Scraping profile chunk ${label} (attempt ${chunk.attempts}/${options.maxAttempts}):`, chunk.urls.length, 'profiles');
+        ingested = await runOnKeyPool(ctx, runOptions, async (apifyService, keyRunOptions, apifyKeyId) => {
+          runKeyId = apifyKeyId;
+          return apifyService.getProfileItems(await apifyService.scrapeProfiles(chunk.urls, keyRunOptions));
+        }, { profiles: chunk.urls.length });
+      }
+
+      const items = await acceptItems(ingested, PROFILE_ITEM_KIND, ctx);
+      const profiles = await saveScrapedProfiles(items, ctx);
+
+      chunk.status = 'succeeded';
+      chunk.results_count = profiles.length;
+      saveChunks();
+
+      console.log(`✅ Profile chunk ${label} saved:`, profiles.length, 'profiles');
+      return profiles;
+    } catch (error) {
+      // A retry would hit the same cap, so the job stops with the chunks it has
+      if (error instanceof BudgetExceededError) {
+        chunk.attempts--;
+        chunk.status = 'pending';
+        chunk.error = error.message;
+        saveChunks();
+        throw error;
+      }
+      if (ctx.runOptions?.signal?.aborted) throw error;
+
+      reattachRunId = undefined;
+      chunk.error = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(`❌ Profile chunk ${label} failed (attempt ${chunk.attempts}/${options.maxAttempts}):`, error);
+
+      if (chunk.attempts >= options.maxAttempts) {
+        chunk.status = 'failed';
+        saveChunks();
+        break;
+      }
+
+      chunk.status = 'pending';
+      saveChunks();
+      // A cancel during the backoff stops the job right away instead of after the delay
+      await sleep(CHUNK_RETRY_DELAY_MS * chunk.attempts, ctx.runOptions?.signal);
+      if (ctx.runOptions?.signal?.aborted) throw new Error('Scraping cancelled');
+    }
+  }
+
+  return [];
+}
+
+// Saves the chunk plan on the job row. Writes are chained so an older snapshot
+// never lands after a newer one when chunks finish concurrently.
+function createChunkSaver(chunks: ProfileChunk[], ctx: JobContext): () => Promise<void> {
+  let pending = Promise.resolve();
+
+  return () => {
+    const { jobId } = ctx;
+    if (!jobId) return pending;
+
+    const snapshot = chunks.map(chunk => ({ ...chunk }));
+    pending = pending
+      .then(() => ctx.db.updateJobProgress(jobId, { profile_chunks: snapshot }))
+      .catch(error => console.error('❌ Error saving profile chunks:', error));
+    return pending;
+  };
+}
+
+// Stops before starting another Apify run when the job was cancelled from elsewhere
+async function throwIfJobCancelled(ctx: JobContext): Promise<void> {
+  if (ctx.runOptions?.signal?.aborted) {
+    throw new Error('Scraping cancelled');
+  }
+  if (!ctx.jobId) return;
+
+  const job = await ctx.db.getJob(ctx.jobId);
+  if (job?.status === 'cancelled') {
+    throw new Error('Scraping cancelled');
+  }
+}
+
+// Runs `scrape` on the job's current key. When Apify refuses that key for quota, auth or
+// rate-limit reasons before the run started, the job moves to the next key of its pool and
+// `scrape` runs again there. Without a pool, or once every key was refused, the error is thrown.
+// Every run is checked against the budget caps of the user and of the key it would start on.
+async function runOnKeyPool<T>(
+  ctx: JobContext,
+  runOptions: RunOptions | undefined,
+  scrape: (apifyService: ApifyService, runOptions: RunOptions, apifyKeyId?: string) => Promise<T>,
+  demand: Partial<BudgetDemand> = {}
+): Promise<T> {
+  for (;;) {
+    const { apifyService, apifyKeyId, keyPool } = ctx;
+    let runStarted = false;
+
+    await assertWithinBudget(ctx.db, ctx.userId, apifyKeyId, { profiles: 0, spendUsd: 0, ...demand, runs: 1 });
+
+    try {
+      return await scrape(apifyService, {
+        ...runOptions,
+        onRunStarted: async run => {
+          runStarted = true;
+          if (ctx.recordsRuns && apifyKeyId) {
+            await recordApifyRun(run, apifyKeyId, demand.profiles || 0, ctx);
+          }
+          if (keyPool && apifyKeyId) {
+            await recordRunKey(apifyKeyId, ctx);
+          }
+          await runOptions?.onRunStarted?.(run);
+        }
+      }, apifyKeyId);
+    } catch (error) {
+      if (!keyPool || !apifyKeyId || runStarted || !isKeyFailoverError(error)) throw error;
+
+      keyPool.refusedKeyIds.add(apifyKeyId);
+      // Another run of the job may have moved it to a new key already
+      if (ctx.apifyKeyId !== apifyKeyId) continue;
+
+      const nextKeyId = keyPool.keyIds.find(keyId => !keyPool.refusedKeyIds.has(keyId));
+      if (!nextKeyId) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`All ${keyPool.refusedKeyIds.size} keys of the pool were refused by Apify: ${message}`);
+      }
+
+      console.warn('⚠️ Apify refused key', apifyKeyId, '- moving job to key', nextKeyId, error);
+      ctx.apifyService = await keyPool.createService(nextKeyId);
+      ctx.apifyKeyId = nextKeyId;
+    }
+  }
+}
+
+// Budget ledger entry of a run the worker started; a run missing from it would not count
+// towards the caps, but the scrape itself can go on
+async function recordApifyRun(run: ApifyRun, apifyKeyId: string, profiles: number, ctx: JobContext): Promise<void> {
+  try {
+    await ctx.db.recordApifyRun(ctx.userId, apifyKeyId, run, profiles);
+  } catch (error) {
+    console.error('❌ Error recording Apify run in the budget ledger:', error);
+  }
+}
+
+// Saves which key served the run: on the job, so it resumes on that key, and on the key for round-robin order
+async function recordRunKey(apifyKeyId: string, ctx: JobContext): Promise<void> {
+  try {
+    await ctx.db.markApifyKeyUsed(apifyKeyId);
+    if (ctx.jobId) {
+      await ctx.db.updateJobProgress(ctx.jobId, { apify_key_id: apifyKeyId });
+    }
+  } catch (error) {
+    console.error('❌ Error recording the key of a run:', error);
+  }
+}
+
+// Service for a run started on another key of the pool, e.g. a chunk re-attached after a restart
+async function getServiceForKey(ctx: JobContext, apifyKeyId?: string): Promise<ApifyService> {
+  if (!apifyKeyId || apifyKeyId === ctx.apifyKeyId || !ctx.keyPool?.keyIds.includes(apifyKeyId)) return ctx.apifyService;
+
+  return ctx.keyPool.createService(apifyKeyId);
+}
+
+export async function saveScrapedCompanies(
+  newCompanies: CanonicalCompany[],
+  ctx: Pick<JobContext, 'db' | 'userId'>
+): Promise<LinkedInCompany[]> {
+  const results: LinkedInCompany[] = [];
+
+  for (const company of newCompanies) {
+    try {
+      results.push(await ctx.db.upsertCompany(ctx.userId, company));
+    } catch (saveError) {
+      console.error('❌ Error saving company:', company.linkedin_url, saveError);
+    }
+  }
+
+  return results;
+}
+
+export async function getCompaniesWithOptimization(companyUrls: string[], ctx: JobContext): Promise<LinkedInCompany[]> {
+  const reportProgress = ctx.reportProgress || noProgress;
+  const results: LinkedInCompany[] = [];
+  const urlsToScrape: string[] = [];
+
+  // Check each URL in database first
+  for (const url of companyUrls) {
+    let existingCompany = null;
+    try {
+      existingCompany = await ctx.db.getCompany(url);
+    } catch (error) {
+      console.error('❌ Error checking company:', url, error);
+    }
+
+    if (existingCompany) {
+      results.push(existingCompany);
+    } else {
+      urlsToScrape.push(url);
+    }
+  }
+
+  if (urlsToScrape.length > 0) {
+    reportProgress('scraping_companies', 50, `Scraping ${urlsToScrape.length} new companies (saved ${results.length} API calls)...`);
+
+    const ingested = await runOnKeyPool(ctx, ctx.runOptions, async (apifyService, runOptions) =>
+      apifyService.getCompanyItems(await apifyService.scrapeCompanies(urlsToScrape, runOptions))
+    );
+
+    reportProgress('saving_data', 80, 'Saving new companies...');
+    results.push(...await saveScrapedCompanies(await acceptItems(ingested, COMPANY_ITEM_KIND, ctx), ctx));
+  }
+
+  return results;
+}
+
+// Posts keyed by the linkedin_url_key of the profile among profileUrls that posted them
+function groupPostsByProfile(posts: CanonicalProfilePost[], profileUrls: string[]): Record<string, ProfilePost[]> {
+  const postsByProfile: Record<string, ProfilePost[]> = {};
+  for (const url of profileUrls) {
+    postsByProfile[getLinkedInUrlKey(url)] = [];
+  }
+
+  for (const { authorUrl, ...post } of posts) {
+    // With a single profile every post is theirs, even when the actor omits the author URL
+    const key = authorUrl ? getLinkedInUrlKey(authorUrl) : profileUrls.length === 1 ? getLinkedInUrlKey(profileUrls[0]) : null;
+    if (!key || !postsByProfile[key]) continue;
+    postsByProfile[key].push(post);
+  }
+
+  return postsByProfile;
+}
+
+// Groups the scraped posts by author and stores them on each profile.
+// Returns the posts keyed by the profile's linkedin_url_key.
+export async function saveProfilePosts(
+  posts: CanonicalProfilePost[],
+  profileUrls: string[],
+  ctx: JobContext
+): Promise<Record<string, ProfilePost[]>> {
+  const postsByProfile = groupPostsByProfile(posts, profileUrls);
+
+  for (const url of profileUrls) {
+    try {
+      await ctx.db.updateProfilePosts(url, postsByProfile[getLinkedInUrlKey(url)]);
+    } catch (saveError) {
+      console.error('❌ Error saving profile posts:', url, saveError);
+    }
+  }
+
+  return postsByProfile;
+}
+
+// Adds the collected posts to profile_data objects as `recentPosts`, which the profile details view renders
+export function attachRecentPosts(profiles: CanonicalProfile[], postsByProfile: Record<string, ProfilePost[]>): CanonicalProfile[] {
+  return profiles.map(profile => {
+    const posts = profile.linkedinUrl ? postsByProfile[getLinkedInUrlKey(profile.linkedinUrl)] : undefined;
+    return posts ? { ...profile, recentPosts: posts } : profile;
+  });
+}
+
+function countPosts(postsByProfile: Record<string, ProfilePost[]>): number {
+  return Object.values(postsByProfile).reduce((sum, posts) => sum + posts.length, 0);
+}
+
+// Second half of a profile_posts job: one posts run for all profiles
+async function scrapeRecentPosts(profileUrls: string[], ctx: JobContext): Promise<Record<string, ProfilePost[]>> {
+  const reportProgress = ctx.reportProgress || noProgress;
+
+  reportProgress('scraping_posts', 60, `Collecting recent posts of ${profileUrls.length} profiles...`);
+  const ingested = await runOnKeyPool(ctx, ctx.runOptions, async (apifyService, runOptions) =>
+    apifyService.getProfilePostItems(await apifyService.scrapeProfilePosts(profileUrls, RECENT_POSTS_LIMIT, runOptions))
+  );
+
+  reportProgress('saving_data', 85, 'Saving posts to profiles...');
+  return saveProfilePosts(await acceptItems(ingested, PROFILE_POST_ITEM_KIND, ctx), profileUrls, ctx);
+}
+
+export async function runScrapingJob(job: ScrapingJob, ctx: JobContext): Promise<JobResult> {
+  const reportProgress = ctx.reportProgress || noProgress;
+
+  if (job.job_type === 'post_comments') {
+    reportProgress('scraping_comments', 25, 'Extracting comments from LinkedIn post...');
+
+    const ingested = await scrapeJobComments(job, ctx);
+
+    reportProgress('saving_data', 75, 'Processing comment data...');
+    const comments = processComments(await acceptItems(ingested, COMMENT_ITEM_KIND, ctx), job);
+    await savePostComments(comments, getJobInputUrls(job), ctx);
+
+    reportProgress('completed', 100, 'Comments extracted successfully!');
+    return { comments, profiles: [], resultsCount: comments.length, failedUrls: [] };
+  }
+
+  if (job.job_type === 'profile_details') {
+    reportProgress('scraping_profiles', 25, 'Checking existing profiles in database...');
+
+    const { profiles, failedUrls } = await getProfilesWithOptimization(getJobInputUrls(job), ctx);
+
+    reportProgress('saving_data', 75, 'Saving profile data...');
+    reportProgress('completed', 100, 'Profile details scraped successfully!');
+    return { comments: [], profiles, resultsCount: profiles.length, failedUrls };
+  }
+
+  if (job.job_type === 'profile_posts') {
+    reportProgress('scraping_profiles', 20, 'Checking existing profiles in database...');
+
+    // Posts are stored on the profile row, so the profiles are scraped first when missing
+    const profileUrls = getJobInputUrls(job);
+    const { profiles, failedUrls } = await getProfilesWithOptimization(profileUrls, ctx);
+    const postsByProfile = await scrapeRecentPosts(profileUrls, ctx);
+
+    reportProgress('completed', 100, 'Recent posts collected successfully!');
+    return {
+      comments: [],
+      profiles: attachRecentPosts(profiles, postsByProfile),
+      resultsCount: countPosts(postsByProfile),
+      failedUrls
+    };
+  }
+
+  if (job.job_type === 'search_results') {
+    reportProgress('searching_profiles', 20, 'Collecting people from LinkedIn search...');
+
+    // A search URL is kept whole: its query string may contain commas
+    const ingested = await runOnKeyPool(ctx, ctx.runOptions, async (apifyService, runOptions) =>
+      apifyService.getSearchItems(await apifyService.scrapeSearchResults(getJobInputUrls(job)[0], job.search_options, runOptions))
+    );
+    const searchResults = await acceptItems(ingested, SEARCH_RESULT_ITEM_KIND, ctx);
+    const { profiles, failedUrls } = await scrapeSearchProfiles(searchResults, job, ctx);
+
+    reportProgress('completed', 100, 'Search results scraped successfully!');
+    return { comments: [], profiles, resultsCount: profiles.length, failedUrls };
+  }
+
+  if (job.job_type === 'post_reactions') {
+    reportProgress('scraping_reactions', 25, 'Extracting reactions from LinkedIn posts...');
+
+    const ingested = await runOnKeyPool(ctx, ctx.runOptions, async (apifyService, runOptions) =>
+      apifyService.getReactionItems(await apifyService.scrapePostReactions(getJobInputUrls(job), runOptions))
+    );
+
+    reportProgress('saving_data', 75, 'Processing reaction data...');
+    const reactions = processReactions(await acceptItems(ingested, REACTION_ITEM_KIND, ctx), job);
+
+    reportProgress('completed', 100, 'Reactions extracted successfully!');
+    return { comments: [], profiles: [], reactions, resultsCount: reactions.length, failedUrls: [] };
+  }
+
+  if (job.job_type === 'company_details') {
+    reportProgress('scraping_companies', 25, 'Checking existing companies in database...');
+
+    const companies = await getCompaniesWithOptimization(getJobInputUrls(job), ctx);
+
+    reportProgress('completed', 100, 'Company details scraped successfully!');
+    return { comments: [], profiles: [], companies, resultsCount: companies.length, failedUrls: [] };
+  }
+
+  reportProgress('scraping_comments', 20, 'Extracting comments from LinkedIn post...');
+
+  const comments = processComments(await acceptItems(await scrapeJobComments(job, ctx), COMMENT_ITEM_KIND, ctx), job);
+  await savePostComments(comments, getJobInputUrls(job), ctx);
+
+  const { profiles, failedUrls } = await scrapeCommenterProfiles(comments, ctx);
+
+  reportProgress('completed', 100, 'Mixed scraping completed successfully!');
+  return { comments, profiles, resultsCount: profiles.length, failedUrls };
+}
+
+function scrapeJobComments(job: ScrapingJob, ctx: JobContext): Promise<IngestResult<LinkedInComment>> {
+  return runOnKeyPool(ctx, ctx.runOptions, async (apifyService, runOptions) =>
+    apifyService.getCommentItems(await apifyService.scrapePostComments(getJobInputUrls(job), job.comment_options, runOptions))
+  );
+}
+
+// Profile URLs in the search actor's output, in result order and capped at the job's result limit
+export function extractSearchProfileUrls(items: CanonicalSearchResult[], maxResults = DEFAULT_SEARCH_MAX_RESULTS): string[] {
+  const profileUrls = new Set(items.map(item => item.linkedinUrl));
+  return [...profileUrls].slice(0, maxResults);
+}
+
+// Second half of a search job: people already stored are taken from the database
+async function scrapeSearchProfiles(items: CanonicalSearchResult[], job: ScrapingJob, ctx: JobContext): Promise<ProfileScrapeResult> {
+  const reportProgress = ctx.reportProgress || noProgress;
+
+  const profileUrls = extractSearchProfileUrls(items, job.search_options?.maxResults);
+  if (profileUrls.length === 0) return { profiles: [], failedUrls: [], savedCost: 0 };
+
+  reportProgress('scraping_profiles', 50, `Checking and scraping ${profileUrls.length} profiles from the search...`);
+
+  const result = await getProfilesWithOptimization(profileUrls, ctx);
+
+  reportProgress('saving_data', 85, 'Saving all data...');
+  return result;
+}
+
+// Second half of a mixed job: scrape the profiles of the post's commenters
+async function scrapeCommenterProfiles(comments: LinkedInComment[], ctx: JobContext): Promise<ProfileScrapeResult> {
+  const reportProgress = ctx.reportProgress || noProgress;
+
+  reportProgress('extracting_profiles', 40, 'Extracting profile URLs from comments...');
+
+  const profileUrls = extractCommenterProfileUrls(comments);
+  if (profileUrls.length === 0) return { profiles: [], failedUrls: [], savedCost: 0 };
+
+  reportProgress('scraping_profiles', 60, `Checking and scraping ${profileUrls.length} profiles...`);
+
+  const result = await getProfilesWithOptimization(profileUrls, ctx);
+
+  reportProgress('saving_data', 85, 'Saving all data...');
+  return result;
+}
+
+// Re-attaches to the Apify run stored on the job, ingests its dataset and finishes any remaining stage
+export async function resumeScrapingJob(job: ScrapingJob, ctx: JobContext): Promise<JobResult> {
+  ctx = { ...ctx, ingestStats: createIngestStats(job) };
+
+  if (job.job_type === 'profile_posts') {
+    return resumeProfilePostsJob(job, ctx);
+  }
+
+  if (job.profile_chunks?.length) {
+    // The profile stage was reached: only the chunks that did not finish are scraped again
+    const chunks = job.profile_chunks.map(chunk => ({ ...chunk }));
+    const { profiles, failedUrls } = await scrapeProfileChunks(chunks, ctx);
+    const resultsCount = chunks.reduce((sum, chunk) => sum + (chunk.results_count || 0), 0);
+    return { comments: [], profiles, resultsCount, failedUrls };
+  }
+
+  if (!job.apify_run_id || !job.apify_dataset_id) {
+    throw new Error('Job has no Apify run to resume');
+  }
+
+  console.log('🔄 Re-attaching job to Apify run:', { jobId: job.id, runId: job.apify_run_id });
+  await ctx.apifyService.waitForRunCompletion(job.apify_run_id, ctx.runOptions);
+  const items = await ctx.apifyService.getDatasetItems(job.apify_dataset_id);
+
+  // Apify reports the actor's ID, not the name the company actor is started by
+  if (job.job_type === 'company_details') {
+    const companies = await saveScrapedCompanies(await acceptItems(ctx.apifyService.toCanonicalCompanies(items), COMPANY_ITEM_KIND, ctx), ctx);
+    return { comments: [], profiles: [], companies, resultsCount: companies.length, failedUrls: [] };
+  }
+
+  if (job.job_type === 'post_reactions') {
+    const reactions = processReactions(await acceptItems(ctx.apifyService.toCanonicalReactions(items), REACTION_ITEM_KIND, ctx), job);
+    return { comments: [], profiles: [], reactions, resultsCount: reactions.length, failedUrls: [] };
+  }
+
+  if (isProfileActorId(job.apify_actor_id)) {
+    const profiles = await saveScrapedProfiles(await acceptItems(ctx.apifyService.toCanonicalProfiles(items), PROFILE_ITEM_KIND, ctx), ctx);
+    return { comments: [], profiles, resultsCount: profiles.length, failedUrls: [] };
+  }
+
+  if (job.job_type === 'search_results') {
+    // The search run finished, carry on with the profile stage
+    const searchResults = await acceptItems(ctx.apifyService.toCanonicalSearchResults(items), SEARCH_RESULT_ITEM_KIND, ctx);
+    const { profiles, failedUrls } = await scrapeSearchProfiles(searchResults, job, ctx);
+    return { comments: [], profiles, resultsCount: profiles.length, failedUrls };
+  }
+
+  const comments = processComments(await acceptItems(ctx.apifyService.toCanonicalComments(items), COMMENT_ITEM_KIND, ctx), job);
+  await savePostComments(comments, getJobInputUrls(job), ctx);
+
+  if (job.job_type === 'mixed') {
+    // The comments run finished, carry on with the profile stage
+    const { profiles, failedUrls } = await scrapeCommenterProfiles(comments, ctx);
+    return { comments, profiles, resultsCount: profiles.length, failedUrls };
+  }
+
+  return { comments, profiles: [], resultsCount: comments.length, failedUrls: [] };
+}
+
+async function resumeProfilePostsJob(job: ScrapingJob, ctx: JobContext): Promise<JobResult> {
+  const profileUrls = getJobInputUrls(job);
+
+  if (job.progress_stage === 'scraping_posts' && job.apify_run_id && job.apify_dataset_id) {
+    console.log('🔄 Re-attaching job to Apify run:', { jobId: job.id, runId: job.apify_run_id });
+    await ctx.apifyService.waitForRunCompletion(job.apify_run_id, ctx.runOptions);
+    const posts = await acceptItems(await ctx.apifyService.getProfilePostItems(job.apify_dataset_id), PROFILE_POST_ITEM_KIND, ctx);
+    const postsByProfile = await saveProfilePosts(posts, profileUrls, ctx);
+    return { comments: [], profiles: [], resultsCount: countPosts(postsByProfile), failedUrls: [] };
+  }
+
+  // Still in the profile stage: finish the remaining chunks, then collect the posts
+  let failedUrls: string[] = [];
+  if (job.profile_chunks?.length) {
+    ({ failedUrls } = await scrapeProfileChunks(job.profile_chunks.map(chunk => ({ ...chunk })), ctx));
+  }
+
+  const postsByProfile = await scrapeRecentPosts(profileUrls, ctx);
+  return { comments: [], profiles: [], resultsCount: countPosts(postsByProfile), failedUrls };
+}
+
+// Aborts the job's Apify run and keeps whatever it collected so far.
+// Returns the number of dataset items gathered before the abort.
+export async function abortJobRun(job: ScrapingJob, ctx: JobContext): Promise<number | undefined> {
+  ctx = { ...ctx, ingestStats: createIngestStats(job) };
+
+  // A profile_posts job keeps its finished chunks while the posts run is going
+  if (job.profile_chunks?.length && job.progress_stage !== 'scraping_posts') {
+    return abortProfileChunks(job, job.profile_chunks, ctx);
+  }
+
+  if (!job.apify_run_id || !job.apify_dataset_id) return undefined;
+
+  try {
+    await ctx.apifyService.abortRun(job.apify_run_id);
+  } catch (error) {
+    // The run may have finished on its own in the meantime
+    console.error('❌ Error aborting Apify run:', error);
+  }
+  await recordAbortedRunUsage(job.apify_run_id, ctx.apifyService, ctx);
+
+  try {
+    const partialItems = await ctx.apifyService.getDatasetItems(job.apify_dataset_id);
+    if (isProfileActorId(job.apify_actor_id)) {
+      await saveScrapedProfiles(await acceptItems(ctx.apifyService.toCanonicalProfiles(partialItems), PROFILE_ITEM_KIND, ctx), ctx);
+    } else if (job.job_type === 'company_details') {
+      await saveScrapedCompanies(await acceptItems(ctx.apifyService.toCanonicalCompanies(partialItems), COMPANY_ITEM_KIND, ctx), ctx);
+    } else if (job.job_type === 'profile_posts') {
+      await saveProfilePosts(
+        await acceptItems(ctx.apifyService.toCanonicalProfilePosts(partialItems), PROFILE_POST_ITEM_KIND, ctx),
+        getJobInputUrls(job),
+        ctx
+      );
+    } else if (job.job_type === 'post_comments' || job.job_type === 'mixed') {
+      await savePostComments(
+        processComments(await acceptItems(ctx.apifyService.toCanonicalComments(partialItems), COMMENT_ITEM_KIND, ctx), job),
+        getJobInputUrls(job),
+        ctx
+      );
+    }
+    console.log('📦 Collected', partialItems.length, 'items before abort');
+    return partialItems.length;
+  } catch (error) {
+    console.error('❌ Error collecting partial results:', error);
+    return undefined;
+  }
+}
+
+// Aborts every running chunk, saves what they collected and marks unfinished chunks cancelled.
+// Returns the profiles saved by finished chunks plus the partial ones.
+async function abortProfileChunks(job: ScrapingJob, profileChunks: ProfileChunk[], ctx: JobContext): Promise<number> {
+  const chunks = profileChunks.map(chunk => ({ ...chunk }));
+  let collected = chunks.reduce((sum, chunk) => sum + (chunk.status === 'succeeded' ? chunk.results_count || 0 : 0), 0);
+
+  for (const chunk of chunks) {
+    if (chunk.status === 'running' && chunk.run_id && chunk.dataset_id) {
+      const apifyService = await getServiceForKey(ctx, chunk.apify_key_id);
+      try {
+        await apifyService.abortRun(chunk.run_id);
+      } catch (error) {
+        // The run may have finished on its own in the meantime
+        console.error('❌ Error aborting Apify run:', error);
+      }
+      await recordAbortedRunUsage(chunk.run_id, apifyService, ctx);
+
+      try {
+        const partialItems = await acceptItems(await apifyService.getProfileItems(chunk.dataset_id), PROFILE_ITEM_KIND, ctx);
+        const profiles = await saveScrapedProfiles(partialItems, ctx);
+        chunk.results_count = profiles.length;
+        collected += profiles.length;
+      } catch (error) {
+        console.error('❌ Error collecting partial results:', error);
+      }
+    }
+
+    if (chunk.status === 'running' || chunk.status === 'pending') {
+      chunk.status = 'cancelled';
+    }
+  }
+
+  try {
+    await ctx.db.updateJobProgress(job.id, { profile_chunks: chunks });
+  } catch (error) {
+    console.error('❌ Error saving profile chunks:', error);
+  }
+
+  console.log('📦 Collected', collected, 'profiles before abort');
+  return collected;
+}
+
+// Validates the job's quarantined items again, e.g. after an adapter or schema fix, and saves the
+// ones that now pass. Items that still fail stay quarantined with their new errors.
+export async function reingestQuarantinedItems(
+  job: ScrapingJob,
+  ctx: Pick<JobContext, 'db' | 'userId'>
+): Promise<{ accepted: number; rejected: number }> {
+  const quarantined = (await ctx.db.getQuarantinedItems(job.id)).filter(row => REINGESTABLE_ITEM_KINDS.includes(row.item_kind));
+  console.log('🔄 Re-ingesting', quarantined.length, 'quarantined items of job', job.id);
+
+  const comments: ReingestedRow<LinkedInComment>[] = [];
+  const profiles: ReingestedRow<CanonicalProfile>[] = [];
+  const posts: ReingestedRow<CanonicalProfilePost>[] = [];
+  const companies: ReingestedRow<CanonicalCompany>[] = [];
+
+  for (const row of quarantined) {
+    const result = reingestItem(row.item_kind, row.adapter_id, row.item);
+
+    if (result.accepted.length > 0) {
+      const [item] = result.accepted;
+      if (row.item_kind === COMMENT_ITEM_KIND) {
+        comments.push({ rowId: row.id, item: item as LinkedInComment });
+      } else if (row.item_kind === PROFILE_ITEM_KIND) {
+        profiles.push({ rowId: row.id, item: item as CanonicalProfile });
+      } else if (row.item_kind === PROFILE_POST_ITEM_KIND) {
+        posts.push({ rowId: row.id, item: item as CanonicalProfilePost });
+      } else {
+        companies.push({ rowId: row.id, item: item as CanonicalCompany });
+      }
+      continue;
+    }
+
+    try {
+      await ctx.db.updateQuarantinedItemErrors(row.id, result.rejected[0].errors);
+    } catch (error) {
+      console.error('❌ Error updating quarantined item:', row.id, error);
+    }
+  }
+
+  // Items that now pass count as results of the job they were quarantined from. Only the ones
+  // that were saved leave the quarantine; the others are tried again on the next re-ingest.
+  const jobCtx = { ...ctx, jobId: job.id };
+  const savedProfiles = await saveScrapedProfiles(profiles.map(row => row.item), jobCtx);
+  const savedCompanies = await saveScrapedCompanies(companies.map(row => row.item), jobCtx);
+  const savedPostUrls = await saveReingestedPosts(posts.map(row => row.item), getJobInputUrls(job), jobCtx);
+
+  // Comments older than the job's cutoff are dropped like on the first ingest, which settles them too
+  const datedComments = processComments(comments.map(row => row.item), job);
+  const droppedCommentIds = comments.map(row => row.item.id).filter(id => !datedComments.some(comment => comment.id === id));
+  const savedCommentIds = await saveReingestedComments(datedComments, jobCtx);
+
+  const savedIds = [
+    ...getSavedRowIds(profiles, savedProfiles.map(profile => profile.linkedinUrl), profile => profile.linkedinUrl),
+    ...getSavedRowIds(companies, savedCompanies.map(company => company.linkedin_url), company => company.linkedin_url),
+    ...getSavedRowIds(posts, savedPostUrls, post => post.url),
+    ...getSavedRowIds(comments, [...savedCommentIds, ...droppedCommentIds], comment => comment.id)
+  ];
+  await ctx.db.markQuarantinedItemsReingested(savedIds);
+
+  await ctx.db.updateJobProgress(job.id, {
+    items_accepted: (job.items_accepted || 0) + savedIds.length,
+    items_rejected: Math.max(0, (job.items_rejected || 0) - savedIds.length)
+  });
+
+  console.log('✅ Re-ingested', savedIds.length, 'of', quarantined.length, 'quarantined items');
+  return { accepted: savedIds.length, rejected: quarantined.length - savedIds.length };
+}
+
+interface ReingestedRow<T> {
+  // quarantined_items row the item came from
+  rowId: string;
+  item: T;
+}
+
+function getSavedRowIds<T>(rows: ReingestedRow<T>[], savedKeys: string[], getKey: (item: T) => string): string[] {
+  const saved = new Set(savedKeys);
+  return rows.filter(row => saved.has(getKey(row.item))).map(row => row.rowId);
+}
+
+// Adds comments to their posts without touching the posts' stored comment counts.
+// Returns the IDs of the comments saved.
+async function saveReingestedComments(comments: LinkedInComment[], ctx: Pick<JobContext, 'db' | 'userId' | 'jobId'>): Promise<string[]> {
+  const commentsByPost = new Map<string | null, LinkedInComment[]>();
+  for (const comment of comments) {
+    const postUrn = comment.postUrl ? getLinkedInPostUrn(comment.postUrl) : null;
+    commentsByPost.set(postUrn, [...(commentsByPost.get(postUrn) || []), comment]);
+  }
+
+  const savedIds: string[] = [];
+  for (const [postUrn, postComments] of commentsByPost) {
+    const commentIds = postComments.map(comment => comment.id);
+    try {
+      await ctx.db.upsertPostComments(ctx.userId, postUrn, postComments);
+      savedIds.push(...commentIds);
+    } catch (error) {
+      console.error('❌ Error saving re-ingested comments:', postUrn, error);
+      continue;
+    }
+    await linkJobResults(ctx, 'comment', commentIds);
+  }
+
+  return savedIds;
+}
+
+// Adds posts to the ones already stored on their profiles; a stored post with the same URL is replaced.
+// Returns the URLs of the posts saved.
+async function saveReingestedPosts(posts: CanonicalProfilePost[], profileUrls: string[], ctx: Pick<JobContext, 'db'>): Promise<string[]> {
+  if (posts.length === 0) return [];
+  const postsByProfile = groupPostsByProfile(posts, profileUrls);
+  const savedUrls: string[] = [];
+
+  for (const url of profileUrls) {
+    const newPosts = postsByProfile[getLinkedInUrlKey(url)];
+    if (newPosts.length === 0) continue;
+
+    try {
+      const profile = await ctx.db.getProfile(url);
+      const keptPosts = (profile?.recent_posts || []).filter(post => !newPosts.some(newPost => newPost.url === post.url));
+      await ctx.db.updateProfilePosts(url, [...keptPosts, ...newPosts]);
+      savedUrls.push(...newPosts.map(post => post.url));
+    } catch (saveError) {
+      console.error('❌ Error saving profile posts:', url, saveError);
+    }
+  }
+
+  return savedUrls;
+}
@@ -0,0 +1,63 @@
+import type { ApifyService } from './apify';
+import type { DatabaseService } from './database';
+import type { ApifyKey } from './supabase';
+
+// Key pool mode: a job starts on its own key and moves to the user's other active keys when
+// Apify refuses the current one. `off` keeps every job on the key it was started with.
+export type KeyPoolMode = 'off' | 'round_robin' | 'least_used';
+
+export interface ApifyKeyPool {
+  // The user's active keys in the order they are moved to; also used to re-attach to runs
+  // started on another key
+  keyIds: string[];
+  // Keys Apify refused during this job; shared by concurrent runs so none of them retries one
+  refusedKeyIds: Set<string>;
+  // Keys are only decrypted server-side, so the caller decides how a key id becomes a service
+  // (decrypted key in the worker, proxy in the browser)
+  createService: (apifyKeyId: string) => Promise<ApifyService>;
+}
+
+// Quota (402), auth (401, 403) and rate-limit (429) errors: another key may well succeed
+export function isKeyFailoverError(error: unknown): boolean {
+  return error instanceof Error && /Apify API error (401|402|403|429)/.test(error.message);
+}
+
+// round_robin: the key that served a run longest ago goes first, never-used keys before all.
+// least_used: the key with the lowest spend this month goes first, as of its last health check;
+// keys never checked go last.
+export function orderApifyKeys(keys: ApifyKey[], mode: KeyPoolMode): ApifyKey[] {
+  if (mode === 'least_used') {
+    const usage = (key: ApifyKey) => key.health_status?.account?.monthlyUsageUsd;
+    return [...keys].sort((a, b) => {
+      const usageA = usage(a);
+      const usageB = usage(b);
+      if (usageA == null || usageB == null) {
+        // Unknown usage goes last; two unknown keys keep their order
+        return (usageA == null ? 1 : 0) - (usageB == null ? 1 : 0);
+      }
+      return usageA - usageB;
+    });
+  }
+
+  const lastUsed = (key: ApifyKey) => (key.last_used_at ? new Date(key.last_used_at).getTime() : 0);
+  return [...keys].sort((a, b) => lastUsed(a) - lastUsed(b));
+}
+
+// The user's pool, or undefined when they have the mode off
+export async function loadApifyKeyPool(
+  db: DatabaseService,
+  userId: string,
+  createService: (apifyKeyId: string) => Promise<ApifyService>
+): Promise<ApifyKeyPool | undefined> {
+  const mode = await db.getKeyPoolMode(userId);
+  if (mode === 'off') return undefined;
+
+  const keys = orderApifyKeys(await db.getActiveApifyKeys(userId), mode);
+  console.log('🔑 Key pool:', mode, keys.length, 'active keys');
+
+  return {
+    keyIds: keys.map(key => key.id),
+    refusedKeyIds: new Set(),
+    createService
+  };
+}
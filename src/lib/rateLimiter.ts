@@ -0,0 +1,62 @@
+import { sleep } from './utils';
+
+// Spacing and backoff for calls to a rate-limited API. One limiter is shared by every caller in
+// the process (all jobs of a browser tab, or of a worker), so parallel jobs queue for slots
+// instead of each tripping the API's limit, and a 429 pauses all of them at once.
+
+export interface RateLimiterOptions {
+  requestsPerSecond: number;
+}
+
+export interface RateLimiter {
+  // Resolves when the caller may send its request
+  acquire(): Promise<void>;
+  // Holds back every caller for `ms`, e.g. for the Retry-After of a 429
+  pauseFor(ms: number): void;
+}
+
+export interface BackoffOptions {
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export function createRateLimiter({ requestsPerSecond }: RateLimiterOptions): RateLimiter {
+  const spacingMs = 1000 / requestsPerSecond;
+  let nextSlotAt = 0;
+  let pausedUntil = 0;
+
+  return {
+    async acquire() {
+      // Checking and taking the slot happen without awaiting in between, so callers that wake
+      // up together still go one at a time; a pause set while waiting is honoured too
+      for (;;) {
+        const waitMs = Math.max(nextSlotAt, pausedUntil) - Date.now();
+        if (waitMs <= 0) break;
+        await sleep(waitMs);
+      }
+      nextSlotAt = Date.now() + spacingMs;
+    },
+
+    pauseFor(ms: number) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    }
+  };
+}
+
+// Exponential backoff with full jitter: a random delay up to base * 2^attempt (attempt 0 is
+// the first retry), so clients that failed together don't retry together
+export function getBackoffDelay(attempt: number, { baseDelayMs = 1000, maxDelayMs = 30000 }: BackoffOptions = {}): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+// Retry-After in milliseconds, given as seconds or as an HTTP date; undefined when absent or invalid
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -0,0 +1,237 @@
+import type { DatabaseService } from './database';
+import type { JobSchedule, ScrapingJob } from './supabase';
+
+// Recurring jobs. A schedule is a job template plus its timing: a cron expression
+// (minute hour day-of-month month day-of-week, in UTC) or a fixed interval. The background
+// worker turns due schedules into pending jobs, which workers then claim like any other job.
+
+export const MIN_SCHEDULE_INTERVAL_MINUTES = 15;
+
+export type ScheduleTiming = Pick<JobSchedule, 'cron_expression' | 'interval_minutes'>;
+
+// What the Schedules page creates and edits
+export type JobScheduleTemplate = Pick<
+  JobSchedule,
+  'name' | 'job_type' | 'inputs' | 'comment_options' | 'search_options' | 'tags' | 'apify_key_id' | 'cron_expression' | 'interval_minutes'
+>;
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *'
+};
+
+interface CronField {
+  values: Set<number>;
+  // `*` fields; day of month and day of week only both apply when neither is a wildcard
+  isWildcard: boolean;
+}
+
+interface CronSchedule {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+const CRON_FIELD_RANGES = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+// Cron expressions that never match, like February 30, are reported instead of searched forever
+const CRON_SEARCH_YEARS = 5;
+
+function parseCronField(field: string, { name, min, max }: typeof CRON_FIELD_RANGES[number]): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/.exec(part);
+    if (!match || (match[1] === '*' && match[2])) {
+      throw new Error(`Invalid ${name} "${part}" in cron expression`);
+    }
+
+    const [, first, last, stepText] = match;
+    const step = stepText ? Number(stepText) : 1;
+    const start = first === '*' ? min : Number(first);
+    // `5/15` runs from 5 to the end of the range, like `5-59/15`
+    const end = first === '*' || (stepText && !last) ? max : Number(last ?? first);
+
+    if (step < 1 || start < min || end > max || start > end) {
+      throw new Error(`The ${name} "${part}" is outside ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, isWildcard: field.startsWith('*') };
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (CRON_ALIASES[trimmed] || trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('A cron expression needs 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELD_RANGES[index])
+  );
+  if (daysOfWeek.values.delete(7)) daysOfWeek.values.add(0);
+
+  return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+function matchesCronDay(cron: CronSchedule, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.values.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.values.has(date.getUTCDay());
+
+  // As in cron, a restricted day of month and day of week match when either does
+  if (!cron.daysOfMonth.isWildcard && !cron.daysOfWeek.isWildcard) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+// First minute after `after` that the expression matches, in UTC
+export function getNextCronRun(expression: string, after: Date): Date {
+  const cron = parseCronExpression(expression);
+
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  const limit = new Date(next.getTime());
+  limit.setUTCFullYear(limit.getUTCFullYear() + CRON_SEARCH_YEARS);
+
+  // Skips whole months, days and hours that cannot match before stepping by minutes
+  while (next < limit) {
+    if (!cron.months.values.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesCronDay(cron, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.values.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.values.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return next;
+    }
+  }
+
+  throw new Error(`The cron expression "${expression}" never matches a date`);
+}
+
+export function getNextScheduleRun(timing: ScheduleTiming, after: Date): Date {
+  if (timing.cron_expression) {
+    return getNextCronRun(timing.cron_expression, after);
+  }
+  if (!timing.interval_minutes) {
+    throw new Error('The schedule has neither a cron expression nor an interval');
+  }
+  return new Date(after.getTime() + timing.interval_minutes * 60 * 1000);
+}
+
+// What is wrong with the timing, as a message for the user; undefined when it is valid
+export function findScheduleTimingError(timing: ScheduleTiming): string | undefined {
+  if (Boolean(timing.cron_expression) === Boolean(timing.interval_minutes)) {
+    return 'Set either a cron expression or an interval';
+  }
+  if (timing.interval_minutes != null && timing.interval_minutes < MIN_SCHEDULE_INTERVAL_MINUTES) {
+    return `The interval must be at least ${MIN_SCHEDULE_INTERVAL_MINUTES} minutes`;
+  }
+
+  try {
+    getNextScheduleRun(timing, new Date());
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid schedule';
+  }
+}
+
+export function describeScheduleTiming(timing: ScheduleTiming): string {
+  if (timing.cron_expression) {
+    return `Cron ${timing.cron_expression} (UTC)`;
+  }
+
+  const minutes = timing.interval_minutes || 0;
+  if (minutes % (24 * 60) === 0) return `Every ${minutes / (24 * 60)} day(s)`;
+  if (minutes % 60 === 0) return `Every ${minutes / 60} hour(s)`;
+  return `Every ${minutes} minutes`;
+}
+
+// Run that follows a due one. Intervals keep their rhythm from the due run instead of drifting by
+// how late it was picked up; runs missed while no worker was up are skipped, not made up.
+function getRunAfterDue(schedule: JobSchedule, dueRunAt: Date, now: Date): Date {
+  if (schedule.cron_expression || !schedule.interval_minutes) {
+    return getNextScheduleRun(schedule, now);
+  }
+
+  const intervalMs = schedule.interval_minutes * 60 * 1000;
+  const elapsedIntervals = Math.floor((now.getTime() - dueRunAt.getTime()) / intervalMs) + 1;
+  return new Date(dueRunAt.getTime() + Math.max(1, elapsedIntervals) * intervalMs);
+}
+
+// Queues one run of the schedule as a pending job and records it as the latest run
+export async function createScheduledJob(db: DatabaseService, schedule: JobSchedule, now = new Date()): Promise<ScrapingJob> {
+  const job = await db.createJob(
+    schedule.user_id,
+    schedule.job_type,
+    schedule.inputs.urls,
+    schedule.apify_key_id,
+    'pending',
+    schedule.comment_options,
+    schedule.search_options,
+    undefined,
+    schedule.id,
+    schedule.tags
+  );
+
+  await db.updateSchedule(schedule.id, { last_run_at: now.toISOString(), last_job_id: job.id });
+  console.log('📅 Scheduled job queued:', { scheduleId: schedule.id, jobId: job.id });
+  return job;
+}
+
+// Turns every due schedule into a pending job. Each schedule's next run is claimed before its job
+// is created, so two workers never queue the same run; a run whose job could not be created is
+// skipped rather than repeated. Returns the number of jobs queued.
+export async function materializeDueSchedules(db: DatabaseService, now = new Date()): Promise<number> {
+  const dueSchedules = await db.getDueSchedules(now);
+  let queued = 0;
+
+  for (const schedule of dueSchedules) {
+    if (!schedule.next_run_at) continue;
+
+    let nextRunAt: Date;
+    try {
+      nextRunAt = getRunAfterDue(schedule, new Date(schedule.next_run_at), now);
+    } catch (error) {
+      // Only a timing edited outside the app gets here; pausing stops it failing on every check
+      console.error('❌ Pausing schedule with invalid timing:', schedule.id, error);
+      await db.updateSchedule(schedule.id, { is_paused: true }).catch(pauseError =>
+        console.error('❌ Error pausing schedule:', pauseError)
+      );
+      continue;
+    }
+
+    try {
+      if (!await db.claimScheduleRun(schedule.id, schedule.next_run_at, nextRunAt)) {
+        continue;
+      }
+      await createScheduledJob(db, schedule, now);
+      queued++;
+    } catch (error) {
+      console.error('❌ Error queueing scheduled job:', schedule.id, error);
+    }
+  }
+
+  return queued;
+}
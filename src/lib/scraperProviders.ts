@@ -0,0 +1,446 @@
+import type { CommentScrapeOptions, LinkedInComment, LinkedInReaction, RunOptions, SearchScrapeOptions } from './apify';
+import {
+  COMMENT_ITEM_SCHEMA,
+  COMPANY_ITEM_SCHEMA,
+  PROFILE_ITEM_SCHEMA,
+  PROFILE_POST_ITEM_SCHEMA,
+  REACTION_ITEM_SCHEMA,
+  SEARCH_RESULT_ITEM_SCHEMA,
+  validateItem,
+  type ItemSchema
+} from './itemSchemas';
+import type { LinkedInCompany, ProfilePost } from './supabase';
+import { PROFILE_ACTOR_INPUT_FIELDS, type ProfileActorId } from '../../supabase/functions/_shared/profileActors.ts';
+
+// Scraping backends and the actors they can run. Every adapter maps its actor's output into the
+// canonical comment, profile, reaction, post, search result and company shapes, which are what
+// the database, DataTable and exports read.
+
+// Canonical profile: the field names of the original profile actor, kept as the stored format
+export interface CanonicalProfile {
+  linkedinUrl: string;
+  publicIdentifier?: string;
+  urn?: string;
+  firstName?: string;
+  lastName?: string;
+  fullName?: string;
+  headline?: string;
+  about?: string;
+  addressWithCountry?: string;
+  addressCountryOnly?: string;
+  addressWithoutCountry?: string;
+  connections?: number;
+  followers?: number;
+  jobTitle?: string;
+  companyName?: string;
+  companyLinkedin?: string;
+  companyIndustry?: string;
+  companySize?: string;
+  email?: string;
+  mobileNumber?: string;
+  profilePic?: string;
+  profilePicHighQuality?: string;
+  experiences?: { title?: string; subtitle?: string; caption?: string; metadata?: string; logo?: string }[];
+  educations?: { title?: string; subtitle?: string; caption?: string; logo?: string }[];
+  skills?: { title: string }[];
+  licenseAndCertificates?: { title?: string; subtitle?: string; caption?: string }[];
+  // Actor-specific extras are kept as they come
+  [key: string]: unknown;
+}
+
+// Canonical post of a profile: the shape stored in linkedin_profiles.recent_posts, plus the
+// profile it was posted by when the actor reports it
+export interface CanonicalProfilePost extends ProfilePost {
+  authorUrl?: string;
+}
+
+// Canonical people search result. Only the profile URL is kept: the profile is scraped next.
+export interface CanonicalSearchResult {
+  linkedinUrl: string;
+}
+
+// Canonical company: the columns of the companies table, with the raw item as company_data
+export type CanonicalCompany = Pick<
+  LinkedInCompany,
+  'linkedin_url' | 'name' | 'company_size' | 'industry' | 'website' | 'headquarters' | 'follower_count' | 'company_data'
+>;
+
+export interface ScraperProvider {
+  scrapePostComments(postUrls: string[], commentOptions?: CommentScrapeOptions, options?: RunOptions): Promise<string>;
+  scrapeProfiles(profileUrls: string[], options?: RunOptions): Promise<string>;
+  // Raw dataset items, as the actor wrote them
+  getDatasetItems(datasetId: string): Promise<unknown[]>;
+  getCommentItems(datasetId: string): Promise<IngestResult<LinkedInComment>>;
+  getProfileItems(datasetId: string): Promise<IngestResult<CanonicalProfile>>;
+}
+
+export interface RejectedItem {
+  // Raw item as the actor wrote it, so it can be re-ingested once the adapter or schema is fixed
+  item: unknown;
+  errors: string[];
+}
+
+export interface IngestResult<T> {
+  // Adapter that mapped the items; quarantined items are re-ingested with the same one
+  adapterId: string;
+  accepted: T[];
+  rejected: RejectedItem[];
+}
+
+// Checks a provider implementation against the interface while keeping its own extra methods;
+// `this` inside its methods is the full implementation
+export function defineScraperProvider<T extends ScraperProvider>(provider: T & ThisType<T>): T {
+  return provider;
+}
+
+export interface ActorAdapter<TInputOptions, TItem> {
+  id: string;
+  label: string;
+  // Apify actor ID or `username~actor-name`
+  actorId: string;
+  buildInput: (urls: string[], options: TInputOptions) => Record<string, unknown>;
+  // Returns null for items that can't be mapped, which are then quarantined
+  toCanonical: (item: unknown) => TItem | null;
+}
+
+export type CommentActorAdapter = ActorAdapter<CommentScrapeOptions, LinkedInComment>;
+// Profile actors must be listed in PROFILE_ACTOR_INPUT_FIELDS, which their runs are capped by
+export type ProfileActorAdapter = ActorAdapter<void, CanonicalProfile> & { actorId: ProfileActorId };
+export type ReactionActorAdapter = ActorAdapter<void, LinkedInReaction>;
+// Options are the number of posts to collect per profile
+export type ProfilePostsActorAdapter = ActorAdapter<number, CanonicalProfilePost>;
+// Takes a single search URL, kept whole: its query string may contain commas
+export type SearchActorAdapter = ActorAdapter<SearchScrapeOptions, CanonicalSearchResult>;
+export type CompanyActorAdapter = ActorAdapter<void, CanonicalCompany>;
+
+type RawItem = Record<string, unknown>;
+
+function isRawItem(value: unknown): value is RawItem {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Nested fields of raw items are read through these, so a field of an unexpected type reads as missing
+function asRawItem(value: unknown): RawItem {
+  return isRawItem(value) ? value : {};
+}
+
+function asRawItems(value: unknown): RawItem[] {
+  return Array.isArray(value) ? value.map(asRawItem) : [];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+export const COMMENT_ACTOR_ADAPTERS: CommentActorAdapter[] = [
+  {
+    id: 'harvestapi-post-comments',
+    label: 'HarvestAPI Post Comments',
+    actorId: 'ZI6ykbLlGS3APaPE8',
+    buildInput: (postUrls, commentOptions) => ({
+      posts: postUrls,
+      ...(commentOptions.maxComments && { maxItems: commentOptions.maxComments }),
+      ...(commentOptions.sortOrder && { sortOrder: commentOptions.sortOrder }),
+      ...(commentOptions.includeReplies !== undefined && { scrapeReplies: commentOptions.includeReplies }),
+      ...(commentOptions.postedAfter && { postedLimitDate: commentOptions.postedAfter })
+    }),
+    // Already in the canonical shape; the comment schema rejects the items that aren't
+    toCanonical: item => item as LinkedInComment
+  }
+];
+
+export const PROFILE_ACTOR_ADAPTERS: ProfileActorAdapter[] = [
+  {
+    id: 'dev-fusion-profile',
+    label: 'Dev Fusion Profile Scraper',
+    actorId: '2SyF0bVxmgGr8IVCZ',
+    buildInput: profileUrls => ({ [PROFILE_ACTOR_INPUT_FIELDS['2SyF0bVxmgGr8IVCZ']]: profileUrls }),
+    // Already in the canonical shape
+    toCanonical: item => (isRawItem(item) && item.linkedinUrl ? item as CanonicalProfile : null)
+  },
+  {
+    id: 'harvestapi-profile',
+    label: 'HarvestAPI Profile Scraper (no email)',
+    actorId: 'harvestapi~linkedin-profile-scraper',
+    buildInput: profileUrls => ({ [PROFILE_ACTOR_INPUT_FIELDS['harvestapi~linkedin-profile-scraper']]: profileUrls }),
+    toCanonical: fromHarvestApiProfile
+  }
+];
+
+function fromHarvestApiProfile(item: unknown): CanonicalProfile | null {
+  if (!isRawItem(item)) return null;
+
+  const publicIdentifier = asString(item.publicIdentifier);
+  const linkedinUrl = asString(item.linkedinUrl) || (publicIdentifier && `https://www.linkedin.com/in/${publicIdentifier}`);
+  if (!linkedinUrl) return null;
+
+  const experience = asRawItems(item.experience);
+  const currentPosition = asRawItems(item.currentPosition)[0] || experience[0] || {};
+  const location = asRawItem(item.location);
+  const firstName = asString(item.firstName);
+  const lastName = asString(item.lastName);
+
+  return {
+    ...item,
+    linkedinUrl,
+    urn: asString(item.id),
+    firstName,
+    lastName,
+    fullName: [firstName, lastName].filter(Boolean).join(' '),
+    headline: asString(item.headline),
+    about: asString(item.about),
+    addressWithCountry: asString(location.linkedinText),
+    addressCountryOnly: asString(asRawItem(location.parsed).country),
+    connections: asNumber(item.connectionsCount),
+    followers: asNumber(item.followerCount),
+    jobTitle: asString(currentPosition.position),
+    companyName: asString(currentPosition.companyName),
+    companyLinkedin: asString(currentPosition.companyLinkedinUrl),
+    email: asString(asRawItems(item.emails)[0]?.email),
+    profilePic: asString(item.photo),
+    profilePicHighQuality: asString(item.photo),
+    experiences: experience.map(entry => ({
+      title: asString(entry.position),
+      subtitle: [asString(entry.companyName), asString(entry.employmentType)].filter(Boolean).join(' · '),
+      caption: asString(entry.duration),
+      metadata: asString(entry.location),
+      logo: asString(entry.companyLogo)
+    })),
+    educations: asRawItems(item.education).map(education => ({
+      title: asString(education.schoolName),
+      subtitle: [asString(education.degree), asString(education.fieldOfStudy)].filter(Boolean).join(', '),
+      caption: asString(education.period),
+      logo: asString(education.schoolLogo)
+    })),
+    skills: asRawItems(item.skills).map(skill => ({ title: asString(skill.name) || '' })),
+    licenseAndCertificates: asRawItems(item.certifications).map(certification => ({
+      title: asString(certification.title),
+      subtitle: asString(certification.issuedBy),
+      caption: asString(certification.issuedAt)
+    }))
+  };
+}
+
+export const REACTION_ACTOR_ADAPTERS: ReactionActorAdapter[] = [
+  {
+    id: 'harvestapi-post-reactions',
+    label: 'HarvestAPI Post Reactions',
+    actorId: 'harvestapi~linkedin-post-reactions',
+    buildInput: postUrls => ({ posts: postUrls }),
+    // Already in the canonical shape
+    toCanonical: item => (isRawItem(item) ? item as unknown as LinkedInReaction : null)
+  }
+];
+
+export const PROFILE_POSTS_ACTOR_ADAPTERS: ProfilePostsActorAdapter[] = [
+  {
+    id: 'harvestapi-profile-posts',
+    label: 'HarvestAPI Profile Posts',
+    actorId: 'harvestapi~linkedin-profile-posts',
+    buildInput: (profileUrls, maxPosts) => ({ profileUrls, maxPosts }),
+    toCanonical: fromHarvestApiProfilePost
+  }
+];
+
+export const SEARCH_ACTOR_ADAPTERS: SearchActorAdapter[] = [
+  {
+    id: 'harvestapi-profile-search',
+    label: 'HarvestAPI Profile Search',
+    actorId: 'harvestapi~linkedin-profile-search',
+    buildInput: ([searchUrl], searchOptions) => ({
+      searchUrl,
+      ...(searchOptions.maxResults && { maxItems: searchOptions.maxResults })
+    }),
+    toCanonical: item => {
+      const raw = asRawItem(item);
+      const linkedinUrl = asString(raw.linkedinUrl) || asString(raw.profileUrl) || asString(raw.url);
+      return linkedinUrl ? { linkedinUrl } : null;
+    }
+  }
+];
+
+export const COMPANY_ACTOR_ADAPTERS: CompanyActorAdapter[] = [
+  {
+    id: 'harvestapi-company',
+    label: 'HarvestAPI Company Scraper',
+    actorId: 'harvestapi~linkedin-company',
+    buildInput: companyUrls => ({ companies: companyUrls }),
+    toCanonical: fromHarvestApiCompany
+  }
+];
+
+function fromHarvestApiProfilePost(item: unknown): CanonicalProfilePost | null {
+  if (!isRawItem(item)) return null;
+
+  const url = asString(item.linkedinUrl) || asString(item.url) || asString(item.postUrl);
+  if (!url) return null;
+
+  const engagement = asRawItem(item.engagement ?? item.stats);
+  const postedAt = asRawItem(item.postedAt);
+  const timestamp = asNumber(postedAt.timestamp);
+
+  return {
+    url,
+    text: asString(item.content) || asString(item.text) || '',
+    postedAt: asString(postedAt.date) || (timestamp !== undefined ? new Date(timestamp).toISOString() : undefined) || asString(item.postedDate),
+    likes: asNumber(engagement.likes) ?? asNumber(engagement.reactions) ?? asNumber(item.numLikes) ?? 0,
+    comments: asNumber(engagement.comments) ?? asNumber(item.numComments) ?? 0,
+    shares: asNumber(engagement.shares) ?? asNumber(item.numShares) ?? 0,
+    authorUrl: asString(asRawItem(item.author).linkedinUrl) || asString(item.authorProfileUrl) || asString(asRawItem(item.query).profileUrl)
+  };
+}
+
+function fromHarvestApiCompany(item: unknown): CanonicalCompany | null {
+  if (!isRawItem(item)) return null;
+
+  const linkedinUrl = asString(item.linkedinUrl) || asString(item.url);
+  if (!linkedinUrl) return null;
+
+  const headquarter = item.headquarter ?? item.headquarters;
+  const address = asRawItem(headquarter);
+  const employeeRange = isRawItem(item.employeeCountRange) ? item.employeeCountRange : null;
+  const employeeCount = asNumber(item.employeeCount);
+
+  return {
+    linkedin_url: linkedinUrl,
+    name: asString(item.name),
+    company_size: employeeRange
+      ? `${asNumber(employeeRange.start) ?? ''}-${asNumber(employeeRange.end) ?? ''}`
+      : asString(item.companySize) || employeeCount?.toString(),
+    industry: asString(item.industry) || (Array.isArray(item.industries) ? asString(item.industries[0]) : undefined),
+    website: asString(item.website) || asString(item.websiteUrl),
+    headquarters: typeof headquarter === 'string'
+      ? headquarter
+      : [asString(address.city), asString(address.geographicArea), asString(address.country)].filter(Boolean).join(', ') || undefined,
+    follower_count: asNumber(item.followerCount),
+    company_data: item
+  };
+}
+
+export const COMMENT_ITEM_KIND = 'comment';
+export const PROFILE_ITEM_KIND = 'profile';
+export const REACTION_ITEM_KIND = 'reaction';
+export const PROFILE_POST_ITEM_KIND = 'profile_post';
+export const SEARCH_RESULT_ITEM_KIND = 'search_result';
+export const COMPANY_ITEM_KIND = 'company';
+export type ItemKind =
+  | typeof COMMENT_ITEM_KIND
+  | typeof PROFILE_ITEM_KIND
+  | typeof REACTION_ITEM_KIND
+  | typeof PROFILE_POST_ITEM_KIND
+  | typeof SEARCH_RESULT_ITEM_KIND
+  | typeof COMPANY_ITEM_KIND;
+
+export type CanonicalItem =
+  | LinkedInComment
+  | CanonicalProfile
+  | LinkedInReaction
+  | CanonicalProfilePost
+  | CanonicalSearchResult
+  | CanonicalCompany;
+
+const ITEM_SCHEMAS: Record<ItemKind, ItemSchema> = {
+  comment: COMMENT_ITEM_SCHEMA,
+  profile: PROFILE_ITEM_SCHEMA,
+  reaction: REACTION_ITEM_SCHEMA,
+  profile_post: PROFILE_POST_ITEM_SCHEMA,
+  search_result: SEARCH_RESULT_ITEM_SCHEMA,
+  company: COMPANY_ITEM_SCHEMA
+};
+
+// Adapters whose items can be quarantined under each kind, for re-ingesting
+const ITEM_ADAPTERS: Record<ItemKind, Pick<ActorAdapter<never, CanonicalItem>, 'id' | 'toCanonical'>[]> = {
+  comment: COMMENT_ACTOR_ADAPTERS,
+  profile: PROFILE_ACTOR_ADAPTERS,
+  reaction: REACTION_ACTOR_ADAPTERS,
+  profile_post: PROFILE_POSTS_ACTOR_ADAPTERS,
+  search_result: SEARCH_ACTOR_ADAPTERS,
+  company: COMPANY_ACTOR_ADAPTERS
+};
+
+// Maps raw items with the adapter and checks the result against the kind's schema. Items the
+// adapter can't map, or that don't match the schema, come back as rejected with their reasons.
+export function ingestItems<T>(adapter: Pick<ActorAdapter<never, T>, 'id' | 'toCanonical'>, kind: ItemKind, items: unknown[]): IngestResult<T> {
+  const result: IngestResult<T> = { adapterId: adapter.id, accepted: [], rejected: [] };
+
+  for (const item of items) {
+    let canonical: T | null;
+    try {
+      canonical = adapter.toCanonical(item);
+    } catch (error) {
+      result.rejected.push({ item, errors: [`adapter ${adapter.id} failed: ${error instanceof Error ? error.message : 'Unknown error'}`] });
+      continue;
+    }
+
+    if (canonical === null) {
+      result.rejected.push({ item, errors: [`adapter ${adapter.id} could not map the item`] });
+      continue;
+    }
+
+    const errors = validateItem(canonical, ITEM_SCHEMAS[kind]);
+    if (errors.length > 0) {
+      result.rejected.push({ item, errors });
+    } else {
+      result.accepted.push(canonical);
+    }
+  }
+
+  if (result.rejected.length > 0) {
+    console.log('⚠️ Rejected', result.rejected.length, 'of', items.length, kind, 'items from', adapter.id);
+  }
+
+  return result;
+}
+
+// Adapter IDs a workspace picked for each kind of scrape; unset kinds use the first adapter
+export interface ActorRegistry {
+  comments?: string;
+  profiles?: string;
+  reactions?: string;
+  profilePosts?: string;
+  search?: string;
+  companies?: string;
+}
+
+export interface ResolvedActors {
+  comments: CommentActorAdapter;
+  profiles: ProfileActorAdapter;
+  reactions: ReactionActorAdapter;
+  profilePosts: ProfilePostsActorAdapter;
+  search: SearchActorAdapter;
+  companies: CompanyActorAdapter;
+}
+
+function findAdapter<T extends { id: string }>(adapters: T[], adapterId?: string): T {
+  return adapters.find(adapter => adapter.id === adapterId) || adapters[0];
+}
+
+export function resolveActorAdapters(registry: ActorRegistry = {}): ResolvedActors {
+  return {
+    comments: findAdapter(COMMENT_ACTOR_ADAPTERS, registry.comments),
+    profiles: findAdapter(PROFILE_ACTOR_ADAPTERS, registry.profiles),
+    reactions: findAdapter(REACTION_ACTOR_ADAPTERS, registry.reactions),
+    profilePosts: findAdapter(PROFILE_POSTS_ACTOR_ADAPTERS, registry.profilePosts),
+    search: findAdapter(SEARCH_ACTOR_ADAPTERS, registry.search),
+    companies: findAdapter(COMPANY_ACTOR_ADAPTERS, registry.companies)
+  };
+}
+
+// Runs a quarantined item through the adapter it came from and the kind's schema again
+export function reingestItem(kind: ItemKind, adapterId: string, item: unknown): IngestResult<CanonicalItem> {
+  const adapter = ITEM_ADAPTERS[kind].find(candidate => candidate.id === adapterId);
+  if (!adapter) {
+    return { adapterId, accepted: [], rejected: [{ item, errors: [`adapter ${adapterId} no longer exists`] }] };
+  }
+  return ingestItems(adapter, kind, [item]);
+}
+
+// Whether a run was started by one of the profile actors. Only exact actor IDs can match:
+// Apify reports the actor's ID even when it was started by name.
+export function isProfileActorId(actorId?: string): boolean {
+  return Boolean(actorId) && PROFILE_ACTOR_ADAPTERS.some(adapter => adapter.actorId === actorId);
+}
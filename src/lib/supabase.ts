@@ -1,4 +1,8 @@
 import { createClient } from '@supabase/supabase-js'
+import type { ApifyKeyHealth, CommentScrapeOptions, LinkedInComment, SearchScrapeOptions } from './apify'
+import type { ActorRegistry, ItemKind } from './scraperProviders'
+import type { KeyPoolMode } from './keyPool'
+import type { JobErrorCode } from './jobErrors'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -24,22 +28,38 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
 })
 
 // Database types
-export interface User {
+// Spending caps of a user or key; null or missing means no cap
+export interface BudgetCaps {
+  budget_profiles_per_day?: number | null;
+  budget_runs_per_month?: number | null;
+  budget_spend_usd_per_month?: number | null;
+}
+
+export interface User extends BudgetCaps {
   id: string;
   auth_user_id: string;
   username: string;
   email: string;
   full_name?: string;
+  actor_registry?: ActorRegistry;
+  key_pool_mode?: KeyPoolMode;
+  // Admins can see every user and key and raise their caps
+  is_admin?: boolean;
   created_at: string;
   updated_at: string;
 }
 
-export interface ApifyKey {
+export interface ApifyKey extends BudgetCaps {
   id: string;
   user_id: string;
   key_name: string;
-  api_key: string;
+  // The key itself is encrypted at rest and never returned to clients, see APIFY_KEY_COLUMNS
+  api_key_hint?: string;
   is_active: boolean;
+  // Last check against Apify's account endpoints
+  health_status?: ApifyKeyHealth | null;
+  // When the key last started an Apify run
+  last_used_at?: string;
   created_at: string;
   updated_at: string;
 }
@@ -52,21 +72,195 @@ export interface LinkedInProfile {
   last_updated: string;
   created_at: string;
   tags: string[];
+  company_key?: string;
+  recent_posts?: ProfilePost[];
+  posts_scraped_at?: string;
+}
+
+export interface ProfilePost {
+  url: string;
+  text: string;
+  postedAt?: string;
+  likes: number;
+  comments: number;
+  shares: number;
+}
+
+export interface LinkedInCompany {
+  id: string;
+  user_id: string;
+  linkedin_url: string;
+  company_key: string;
+  name?: string;
+  company_size?: string;
+  industry?: string;
+  website?: string;
+  headquarters?: string;
+  follower_count?: number;
+  company_data: Record<string, unknown>;
+  last_updated: string;
+  created_at: string;
+}
+
+export type ScrapingStage = 'starting' | 'searching_profiles' | 'scraping_comments' | 'scraping_reactions' | 'extracting_profiles' | 'scraping_profiles' | 'scraping_posts' | 'scraping_companies' | 'saving_data' | 'completed' | 'error';
+
+export interface ProfileChunk {
+  index: number;
+  urls: string[];
+  status: 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  attempts: number;
+  run_id?: string;
+  dataset_id?: string;
+  // Key the chunk's run was started with, when the job uses a key pool
+  apify_key_id?: string;
+  items_collected?: number;
+  results_count?: number;
+  error?: string;
+}
+
+// Input of a job as entered: post, profile or company URLs, or a single search URL
+export interface JobInputs {
+  urls: string[];
 }
 
 export interface ScrapingJob {
   id: string;
   user_id: string;
   apify_key_id?: string;
-  job_type: 'post_comments' | 'profile_details' | 'mixed';
+  job_type: 'post_comments' | 'post_reactions' | 'profile_details' | 'profile_posts' | 'search_results' | 'mixed' | 'company_details';
   input_url: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  // One entry per URL; input_url has them joined for display
+  inputs?: JobInputs | null;
+  // The job this one retries
+  parent_job_id?: string | null;
+  // The schedule that created the job
+  schedule_id?: string | null;
+  // Given to the profiles the job saves
+  tags?: string[] | null;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   results_count: number;
   error_message?: string;
+  // Structured cause of error_message, see jobErrors.ts
+  error_code?: JobErrorCode | null;
+  apify_run_id?: string;
+  apify_actor_id?: string;
+  apify_dataset_id?: string;
+  apify_run_status?: string;
+  comment_options?: CommentScrapeOptions;
+  search_options?: SearchScrapeOptions;
+  progress_stage?: ScrapingStage;
+  progress_percent?: number;
+  progress_message?: string;
+  items_collected?: number;
+  // Comment and profile items that passed validation on ingest, and those quarantined
+  items_accepted?: number;
+  items_rejected?: number;
+  // Final usage of each Apify run by run ID, and the totals over them
+  run_usage?: Record<string, RunUsage>;
+  compute_units?: number;
+  cost_usd?: number;
+  // Profiles served from the database instead of being scraped again
+  saved_api_calls?: number;
+  profile_chunks?: ProfileChunk[];
+  locked_by?: string;
+  locked_at?: string;
   created_at: string;
+  updated_at?: string;
   completed_at?: string;
 }
 
+// A job template run on a cron expression (5 fields, UTC) or every `interval_minutes`, exactly one
+// of the two. The background worker creates a job from it whenever next_run_at has passed.
+export interface JobSchedule {
+  id: string;
+  user_id: string;
+  apify_key_id?: string | null;
+  name: string;
+  job_type: ScrapingJob['job_type'];
+  inputs: JobInputs;
+  comment_options?: CommentScrapeOptions;
+  search_options?: SearchScrapeOptions;
+  tags: string[];
+  cron_expression?: string | null;
+  interval_minutes?: number | null;
+  is_paused: boolean;
+  next_run_at?: string | null;
+  last_run_at?: string | null;
+  last_job_id?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface RunUsage {
+  computeUnits: number;
+  usageUsd: number;
+  status: string;
+  // Key that served the run; unset on runs recorded before keys were stored per run
+  apifyKeyId?: string | null;
+}
+
+// Entry of the budget ledger: one per Apify run started with a user's key, written by the
+// apify-proxy function and the background worker only
+export interface ApifyRunRecord {
+  id: string;
+  user_id: string;
+  apify_key_id?: string | null;
+  // Profiles the run was asked to scrape
+  profiles: number;
+  status?: string | null;
+  compute_units: number;
+  usage_usd: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Actor output that failed validation on ingest, kept until it is re-ingested
+export interface QuarantinedItem {
+  id: string;
+  user_id: string;
+  job_id?: string;
+  item_kind: ItemKind;
+  // Adapter the item is re-ingested with
+  adapter_id: string;
+  item: unknown;
+  errors: string[];
+  reingested_at?: string;
+  created_at: string;
+}
+
+export interface LinkedInPost {
+  id: string;
+  user_id: string;
+  post_urn: string;
+  post_url: string;
+  comments_count: number;
+  last_job_id?: string;
+  last_scraped_at: string;
+  created_at: string;
+}
+
+export interface PostComment {
+  id: string;
+  user_id: string;
+  post_urn: string | null;
+  commenter_url?: string;
+  comment_data: LinkedInComment;
+  commented_at?: string;
+  scraped_at: string;
+}
+
+export type JobResultKind = 'profile' | 'comment';
+
+// Links a job to a profile or comment it produced; result_id is the linkedin_profiles or post_comments id
+export interface JobResultLink {
+  job_id: string;
+  result_kind: JobResultKind;
+  result_id: string;
+  // Served from the database instead of being scraped
+  from_cache: boolean;
+  created_at: string;
+}
+
 // Auth helper functions
 export const getCurrentUser = async () => {
   try {
@@ -44,15 +44,86 @@ export function getFullDate(dateString: string): string {
   });
 }
 
+// Run costs are often fractions of a cent, so small amounts keep four decimals
+export function formatCostUsd(value: number): string {
+  return `$${value > 0 && value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+}
+
 export function validateLinkedInUrl(url: string): boolean {
-  const linkedInRegex = /^https?:\/\/(www\.)?linkedin\.com\/(in|posts|company)\/[a-zA-Z0-9\-_%.]+/;
+  const linkedInRegex = /^https?:\/\/(www\.)?linkedin\.com\/(in|posts|company|search)\/[a-zA-Z0-9\-_%.]+/;
   return linkedInRegex.test(url);
 }
 
+// Numeric ID shared by a post's URL and the URLs of its comments
+export function getLinkedInActivityId(url: string): string | null {
+  const match = url.match(/(?:activity|share|ugcPost)[:-](\d{10,})/);
+  return match ? match[1] : null;
+}
+
+// Same normalization as the database's linkedin_url_key(): no scheme, www, query or trailing slash
+export function getLinkedInUrlKey(url: string): string {
+  return url
+    .toLowerCase()
+    .split('?')[0]
+    .replace(/^https?:\/\/(www\.)?/, '')
+    .replace(/\/+$/, '');
+}
+
+// Stable key for a post; URLs of the same post vary (slugs, tracking params), its activity ID doesn't
+export function getLinkedInPostUrn(url: string): string {
+  const activityId = getLinkedInActivityId(url);
+  return activityId ? `urn:li:activity:${activityId}` : url;
+}
+
 export function extractProfileUrlFromComment(commentData: any): string {
   return commentData.actor?.linkedinUrl || '';
 }
 
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
\ No newline at end of file
+// Resolves after `ms`, or as soon as `signal` aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    // Removed when the timer fires, so waits on a long-lived job signal don't pile up listeners
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Runs `fn` over all items with at most `limit` calls in flight, keeping results in input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext));
+  return results;
+}
@@ -1,3 +1,5 @@
+import type { LinkedInComment, LinkedInReaction } from '../lib/apify';
+
 export const exportData = (data: any[], format: string, filename: string = 'linkedin_data', selectedProfiles?: Set<string>) => {
   // Filter data if selectedProfiles is provided
   let exportData = data;
@@ -109,10 +111,43 @@ const exportToCSV = (data: any[], filename: string) => {
     };
   });
 
-  const headers = Object.keys(flattenedData[0]);
+  writeCSV(flattenedData, filename);
+};
+
+// Comments and reactions, one row each with the person who wrote them
+type ExportedEngagement = Pick<LinkedInComment, 'id' | 'actor'> &
+  Partial<Pick<LinkedInComment, 'postUrl' | 'linkedinUrl' | 'commentary' | 'createdAt'>> &
+  Partial<Pick<LinkedInReaction, 'reactionType'>>;
+
+export const exportComments = (comments: ExportedEngagement[], format: string, filename: string = 'comment_results') => {
+  if (format === 'json') {
+    exportToJSON(comments, filename);
+    return;
+  }
+  if (format !== 'csv' && format !== 'xlsx') {
+    console.error('Unsupported export format:', format);
+    return;
+  }
+  if (comments.length === 0) return;
+
+  writeCSV(comments.map(comment => ({
+    id: comment.id,
+    post_url: comment.postUrl || '',
+    comment_url: comment.linkedinUrl || '',
+    reaction_type: comment.reactionType || '',
+    commentary: comment.commentary || '',
+    created_at: comment.createdAt || '',
+    author_name: comment.actor?.name || '',
+    author_position: comment.actor?.position || '',
+    author_linkedin_url: comment.actor?.linkedinUrl || ''
+  })), filename);
+};
+
+const writeCSV = (rows: Record<string, unknown>[], filename: string) => {
+  const headers = Object.keys(rows[0]);
   const csvContent = [
     headers.join(','),
-    ...flattenedData.map(row => 
+    ...rows.map(row => 
       headers.map(header => {
         const value = row[header];
         // Escape commas and quotes in CSV
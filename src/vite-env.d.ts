@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+// Clerk exposes its browser instance on window once ClerkProvider has loaded
+interface Window {
+  Clerk?: {
+    user?: unknown;
+    session?: {
+      getToken(options?: { template?: string }): Promise<string | null>;
+    } | null;
+  };
+}
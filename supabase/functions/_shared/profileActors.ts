@@ -0,0 +1,16 @@
+// Input field holding the profile URLs of each profile actor. The app's profile adapters build
+// their input from it and the apify-proxy function counts the profiles of a run from it, so a
+// profile actor added here is held to the profiles/day cap without changing the function.
+// Shared by both, so it must not import anything.
+export const PROFILE_ACTOR_INPUT_FIELDS = {
+  '2SyF0bVxmgGr8IVCZ': 'profileUrls',
+  'harvestapi~linkedin-profile-scraper': 'urls'
+} as const;
+
+export type ProfileActorId = keyof typeof PROFILE_ACTOR_INPUT_FIELDS;
+
+export function getProfileActorInputField(actorId: string): string | undefined {
+  return Object.prototype.hasOwnProperty.call(PROFILE_ACTOR_INPUT_FIELDS, actorId)
+    ? PROFILE_ACTOR_INPUT_FIELDS[actorId as ProfileActorId]
+    : undefined;
+}
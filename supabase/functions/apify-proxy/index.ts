@@ -0,0 +1,208 @@
+// Forwards the browser's Apify calls with the user's decrypted key, so keys never reach the
+// client. The caller sends its Clerk JWT and the id of the key to use in `x-apify-key-id`;
+// the key is only used if it belongs to the caller. Runs are checked against the budget caps
+// before they start and recorded in the apify_runs ledger, which the caps are counted from.
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { getProfileActorInputField } from '../_shared/profileActors.ts';
+
+const APIFY_BASE_URL = (Deno.env.get('APIFY_BASE_URL') || 'https://api.apify.com').replace(/\/+$/, '');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-apify-key-id',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  // Lets the browser client honour Apify's rate limiting
+  'Access-Control-Expose-Headers': 'Retry-After'
+};
+
+// The Apify endpoints the app uses; anything else (deleting actors, reading other users' data
+// through the key...) is refused
+const ALLOWED_ROUTES: { method: string; pattern: RegExp }[] = [
+  { method: 'POST', pattern: /^\/v2\/acts\/[^/]+\/runs$/ },
+  { method: 'GET', pattern: /^\/v2\/actor-runs\/[^/]+$/ },
+  { method: 'POST', pattern: /^\/v2\/actor-runs\/[^/]+\/abort$/ },
+  { method: 'GET', pattern: /^\/v2\/datasets\/[^/]+$/ },
+  { method: 'GET', pattern: /^\/v2\/datasets\/[^/]+\/items$/ },
+  { method: 'GET', pattern: /^\/v2\/users\/me$/ },
+  { method: 'GET', pattern: /^\/v2\/users\/me\/limits$/ }
+];
+
+const START_RUN_ROUTE = /^\/v2\/acts\/([^/]+)\/runs$/;
+// Status polls and aborts return the run with its usage so far
+const RUN_ROUTE = /^\/v2\/actor-runs\/[^/]+(\/abort)?$/;
+
+interface ApifyRun {
+  id: string;
+  status: string;
+  stats?: { computeUnits?: number };
+  usageTotalUsd?: number;
+}
+
+// Runs of actors that aren't profile actors count no profiles towards the caps
+function countRunProfiles(actorId: string, body: string): number {
+  const field = getProfileActorInputField(decodeURIComponent(actorId));
+  if (!field) return 0;
+
+  try {
+    const urls = JSON.parse(body)[field];
+    return Array.isArray(urls) ? urls.length : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function parseRun(text: string): ApifyRun | undefined {
+  try {
+    return JSON.parse(text)?.data;
+  } catch {
+    return undefined;
+  }
+}
+
+function toRunUsage(run: ApifyRun) {
+  return {
+    status: run.status,
+    compute_units: run.stats?.computeUnits || 0,
+    usage_usd: run.usageTotalUsd || 0
+  };
+}
+
+// Not fatal: the run already started, and failing the request would only hide it from the app
+async function recordRun(
+  serviceClient: SupabaseClient,
+  run: ApifyRun,
+  owner: { userId: string; apifyKeyId: string },
+  profiles?: number
+): Promise<void> {
+  const { error } = profiles === undefined
+    ? await serviceClient
+      .from('apify_runs')
+      .update(toRunUsage(run))
+      .eq('id', run.id)
+      .eq('user_id', owner.userId)
+    : await serviceClient
+      .from('apify_runs')
+      .insert({ id: run.id, user_id: owner.userId, apify_key_id: owner.apifyKeyId, profiles, ...toRunUsage(run) });
+
+  if (error) {
+    console.error('❌ Error recording Apify run:', run.id, error);
+  }
+}
+
+// Clerk user ID of the caller; the JWT itself was already verified by the functions gateway
+function getJwtSubject(authorization: string): string | undefined {
+  try {
+    const payload = authorization.replace(/^Bearer\s+/i, '').split('.')[1];
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/'))).sub;
+  } catch {
+    return undefined;
+  }
+}
+
+// Same error shape as Apify, so the app reports proxy errors like API errors
+function sendError(status: number, type: string, message: string): Response {
+  return new Response(JSON.stringify({ error: { type, message } }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const apifyPath = url.pathname.replace(/^.*?\/apify-proxy/, '') || '/';
+    if (!ALLOWED_ROUTES.some(route => route.method === req.method && route.pattern.test(apifyPath))) {
+      return sendError(403, 'proxy-route-not-allowed', `${req.method} ${apifyPath} is not allowed through the proxy`);
+    }
+
+    const authorization = req.headers.get('Authorization');
+    const apifyKeyId = req.headers.get('x-apify-key-id');
+    const authUserId = authorization ? getJwtSubject(authorization) : undefined;
+    if (!authorization || !authUserId || !apifyKeyId) {
+      return sendError(401, 'proxy-unauthorized', 'Missing Authorization or x-apify-key-id header');
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+    // Queried as the caller, so RLS applies too. Admins can see every key, hence the owner check.
+    const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authorization } }
+    });
+    const { data: ownKey, error: ownKeyError } = await callerClient
+      .from('apify_keys')
+      .select('id, user_id, users!inner(auth_user_id)')
+      .eq('id', apifyKeyId)
+      .eq('users.auth_user_id', authUserId)
+      .maybeSingle();
+
+    if (ownKeyError || !ownKey) {
+      return sendError(403, 'proxy-key-not-found', 'The API key does not exist or does not belong to you');
+    }
+
+    const serviceClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+      auth: { persistSession: false }
+    });
+    const { data: apiKey, error: secretError } = await serviceClient
+      .rpc('get_apify_key_secret', { key_id: apifyKeyId, owner_id: ownKey.user_id });
+
+    if (secretError || !apiKey) {
+      console.error('❌ Error decrypting Apify key:', secretError);
+      return sendError(500, 'proxy-key-unavailable', 'The API key could not be read');
+    }
+
+    const body = req.method === 'POST' ? await req.text() : undefined;
+    const owner = { userId: ownKey.user_id, apifyKeyId };
+
+    // The app checks the caps itself; this catches runs it would have let through anyway
+    const startRun = req.method === 'POST' ? START_RUN_ROUTE.exec(apifyPath) : null;
+    const runProfiles = startRun ? countRunProfiles(startRun[1], body || '') : 0;
+    if (startRun) {
+      const { data: violation, error: budgetError } = await serviceClient
+        .rpc('find_run_budget_violation', { owner_id: owner.userId, key_id: apifyKeyId, run_profiles: runProfiles });
+
+      if (budgetError) {
+        console.error('❌ Error checking budget caps:', budgetError);
+        return sendError(500, 'proxy-budget-unavailable', 'The budget caps could not be checked');
+      }
+      if (violation) {
+        console.warn('⚠️ Budget cap reached:', { ...owner, violation });
+        return sendError(402, 'budget-exceeded', `${violation} Ask an admin to raise the cap.`);
+      }
+    }
+
+    const response = await fetch(`${APIFY_BASE_URL}${apifyPath}${url.search}`, {
+      method: req.method,
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': req.headers.get('Content-Type') || 'application/json'
+      },
+      body
+    });
+
+    // Passed on so the app can back off when Apify rate-limits the key
+    const headers = new Headers(corsHeaders);
+    for (const name of ['Content-Type', 'Retry-After']) {
+      const value = response.headers.get(name);
+      if (value) headers.set(name, value);
+    }
+
+    // Run responses are small, so they are read here to keep the ledger up to date
+    if (response.ok && (startRun || RUN_ROUTE.test(apifyPath))) {
+      const text = await response.text();
+      const run = parseRun(text);
+      if (run?.id) {
+        await recordRun(serviceClient, run, owner, startRun ? runProfiles : undefined);
+      }
+      return new Response(text, { status: response.status, headers });
+    }
+
+    return new Response(response.body, { status: response.status, headers });
+  } catch (error) {
+    console.error('❌ Apify proxy error:', error);
+    return sendError(502, 'proxy-error', error instanceof Error ? error.message : 'Unknown error');
+  }
+});
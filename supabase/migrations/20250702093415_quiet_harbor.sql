@@ -0,0 +1,19 @@
+/*
+  # Track Apify runs on scraping jobs
+
+  1. Changes
+    - `scraping_jobs.apify_run_id` - ID of the Apify actor run currently serving the job
+    - `scraping_jobs.apify_actor_id` - actor that the run belongs to (comments or profiles)
+    - `scraping_jobs.apify_dataset_id` - default dataset of that run
+
+  2. Purpose
+    - Unfinished jobs can re-attach to their Apify run after a page reload
+      instead of staying `running` forever
+*/
+
+ALTER TABLE public.scraping_jobs
+  ADD COLUMN IF NOT EXISTS apify_run_id text,
+  ADD COLUMN IF NOT EXISTS apify_actor_id text,
+  ADD COLUMN IF NOT EXISTS apify_dataset_id text;
+
+CREATE INDEX IF NOT EXISTS idx_scraping_jobs_apify_run_id ON public.scraping_jobs(apify_run_id);
@@ -0,0 +1,38 @@
+/*
+  # Live progress on scraping jobs
+
+  1. Changes
+    - `scraping_jobs.progress_stage` - current stage as shown in the scraper progress view
+    - `scraping_jobs.progress_percent` - 0-100 progress within the job
+    - `scraping_jobs.progress_message` - human readable description of the current step
+    - `scraping_jobs.items_collected` - dataset items the active Apify run has produced so far
+    - `scraping_jobs.apify_run_status` - last status reported by Apify for the active run
+    - `scraping_jobs.updated_at` - maintained by trigger
+
+  2. Realtime
+    - `scraping_jobs` is added to the `supabase_realtime` publication so any tab
+      or teammate can watch a job without polling
+*/
+
+ALTER TABLE public.scraping_jobs
+  ADD COLUMN IF NOT EXISTS progress_stage text DEFAULT 'starting',
+  ADD COLUMN IF NOT EXISTS progress_percent integer DEFAULT 0 CHECK (progress_percent BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS progress_message text,
+  ADD COLUMN IF NOT EXISTS items_collected integer DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS apify_run_status text,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+DROP TRIGGER IF EXISTS update_scraping_jobs_updated_at ON public.scraping_jobs;
+CREATE TRIGGER update_scraping_jobs_updated_at
+  BEFORE UPDATE ON public.scraping_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'scraping_jobs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.scraping_jobs;
+  END IF;
+END $$;
@@ -0,0 +1,45 @@
+/*
+  # Background worker job queue
+
+  1. Changes
+    - `scraping_jobs.locked_by` - ID of the worker that claimed the job
+    - `scraping_jobs.locked_at` - when the job was claimed
+    - Partial index on pending jobs for the claim query
+
+  2. Functions
+    - `claim_scraping_job(worker_id)` atomically moves the oldest pending job to
+      `running` for the given worker. `FOR UPDATE SKIP LOCKED` guarantees two
+      workers polling at the same time never receive the same job.
+    - Only the service role (used by the worker) may call it
+*/
+
+ALTER TABLE public.scraping_jobs
+  ADD COLUMN IF NOT EXISTS locked_by text,
+  ADD COLUMN IF NOT EXISTS locked_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_scraping_jobs_pending
+  ON public.scraping_jobs(created_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_scraping_jobs_locked_by ON public.scraping_jobs(locked_by);
+
+CREATE OR REPLACE FUNCTION public.claim_scraping_job(worker_id text)
+RETURNS SETOF public.scraping_jobs AS $$
+  UPDATE public.scraping_jobs
+  SET status = 'running',
+      locked_by = worker_id,
+      locked_at = now()
+  WHERE id = (
+    SELECT id
+    FROM public.scraping_jobs
+    WHERE status = 'pending'
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER
+SET search_path = public, pg_temp;
+
+REVOKE ALL ON FUNCTION public.claim_scraping_job(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_scraping_job(text) TO service_role;
@@ -0,0 +1,16 @@
+/*
+  # Chunked profile scraping
+
+  1. Changes
+    - `scraping_jobs.profile_chunks` - plan and state of the profile scraping chunks of a job.
+      Each entry holds the chunk's URLs, status, attempts, Apify run and dataset IDs,
+      number of saved profiles and the last error.
+
+  2. Purpose
+    - Large URL lists are scraped in chunks that are saved as soon as they finish
+    - Failed chunks are retried on their own and never fail the whole job
+    - Interrupted jobs resume only the chunks that did not finish
+*/
+
+ALTER TABLE public.scraping_jobs
+  ADD COLUMN IF NOT EXISTS profile_chunks jsonb DEFAULT '[]'::jsonb;
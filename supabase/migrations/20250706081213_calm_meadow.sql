@@ -0,0 +1,13 @@
+/*
+  # Comment scraping options
+
+  1. Changes
+    - `scraping_jobs.comment_options` - actor options used for the post comments run
+      (maximum comments, sort order, replies, date cutoff)
+
+  2. Purpose
+    - Re-runs of a job use the same settings as the original run
+*/
+
+ALTER TABLE public.scraping_jobs
+  ADD COLUMN IF NOT EXISTS comment_options jsonb DEFAULT '{}'::jsonb;
@@ -0,0 +1,94 @@
+/*
+  # Scraped posts and comments
+
+  1. New Tables
+    - `posts` - every LinkedIn post whose comments were scraped, keyed by its activity URN
+    - `post_comments` - comments of those posts, keyed by the LinkedIn comment ID
+
+  2. Security
+    - RLS enabled; like profiles, all authenticated users can read posts and comments
+    - Users can only insert and update rows they own
+
+  3. Purpose
+    - Comment results survive a reload and can be reopened without another Apify run
+*/
+
+CREATE TABLE IF NOT EXISTS public.posts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES public.users(id) ON DELETE CASCADE,
+  post_urn text UNIQUE NOT NULL,
+  post_url text NOT NULL,
+  comments_count integer DEFAULT 0,
+  last_job_id uuid REFERENCES public.scraping_jobs(id) ON DELETE SET NULL,
+  last_scraped_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.post_comments (
+  id text PRIMARY KEY, -- LinkedIn comment ID
+  user_id uuid REFERENCES public.users(id) ON DELETE CASCADE,
+  post_urn text REFERENCES public.posts(post_urn) ON DELETE CASCADE,
+  commenter_url text,
+  comment_data jsonb DEFAULT '{}'::jsonb NOT NULL,
+  commented_at timestamptz,
+  scraped_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_posts_user_id ON public.posts(user_id);
+CREATE INDEX IF NOT EXISTS idx_posts_last_scraped ON public.posts(last_scraped_at);
+CREATE INDEX IF NOT EXISTS idx_post_comments_post_urn ON public.post_comments(post_urn);
+CREATE INDEX IF NOT EXISTS idx_post_comments_commenter ON public.post_comments(commenter_url);
+
+ALTER TABLE public.posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.post_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read all posts"
+  ON public.posts
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can insert posts"
+  ON public.posts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id IN (
+    SELECT id FROM public.users 
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+CREATE POLICY "Users can update posts they own"
+  ON public.posts
+  FOR UPDATE
+  TO authenticated
+  USING (user_id IN (
+    SELECT id FROM public.users 
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+CREATE POLICY "Users can read all post comments"
+  ON public.post_comments
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can insert post comments"
+  ON public.post_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id IN (
+    SELECT id FROM public.users 
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+CREATE POLICY "Users can update post comments they own"
+  ON public.post_comments
+  FOR UPDATE
+  TO authenticated
+  USING (user_id IN (
+    SELECT id FROM public.users 
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+GRANT ALL ON public.posts TO anon, authenticated;
+GRANT ALL ON public.post_comments TO anon, authenticated;
@@ -0,0 +1,79 @@
+/*
+  # Company page scraping
+
+  1. New Tables
+    - `companies` - scraped LinkedIn company pages with size, industry, website,
+      headquarters and follower count; the full actor output is kept in `company_data`
+
+  2. Changes
+    - `scraping_jobs.job_type` accepts `company_details`
+    - `linkedin_url_key(url)` - normalizes a LinkedIn URL (scheme, www, query and trailing slash)
+    - `companies.company_key` and `linkedin_profiles.company_key` - generated from the company URL
+      and the profile's `companyLinkedin` field, so profiles join to their company
+
+  3. Security
+    - RLS enabled; like profiles, all authenticated users can read companies
+    - Users can only insert and update companies they own
+*/
+
+CREATE OR REPLACE FUNCTION public.linkedin_url_key(url text)
+RETURNS text AS $$
+  SELECT NULLIF(rtrim(regexp_replace(split_part(lower(url), '?', 1), '^https?://(www\.)?', ''), '/'), '')
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE public.scraping_jobs DROP CONSTRAINT IF EXISTS scraping_jobs_job_type_check;
+ALTER TABLE public.scraping_jobs
+  ADD CONSTRAINT scraping_jobs_job_type_check
+  CHECK (job_type = ANY (ARRAY['post_comments'::text, 'profile_details'::text, 'mixed'::text, 'company_details'::text]));
+
+CREATE TABLE IF NOT EXISTS public.companies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES public.users(id) ON DELETE CASCADE,
+  linkedin_url text UNIQUE NOT NULL,
+  company_key text GENERATED ALWAYS AS (public.linkedin_url_key(linkedin_url)) STORED,
+  name text,
+  company_size text,
+  industry text,
+  website text,
+  headquarters text,
+  follower_count integer,
+  company_data jsonb DEFAULT '{}'::jsonb NOT NULL,
+  last_updated timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.linkedin_profiles
+  ADD COLUMN IF NOT EXISTS company_key text
+  GENERATED ALWAYS AS (public.linkedin_url_key(profile_data ->> 'companyLinkedin')) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_companies_user_id ON public.companies(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_companies_company_key ON public.companies(company_key);
+CREATE INDEX IF NOT EXISTS idx_linkedin_profiles_company_key ON public.linkedin_profiles(company_key);
+
+ALTER TABLE public.companies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read all companies"
+  ON public.companies
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can insert companies"
+  ON public.companies
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id IN (
+    SELECT id FROM public.users 
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+CREATE POLICY "Users can update companies they own"
+  ON public.companies
+  FOR UPDATE
+  TO authenticated
+  USING (user_id IN (
+    SELECT id FROM public.users 
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+GRANT ALL ON public.companies TO anon, authenticated;
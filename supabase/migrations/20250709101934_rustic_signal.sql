@@ -0,0 +1,11 @@
+/*
+  # Post reactions scraping
+
+  1. Changes
+    - `scraping_jobs.job_type` accepts `post_reactions`
+*/
+
+ALTER TABLE public.scraping_jobs DROP CONSTRAINT IF EXISTS scraping_jobs_job_type_check;
+ALTER TABLE public.scraping_jobs
+  ADD CONSTRAINT scraping_jobs_job_type_check
+  CHECK (job_type = ANY (ARRAY['post_comments'::text, 'post_reactions'::text, 'profile_details'::text, 'mixed'::text, 'company_details'::text]));
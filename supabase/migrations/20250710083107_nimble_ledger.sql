@@ -0,0 +1,21 @@
+/*
+  # Recent posts of profiles
+
+  1. Changes
+    - `scraping_jobs.job_type` accepts `profile_posts`
+    - `linkedin_profiles.recent_posts` - the person's recent posts (URL, text, date, likes,
+      comments and shares) as collected by the last `profile_posts` job
+    - `linkedin_profiles.posts_scraped_at` - when those posts were collected
+
+  2. Notes
+    - Kept apart from `profile_data` so re-scraping the profile does not drop its posts
+*/
+
+ALTER TABLE public.scraping_jobs DROP CONSTRAINT IF EXISTS scraping_jobs_job_type_check;
+ALTER TABLE public.scraping_jobs
+  ADD CONSTRAINT scraping_jobs_job_type_check
+  CHECK (job_type = ANY (ARRAY['post_comments'::text, 'post_reactions'::text, 'profile_details'::text, 'profile_posts'::text, 'mixed'::text, 'company_details'::text]));
+
+ALTER TABLE public.linkedin_profiles
+  ADD COLUMN IF NOT EXISTS recent_posts jsonb DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS posts_scraped_at timestamptz;
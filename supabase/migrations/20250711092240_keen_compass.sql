@@ -0,0 +1,16 @@
+/*
+  # People search scraping
+
+  1. Changes
+    - `scraping_jobs.job_type` accepts `search_results`
+    - `scraping_jobs.search_options` - settings of a people search job (result cap), stored so
+      background workers run the search the same way as the browser
+*/
+
+ALTER TABLE public.scraping_jobs DROP CONSTRAINT IF EXISTS scraping_jobs_job_type_check;
+ALTER TABLE public.scraping_jobs
+  ADD CONSTRAINT scraping_jobs_job_type_check
+  CHECK (job_type = ANY (ARRAY['post_comments'::text, 'post_reactions'::text, 'profile_details'::text, 'profile_posts'::text, 'search_results'::text, 'mixed'::text, 'company_details'::text]));
+
+ALTER TABLE public.scraping_jobs
+  ADD COLUMN IF NOT EXISTS search_options jsonb DEFAULT '{}'::jsonb;
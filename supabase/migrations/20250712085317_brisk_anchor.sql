@@ -0,0 +1,15 @@
+/*
+  # Actor registry per workspace
+
+  1. Changes
+    - `users.actor_registry` - adapter chosen for each kind of scrape, e.g.
+      `{"comments": "harvestapi-post-comments", "profiles": "harvestapi-profile"}`.
+      Kinds left out use the default adapter.
+
+  2. Notes
+    - Adapter IDs are defined in the app (src/lib/scraperProviders.ts), so unknown IDs fall back
+      to the default instead of failing the job
+*/
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS actor_registry jsonb DEFAULT '{}'::jsonb NOT NULL;
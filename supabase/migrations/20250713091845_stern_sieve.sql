@@ -0,0 +1,68 @@
+/*
+  # Quarantine for malformed actor output
+
+  1. New Tables
+    - `quarantined_items` - comment and profile items that failed validation on ingest, with the
+      raw item, the validation errors, the adapter that produced it and the job it came from
+
+  2. Changes
+    - `scraping_jobs.items_accepted` / `items_rejected` - how many comment and profile items of the
+      job passed validation and how many were quarantined
+
+  3. Security
+    - RLS enabled; users can only read and update their own quarantined items, since they hold raw
+      actor output
+
+  4. Notes
+    - `reingested_at` is set once an item passes validation on re-ingest; rows are kept for reference
+*/
+
+ALTER TABLE public.scraping_jobs
+  ADD COLUMN IF NOT EXISTS items_accepted integer DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS items_rejected integer DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.quarantined_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES public.users(id) ON DELETE CASCADE,
+  job_id uuid REFERENCES public.scraping_jobs(id) ON DELETE CASCADE,
+  item_kind text NOT NULL CHECK (item_kind = ANY (ARRAY['comment'::text, 'profile'::text])),
+  adapter_id text NOT NULL,
+  item jsonb NOT NULL,
+  errors text[] DEFAULT '{}'::text[] NOT NULL,
+  reingested_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quarantined_items_job_id ON public.quarantined_items(job_id);
+CREATE INDEX IF NOT EXISTS idx_quarantined_items_user_id ON public.quarantined_items(user_id);
+
+ALTER TABLE public.quarantined_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own quarantined items"
+  ON public.quarantined_items
+  FOR SELECT
+  TO authenticated
+  USING (user_id IN (
+    SELECT id FROM public.users 
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+CREATE POLICY "Users can insert own quarantined items"
+  ON public.quarantined_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id IN (
+    SELECT id FROM public.users 
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+CREATE POLICY "Users can update own quarantined items"
+  ON public.quarantined_items
+  FOR UPDATE
+  TO authenticated
+  USING (user_id IN (
+    SELECT id FROM public.users 
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+GRANT ALL ON public.quarantined_items TO anon, authenticated;
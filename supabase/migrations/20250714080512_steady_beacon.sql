@@ -0,0 +1,15 @@
+/*
+  # Apify key health
+
+  1. Changes
+    - `apify_keys.health_status` - result of the last check against Apify's account endpoints:
+      whether the key was accepted, the account's plan, monthly usage, spending cap and remaining
+      credit, and when it was checked
+
+  2. Notes
+    - Checked when a key is saved, on demand from the key list and before starting a job
+    - NULL for keys that were never checked
+*/
+
+ALTER TABLE public.apify_keys
+  ADD COLUMN IF NOT EXISTS health_status jsonb;
@@ -0,0 +1,20 @@
+/*
+  # Apify key pool
+
+  1. Changes
+    - `users.key_pool_mode` - `off` keeps each job on the key it started with; `round_robin` and
+      `least_used` move a job to another active key when Apify refuses the current one for
+      quota, auth or rate-limit reasons
+    - `apify_keys.last_used_at` - when the key last started an Apify run, for round-robin order
+
+  2. Notes
+    - `scraping_jobs.apify_key_id` now holds the key that served the job's latest run; profile
+      chunks record their own key in `profile_chunks`
+*/
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS key_pool_mode text DEFAULT 'off' NOT NULL
+  CHECK (key_pool_mode = ANY (ARRAY['off'::text, 'round_robin'::text, 'least_used'::text]));
+
+ALTER TABLE public.apify_keys
+  ADD COLUMN IF NOT EXISTS last_used_at timestamptz;
@@ -0,0 +1,96 @@
+/*
+  # Encrypt Apify keys at rest
+
+  1. Changes
+    - `apify_keys.api_key_encrypted` - the key, encrypted with pgcrypto; the passphrase lives in
+      Supabase Vault as `apify_key_encryption_secret` and is generated here when missing
+    - `apify_keys.api_key_hint` - last four characters, so the key list can tell keys apart
+    - `apify_keys.api_key` - write-only: a trigger encrypts whatever is written to it and clears it.
+      Existing keys are encrypted by this migration.
+
+  2. Security
+    - Clients (anon, authenticated) can no longer select `api_key` or `api_key_encrypted`; they can
+      add, rename, replace and delete their own keys as before
+    - `get_apify_key_secret(key_id)` decrypts a key and can only be executed by the service role:
+      the `apify-proxy` edge function and the background worker
+    - The proxy only uses a key for the user who owns it, so nobody else can spend or read it
+
+  3. Notes
+    - Browser code selects explicit columns (`APIFY_KEY_COLUMNS` in src/lib/database.ts);
+      `select('*')` is refused on this table
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'apify_key_encryption_secret') THEN
+    PERFORM vault.create_secret(
+      encode(extensions.gen_random_bytes(32), 'hex'),
+      'apify_key_encryption_secret',
+      'Passphrase for apify_keys.api_key_encrypted'
+    );
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.apify_key_encryption_secret()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'apify_key_encryption_secret';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apify_key_encryption_secret() FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE public.apify_keys
+  ADD COLUMN IF NOT EXISTS api_key_encrypted bytea,
+  ADD COLUMN IF NOT EXISTS api_key_hint text,
+  ALTER COLUMN api_key DROP NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.encrypt_apify_key()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.api_key IS NOT NULL THEN
+    NEW.api_key_encrypted := extensions.pgp_sym_encrypt(NEW.api_key, public.apify_key_encryption_secret());
+    NEW.api_key_hint := right(NEW.api_key, 4);
+    NEW.api_key := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS encrypt_apify_key ON public.apify_keys;
+CREATE TRIGGER encrypt_apify_key
+  BEFORE INSERT OR UPDATE OF api_key ON public.apify_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.encrypt_apify_key();
+
+-- Encrypts the keys saved so far
+UPDATE public.apify_keys SET api_key = api_key WHERE api_key IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.get_apify_key_secret(key_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT extensions.pgp_sym_decrypt(api_key_encrypted, public.apify_key_encryption_secret())
+  FROM public.apify_keys
+  WHERE id = key_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_apify_key_secret(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_apify_key_secret(uuid) TO service_role;
+
+-- Keys can be written but never read back by clients
+REVOKE SELECT ON public.apify_keys FROM anon, authenticated;
+GRANT SELECT (id, user_id, key_name, api_key_hint, is_active, health_status, last_used_at, created_at, updated_at)
+  ON public.apify_keys TO authenticated;
@@ -0,0 +1,66 @@
+/*
+  # Per-run cost accounting on jobs
+
+  1. Changes
+    - `scraping_jobs.run_usage` - usage of every Apify run of the job, keyed by run ID:
+      `{ "<runId>": { "computeUnits": 0.12, "usageUsd": 0.05, "status": "SUCCEEDED" } }`
+    - `scraping_jobs.compute_units` / `scraping_jobs.cost_usd` - totals over `run_usage`
+    - `scraping_jobs.saved_api_calls` - profiles taken from the database instead of Apify
+    - Index on `(user_id, created_at)` for the monthly spend summary
+
+  2. Functions
+    - `record_job_run_usage(job_id, run_id, compute_units, usage_usd, run_status)` stores one
+      run's final usage and recomputes the totals in a single statement. Recording the same run
+      again (a resumed job re-attaching to it) replaces its entry instead of counting it twice.
+    - Runs as the caller, so users can only record usage on their own jobs. Parameters are
+      qualified with the function name where they share a name with a column.
+*/
+
+ALTER TABLE public.scraping_jobs
+  ADD COLUMN IF NOT EXISTS run_usage jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS compute_units numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cost_usd numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS saved_api_calls integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_scraping_jobs_user_created
+  ON public.scraping_jobs(user_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.record_job_run_usage(
+  job_id uuid,
+  run_id text,
+  compute_units numeric,
+  usage_usd numeric,
+  run_status text
+)
+RETURNS void AS $$
+  WITH updated AS (
+    SELECT j.id,
+           j.run_usage || jsonb_build_object(
+             record_job_run_usage.run_id,
+             jsonb_build_object(
+               'computeUnits', record_job_run_usage.compute_units,
+               'usageUsd', record_job_run_usage.usage_usd,
+               'status', record_job_run_usage.run_status
+             )
+           ) AS run_usage
+    FROM public.scraping_jobs j
+    WHERE j.id = record_job_run_usage.job_id
+    FOR UPDATE
+  )
+  UPDATE public.scraping_jobs j
+  SET run_usage = updated.run_usage,
+      compute_units = (
+        SELECT COALESCE(sum((entry.value->>'computeUnits')::numeric), 0)
+        FROM jsonb_each(updated.run_usage) AS entry
+      ),
+      cost_usd = (
+        SELECT COALESCE(sum((entry.value->>'usageUsd')::numeric), 0)
+        FROM jsonb_each(updated.run_usage) AS entry
+      )
+  FROM updated
+  WHERE j.id = updated.id;
+$$ LANGUAGE sql SECURITY INVOKER
+SET search_path = public, pg_temp;
+
+REVOKE ALL ON FUNCTION public.record_job_run_usage(uuid, text, numeric, numeric, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_job_run_usage(uuid, text, numeric, numeric, text) TO authenticated, service_role;
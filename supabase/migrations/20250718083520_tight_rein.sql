@@ -0,0 +1,111 @@
+/*
+  # Spending budgets and hard caps
+
+  1. Changes
+    - `users` and `apify_keys` get three caps, NULL meaning no cap:
+      - `budget_profiles_per_day` - profiles scraped per UTC day
+      - `budget_runs_per_month` - Apify runs per UTC calendar month
+      - `budget_spend_usd_per_month` - Apify spend in USD per UTC calendar month
+    - `users.is_admin` - admins can read every user and key and raise their caps
+
+  2. Security
+    - `guard_budget_changes` trigger: users may set or lower caps on their own row and keys,
+      but raising or removing a cap, and granting admin, needs an admin. The service role and
+      direct SQL (no JWT) are not restricted.
+    - Admins can read and update every user and key row (columns of apify_keys readable by
+      clients are still limited to those granted below; the key itself stays unreadable)
+
+  3. Notes
+    - Jobs are checked against the caps when they are created, when a worker claims them and
+      before each Apify run they start, see src/lib/budgets.ts
+*/
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS is_admin boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS budget_profiles_per_day integer CHECK (budget_profiles_per_day >= 0),
+  ADD COLUMN IF NOT EXISTS budget_runs_per_month integer CHECK (budget_runs_per_month >= 0),
+  ADD COLUMN IF NOT EXISTS budget_spend_usd_per_month numeric CHECK (budget_spend_usd_per_month >= 0);
+
+ALTER TABLE public.apify_keys
+  ADD COLUMN IF NOT EXISTS budget_profiles_per_day integer CHECK (budget_profiles_per_day >= 0),
+  ADD COLUMN IF NOT EXISTS budget_runs_per_month integer CHECK (budget_runs_per_month >= 0),
+  ADD COLUMN IF NOT EXISTS budget_spend_usd_per_month numeric CHECK (budget_spend_usd_per_month >= 0);
+
+GRANT SELECT (budget_profiles_per_day, budget_runs_per_month, budget_spend_usd_per_month)
+  ON public.apify_keys TO authenticated;
+
+-- SECURITY DEFINER so policies on users can call it without recursing into themselves
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean AS $$
+  SELECT COALESCE(
+    (SELECT is_admin FROM public.users WHERE auth_user_id = auth.jwt() ->> 'sub'),
+    false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public, pg_temp;
+
+-- A cap is raised when it goes up or is removed (NULL is no cap)
+CREATE OR REPLACE FUNCTION public.is_cap_raised(old_cap numeric, new_cap numeric)
+RETURNS boolean AS $$
+  SELECT old_cap IS NOT NULL AND (new_cap IS NULL OR new_cap > old_cap);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.guard_budget_changes()
+RETURNS trigger AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') NOT IN ('authenticated', 'anon') OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'users' AND NEW.is_admin AND (TG_OP = 'INSERT' OR NOT OLD.is_admin) THEN
+    RAISE EXCEPTION 'Only an admin can grant admin rights' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    public.is_cap_raised(OLD.budget_profiles_per_day, NEW.budget_profiles_per_day)
+    OR public.is_cap_raised(OLD.budget_runs_per_month, NEW.budget_runs_per_month)
+    OR public.is_cap_raised(OLD.budget_spend_usd_per_month, NEW.budget_spend_usd_per_month)
+  ) THEN
+    RAISE EXCEPTION 'Only an admin can raise or remove a budget cap' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS guard_user_budget_changes ON public.users;
+CREATE TRIGGER guard_user_budget_changes
+  BEFORE INSERT OR UPDATE ON public.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_budget_changes();
+
+DROP TRIGGER IF EXISTS guard_apify_key_budget_changes ON public.apify_keys;
+CREATE TRIGGER guard_apify_key_budget_changes
+  BEFORE UPDATE ON public.apify_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_budget_changes();
+
+CREATE POLICY "Admins can read all users"
+  ON public.users
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can update all users"
+  ON public.users
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can read all API keys"
+  ON public.apify_keys
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can update all API keys"
+  ON public.apify_keys
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin());
@@ -0,0 +1,35 @@
+/*
+  # Structured error codes on jobs
+
+  1. Changes
+    - `scraping_jobs.error_code` - why a job failed or fell short, next to `error_message`,
+      which keeps the full text. One of the codes in src/lib/jobErrors.ts:
+      `invalid_key`, `out_of_credit`, `rate_limited`, `budget_exceeded`, `actor_failed`,
+      `actor_timed_out`, `dataset_empty`, `urls_failed`, `db_write_failed`, `network_offline`,
+      `interrupted`, `unknown`
+    - Completed jobs can carry `urls_failed` or `dataset_empty`
+    - Partial index for the error counts of the Jobs tab
+
+  2. Notes
+    - Jobs that failed before this migration keep a NULL code and are not counted
+*/
+
+ALTER TABLE public.scraping_jobs
+  ADD COLUMN IF NOT EXISTS error_code text CHECK (error_code IN (
+    'invalid_key',
+    'out_of_credit',
+    'rate_limited',
+    'budget_exceeded',
+    'actor_failed',
+    'actor_timed_out',
+    'dataset_empty',
+    'urls_failed',
+    'db_write_failed',
+    'network_offline',
+    'interrupted',
+    'unknown'
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_scraping_jobs_user_error_code
+  ON public.scraping_jobs(user_id, created_at)
+  WHERE error_code IS NOT NULL;
@@ -0,0 +1,38 @@
+/*
+  # Structured job inputs and retries
+
+  1. Changes
+    - `scraping_jobs.inputs` - the job's input as JSON, `{ "urls": [...] }` with one entry per
+      post, profile or company URL; a search job has its one search URL, commas included.
+      `input_url` is still written, as the URLs joined for display
+    - `scraping_jobs.parent_job_id` - the job a retry was created from; set to NULL when that
+      job is deleted
+
+  2. Data
+    - Existing jobs get `inputs` from `input_url`, split on commas except for search jobs
+*/
+
+ALTER TABLE public.scraping_jobs
+  ADD COLUMN IF NOT EXISTS inputs jsonb,
+  ADD COLUMN IF NOT EXISTS parent_job_id uuid REFERENCES public.scraping_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scraping_jobs_parent_job_id
+  ON public.scraping_jobs(parent_job_id)
+  WHERE parent_job_id IS NOT NULL;
+
+UPDATE public.scraping_jobs
+SET inputs = jsonb_build_object(
+  'urls',
+  CASE
+    WHEN job_type = 'search_results' THEN jsonb_build_array(trim(input_url))
+    ELSE COALESCE(
+      (
+        SELECT jsonb_agg(trim(u.url) ORDER BY u.position)
+        FROM unnest(string_to_array(input_url, ',')) WITH ORDINALITY AS u(url, position)
+        WHERE trim(u.url) <> ''
+      ),
+      '[]'::jsonb
+    )
+  END
+)
+WHERE inputs IS NULL;
@@ -0,0 +1,59 @@
+/*
+  # Results of each job
+
+  1. New Tables
+    - `job_results` - links a job to each profile and comment it produced, so its result set can
+      be reopened later. `result_id` is a `linkedin_profiles.id` for profiles and a
+      `post_comments.id` for comments. `from_cache` is set for profiles that were served from the
+      database instead of being scraped
+
+  2. Security
+    - RLS enabled; users can only read and add results of their own jobs
+
+  3. Notes
+    - Jobs that finished before this migration have no rows and cannot be reopened
+    - Rows are removed with their job; the profiles and comments themselves are kept
+*/
+
+CREATE TABLE IF NOT EXISTS public.job_results (
+  job_id uuid NOT NULL REFERENCES public.scraping_jobs(id) ON DELETE CASCADE,
+  result_kind text NOT NULL CHECK (result_kind = ANY (ARRAY['profile'::text, 'comment'::text])),
+  result_id text NOT NULL,
+  from_cache boolean DEFAULT false NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (job_id, result_kind, result_id)
+);
+
+ALTER TABLE public.job_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read results of own jobs"
+  ON public.job_results
+  FOR SELECT
+  TO authenticated
+  USING (job_id IN (
+    SELECT scraping_jobs.id FROM public.scraping_jobs
+    JOIN public.users ON users.id = scraping_jobs.user_id
+    WHERE users.auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+CREATE POLICY "Users can insert results of own jobs"
+  ON public.job_results
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (job_id IN (
+    SELECT scraping_jobs.id FROM public.scraping_jobs
+    JOIN public.users ON users.id = scraping_jobs.user_id
+    WHERE users.auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+CREATE POLICY "Users can update results of own jobs"
+  ON public.job_results
+  FOR UPDATE
+  TO authenticated
+  USING (job_id IN (
+    SELECT scraping_jobs.id FROM public.scraping_jobs
+    JOIN public.users ON users.id = scraping_jobs.user_id
+    WHERE users.auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+GRANT ALL ON public.job_results TO anon, authenticated;
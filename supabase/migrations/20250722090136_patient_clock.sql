@@ -0,0 +1,101 @@
+/*
+  # Scheduled and recurring jobs
+
+  1. New Tables
+    - `job_schedules` - a job template (type, inputs, options, key and profile tags) run on a
+      5-field cron expression in UTC or every `interval_minutes`, exactly one of the two.
+      The background worker turns each due schedule into a `scraping_jobs` row and moves
+      `next_run_at` on; `last_run_at` and `last_job_id` point at the latest job it created.
+      Paused schedules are skipped; their `next_run_at` is set again when they are resumed
+
+  2. Changes
+    - `scraping_jobs.schedule_id` - the schedule that created the job; set to NULL when that
+      schedule is deleted
+    - `scraping_jobs.tags` - tags given to the profiles the job saves
+
+  3. Security
+    - RLS enabled; users can only manage their own schedules. The worker uses the service role
+
+  4. Notes
+    - Intervals are at least 15 minutes, matching MIN_SCHEDULE_INTERVAL_MINUTES in
+      src/lib/schedules.ts
+*/
+
+CREATE TABLE IF NOT EXISTS public.job_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  apify_key_id uuid REFERENCES public.apify_keys(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  job_type text NOT NULL CHECK (job_type = ANY (ARRAY['post_comments'::text, 'post_reactions'::text, 'profile_details'::text, 'profile_posts'::text, 'search_results'::text, 'mixed'::text, 'company_details'::text])),
+  inputs jsonb NOT NULL,
+  comment_options jsonb DEFAULT '{}'::jsonb,
+  search_options jsonb DEFAULT '{}'::jsonb,
+  tags text[] DEFAULT '{}'::text[] NOT NULL,
+  cron_expression text,
+  interval_minutes integer CHECK (interval_minutes >= 15),
+  is_paused boolean DEFAULT false NOT NULL,
+  next_run_at timestamptz,
+  last_run_at timestamptz,
+  last_job_id uuid REFERENCES public.scraping_jobs(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT job_schedules_timing_check CHECK ((cron_expression IS NULL) <> (interval_minutes IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_schedules_user_id ON public.job_schedules(user_id);
+CREATE INDEX IF NOT EXISTS idx_job_schedules_due
+  ON public.job_schedules(next_run_at)
+  WHERE is_paused = false;
+
+DROP TRIGGER IF EXISTS update_job_schedules_updated_at ON public.job_schedules;
+CREATE TRIGGER update_job_schedules_updated_at
+  BEFORE UPDATE ON public.job_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.scraping_jobs
+  ADD COLUMN IF NOT EXISTS schedule_id uuid REFERENCES public.job_schedules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS tags text[] DEFAULT '{}'::text[];
+
+CREATE INDEX IF NOT EXISTS idx_scraping_jobs_schedule_id
+  ON public.scraping_jobs(schedule_id)
+  WHERE schedule_id IS NOT NULL;
+
+ALTER TABLE public.job_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own job schedules"
+  ON public.job_schedules
+  FOR SELECT
+  TO authenticated
+  USING (user_id IN (
+    SELECT id FROM public.users
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+CREATE POLICY "Users can insert own job schedules"
+  ON public.job_schedules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id IN (
+    SELECT id FROM public.users
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+CREATE POLICY "Users can update own job schedules"
+  ON public.job_schedules
+  FOR UPDATE
+  TO authenticated
+  USING (user_id IN (
+    SELECT id FROM public.users
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+CREATE POLICY "Users can delete own job schedules"
+  ON public.job_schedules
+  FOR DELETE
+  TO authenticated
+  USING (user_id IN (
+    SELECT id FROM public.users
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+GRANT ALL ON public.job_schedules TO anon, authenticated;
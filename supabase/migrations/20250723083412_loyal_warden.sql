@@ -0,0 +1,62 @@
+/*
+  # Apify keys only serve their owner's jobs
+
+  1. Security
+    - `get_apify_key_secret(key_id, owner_id)` replaces `get_apify_key_secret(key_id)` and only
+      decrypts the key when it belongs to `owner_id`, so the worker and the `apify-proxy`
+      function can never spend a key for somebody else's job
+    - `check_apify_key_owner` trigger on `scraping_jobs` and `job_schedules`: `apify_key_id`
+      must be NULL or a key of the row's `user_id`. RLS only checks `user_id`, so without it a
+      user who learned another user's key id could queue jobs or schedules on that key
+
+  2. Notes
+    - Key pool failover moves a job to another key of the same user, which the trigger allows
+*/
+
+DROP FUNCTION IF EXISTS public.get_apify_key_secret(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_apify_key_secret(key_id uuid, owner_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT extensions.pgp_sym_decrypt(api_key_encrypted, public.apify_key_encryption_secret())
+  FROM public.apify_keys
+  WHERE id = key_id
+    AND user_id = owner_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_apify_key_secret(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_apify_key_secret(uuid, uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.check_apify_key_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.apify_key_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.apify_keys
+    WHERE id = NEW.apify_key_id
+      AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'The API key does not exist or does not belong to you' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_scraping_job_apify_key_owner ON public.scraping_jobs;
+CREATE TRIGGER check_scraping_job_apify_key_owner
+  BEFORE INSERT OR UPDATE OF apify_key_id, user_id ON public.scraping_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_apify_key_owner();
+
+DROP TRIGGER IF EXISTS check_job_schedule_apify_key_owner ON public.job_schedules;
+CREATE TRIGGER check_job_schedule_apify_key_owner
+  BEFORE INSERT OR UPDATE OF apify_key_id, user_id ON public.job_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_apify_key_owner();
@@ -0,0 +1,204 @@
+/*
+  # Server-side budget enforcement
+
+  1. New Tables
+    - `apify_runs` - ledger of every Apify run started with a user's key: the key, the profiles
+      it was asked for and its usage so far. Written only by the service role: the
+      `apify-proxy` function records the runs the browser starts and the usage it sees when a
+      run is polled or aborted, the background worker records its own runs. Budget caps are
+      counted from this ledger, so deleting or editing jobs no longer frees budget
+
+  2. Functions
+    - `find_run_budget_violation(owner_id, key_id, run_profiles)` - the first cap of the user
+      or key that one more run would go over, as a message; NULL when it fits. Same rules and
+      messages as findBudgetViolation in src/lib/budgets.ts. Called by the proxy before it
+      starts a run
+    - `record_job_run_usage(job_id, run_id)` replaces the variant taking the usage as
+      parameters: it copies the run's usage from the ledger into the job's `run_usage`, so a
+      client can no longer report its own numbers
+
+  3. Security
+    - `guard_job_usage_changes` trigger: `run_usage`, `compute_units` and `cost_usd` of
+      `scraping_jobs` can only be written by the service role and `record_job_run_usage`
+    - Users can read their own ledger rows and admins every row; nobody but the service role
+      can write them
+*/
+
+CREATE TABLE IF NOT EXISTS public.apify_runs (
+  -- Apify run ID
+  id text PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  apify_key_id uuid REFERENCES public.apify_keys(id) ON DELETE SET NULL,
+  profiles integer NOT NULL DEFAULT 0 CHECK (profiles >= 0),
+  status text,
+  compute_units numeric NOT NULL DEFAULT 0,
+  usage_usd numeric NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_apify_runs_user_created
+  ON public.apify_runs(user_id, created_at);
+
+DROP TRIGGER IF EXISTS update_apify_runs_updated_at ON public.apify_runs;
+CREATE TRIGGER update_apify_runs_updated_at
+  BEFORE UPDATE ON public.apify_runs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.apify_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own Apify runs"
+  ON public.apify_runs
+  FOR SELECT
+  TO authenticated
+  USING (user_id IN (
+    SELECT id FROM public.users
+    WHERE auth_user_id = auth.jwt() ->> 'sub'
+  ));
+
+CREATE POLICY "Admins can read all Apify runs"
+  ON public.apify_runs
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+REVOKE ALL ON public.apify_runs FROM anon, authenticated;
+GRANT SELECT ON public.apify_runs TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.find_run_budget_violation(owner_id uuid, key_id uuid, run_profiles integer)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  day_start timestamptz := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  month_start timestamptz := date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  caps record;
+  usage record;
+BEGIN
+  FOR caps IN
+    SELECT 'your account' AS owner, NULL::uuid AS cap_key_id,
+           u.budget_profiles_per_day, u.budget_runs_per_month, u.budget_spend_usd_per_month
+    FROM public.users u
+    WHERE u.id = owner_id
+    UNION ALL
+    SELECT format('the key "%s"', k.key_name), k.id,
+           k.budget_profiles_per_day, k.budget_runs_per_month, k.budget_spend_usd_per_month
+    FROM public.apify_keys k
+    WHERE k.id = key_id
+      AND k.user_id = owner_id
+  LOOP
+    SELECT COALESCE(sum(r.profiles) FILTER (WHERE r.created_at >= day_start), 0) AS profiles_today,
+           count(*) AS runs_this_month,
+           COALESCE(sum(r.usage_usd), 0) AS spend_this_month
+    INTO usage
+    FROM public.apify_runs r
+    WHERE r.user_id = owner_id
+      AND r.created_at >= month_start
+      AND (caps.cap_key_id IS NULL OR r.apify_key_id = caps.cap_key_id);
+
+    IF caps.budget_profiles_per_day IS NOT NULL AND run_profiles > 0
+      AND usage.profiles_today + run_profiles > caps.budget_profiles_per_day THEN
+      RETURN format('This needs up to %s profiles, but %s has %s of %s profiles per day left.',
+        run_profiles, caps.owner, GREATEST(0, caps.budget_profiles_per_day - usage.profiles_today), caps.budget_profiles_per_day);
+    END IF;
+
+    IF caps.budget_runs_per_month IS NOT NULL AND usage.runs_this_month + 1 > caps.budget_runs_per_month THEN
+      RETURN format('This needs up to 1 Apify runs, but %s has %s of %s runs this month left.',
+        caps.owner, GREATEST(0, caps.budget_runs_per_month - usage.runs_this_month), caps.budget_runs_per_month);
+    END IF;
+
+    -- Before a run its cost is unknown, so it only needs some budget left
+    IF caps.budget_spend_usd_per_month IS NOT NULL AND usage.spend_this_month >= caps.budget_spend_usd_per_month THEN
+      RETURN format('%s%s has spent $%s of $%s this month.',
+        upper(left(caps.owner, 1)), substr(caps.owner, 2),
+        to_char(usage.spend_this_month, 'FM999999990.00'), to_char(caps.budget_spend_usd_per_month, 'FM999999990.00'));
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_run_budget_violation(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_run_budget_violation(uuid, uuid, integer) TO service_role;
+
+DROP FUNCTION IF EXISTS public.record_job_run_usage(uuid, text, numeric, numeric, text);
+
+-- Runs as its owner so it can write the usage columns; callers other than the service role
+-- can only record runs on their own jobs, from their own ledger rows
+CREATE OR REPLACE FUNCTION public.record_job_run_usage(job_id uuid, run_id text)
+RETURNS void AS $$
+  WITH updated AS (
+    SELECT j.id,
+           j.run_usage || jsonb_build_object(
+             r.id,
+             jsonb_build_object(
+               'computeUnits', r.compute_units,
+               'usageUsd', r.usage_usd,
+               'status', r.status
+             )
+           ) AS run_usage
+    FROM public.scraping_jobs j
+    JOIN public.apify_runs r ON r.user_id = j.user_id
+    WHERE j.id = record_job_run_usage.job_id
+      AND r.id = record_job_run_usage.run_id
+      AND (
+        auth.jwt() ->> 'role' = 'service_role'
+        OR j.user_id IN (SELECT u.id FROM public.users u WHERE u.auth_user_id = auth.jwt() ->> 'sub')
+      )
+    FOR UPDATE OF j
+  )
+  UPDATE public.scraping_jobs j
+  SET run_usage = updated.run_usage,
+      compute_units = (
+        SELECT COALESCE(sum((entry.value->>'computeUnits')::numeric), 0)
+        FROM jsonb_each(updated.run_usage) AS entry
+      ),
+      cost_usd = (
+        SELECT COALESCE(sum((entry.value->>'usageUsd')::numeric), 0)
+        FROM jsonb_each(updated.run_usage) AS entry
+      )
+  FROM updated
+  WHERE j.id = updated.id;
+$$ LANGUAGE sql SECURITY DEFINER
+SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.record_job_run_usage(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_job_run_usage(uuid, text) TO authenticated, service_role;
+
+-- Functions running as their owner (record_job_run_usage) and the service role pass; clients
+-- writing the table directly run as anon or authenticated
+CREATE OR REPLACE FUNCTION public.guard_job_usage_changes()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND (
+    NEW.run_usage <> '{}'::jsonb OR NEW.compute_units <> 0 OR NEW.cost_usd <> 0
+  ) THEN
+    RAISE EXCEPTION 'Run usage is recorded by the server' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.run_usage IS DISTINCT FROM OLD.run_usage
+    OR NEW.compute_units IS DISTINCT FROM OLD.compute_units
+    OR NEW.cost_usd IS DISTINCT FROM OLD.cost_usd
+  ) THEN
+    RAISE EXCEPTION 'Run usage is recorded by the server' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS guard_scraping_job_usage_changes ON public.scraping_jobs;
+CREATE TRIGGER guard_scraping_job_usage_changes
+  BEFORE INSERT OR UPDATE ON public.scraping_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_job_usage_changes();
@@ -0,0 +1,50 @@
+/*
+  # Key of each run in a job's run usage
+
+  1. Changes
+    - `record_job_run_usage` also stores the key that served the run, as `apifyKeyId`, in the
+      run's `scraping_jobs.run_usage` entry. A job moved to another key of its pool has runs on
+      several keys, and `scraping_jobs.apify_key_id` only names the latest one
+
+  2. Notes
+    - Entries recorded before this migration have no `apifyKeyId`; the spend summary counts them
+      on the job's key as before
+*/
+
+CREATE OR REPLACE FUNCTION public.record_job_run_usage(job_id uuid, run_id text)
+RETURNS void AS $$
+  WITH updated AS (
+    SELECT j.id,
+           j.run_usage || jsonb_build_object(
+             r.id,
+             jsonb_build_object(
+               'computeUnits', r.compute_units,
+               'usageUsd', r.usage_usd,
+               'status', r.status,
+               'apifyKeyId', r.apify_key_id
+             )
+           ) AS run_usage
+    FROM public.scraping_jobs j
+    JOIN public.apify_runs r ON r.user_id = j.user_id
+    WHERE j.id = record_job_run_usage.job_id
+      AND r.id = record_job_run_usage.run_id
+      AND (
+        auth.jwt() ->> 'role' = 'service_role'
+        OR j.user_id IN (SELECT u.id FROM public.users u WHERE u.auth_user_id = auth.jwt() ->> 'sub')
+      )
+    FOR UPDATE OF j
+  )
+  UPDATE public.scraping_jobs j
+  SET run_usage = updated.run_usage,
+      compute_units = (
+        SELECT COALESCE(sum((entry.value->>'computeUnits')::numeric), 0)
+        FROM jsonb_each(updated.run_usage) AS entry
+      ),
+      cost_usd = (
+        SELECT COALESCE(sum((entry.value->>'usageUsd')::numeric), 0)
+        FROM jsonb_each(updated.run_usage) AS entry
+      )
+  FROM updated
+  WHERE j.id = updated.id;
+$$ LANGUAGE sql SECURITY DEFINER
+SET search_path = '';
@@ -0,0 +1,25 @@
+/*
+  # Quarantine for every kind of actor output
+
+  1. Changes
+    - `quarantined_items.item_kind` also accepts `reaction`, `profile_post`, `search_result` and
+      `company`: post reaction, profile post, people search and company items are validated on
+      ingest like comments and profiles, and the ones that fail are quarantined
+
+  2. Notes
+    - `scraping_jobs.items_accepted` / `items_rejected` now count the items of every kind
+*/
+
+ALTER TABLE public.quarantined_items
+  DROP CONSTRAINT IF EXISTS quarantined_items_item_kind_check;
+
+ALTER TABLE public.quarantined_items
+  ADD CONSTRAINT quarantined_items_item_kind_check
+  CHECK (item_kind = ANY (ARRAY[
+    'comment'::text,
+    'profile'::text,
+    'reaction'::text,
+    'profile_post'::text,
+    'search_result'::text,
+    'company'::text
+  ]));
@@ -0,0 +1,100 @@
+/*
+  # Posts and comments scraped by more than one user
+
+  1. Functions
+    - `upsert_scraped_post(owner_id, post_urn, post_url, comments_count, job_id)` - inserts the
+      post for `owner_id`, or updates its URL, comment count and last job when it exists. The
+      owner of an existing post is kept
+    - `upsert_post_comments(owner_id, post_urn, comments)` - same for a batch of comments, given
+      as a JSON array of `{id, commenter_url, comment_data, commented_at}`
+
+  2. Security
+    - `post_urn` and comment IDs are unique across users, but users can only update their own
+      rows. A job scraping a post a teammate scraped first failed the RLS check on the conflict
+      update, so its comments were neither saved nor linked to the job. Both functions run as
+      their owner; callers other than the service role can only write for their own account and
+      their own jobs
+*/
+
+CREATE OR REPLACE FUNCTION public.upsert_scraped_post(
+  owner_id uuid,
+  post_urn text,
+  post_url text,
+  comments_count integer,
+  job_id uuid DEFAULT NULL
+)
+RETURNS public.posts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  saved public.posts;
+BEGIN
+  IF NOT (
+    auth.jwt() ->> 'role' = 'service_role'
+    OR upsert_scraped_post.owner_id IN (SELECT u.id FROM public.users u WHERE u.auth_user_id = auth.jwt() ->> 'sub')
+  ) THEN
+    RAISE EXCEPTION 'Posts can only be saved for your own account' USING ERRCODE = '42501';
+  END IF;
+
+  IF upsert_scraped_post.job_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.scraping_jobs j
+    WHERE j.id = upsert_scraped_post.job_id
+      AND j.user_id = upsert_scraped_post.owner_id
+  ) THEN
+    RAISE EXCEPTION 'The job does not exist or does not belong to you' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.posts AS p (user_id, post_urn, post_url, comments_count, last_job_id, last_scraped_at)
+  VALUES (
+    upsert_scraped_post.owner_id,
+    upsert_scraped_post.post_urn,
+    upsert_scraped_post.post_url,
+    upsert_scraped_post.comments_count,
+    upsert_scraped_post.job_id,
+    now()
+  )
+  ON CONFLICT ON CONSTRAINT posts_post_urn_key DO UPDATE
+  SET post_url = EXCLUDED.post_url,
+      comments_count = EXCLUDED.comments_count,
+      last_job_id = EXCLUDED.last_job_id,
+      last_scraped_at = EXCLUDED.last_scraped_at
+  RETURNING p.* INTO saved;
+
+  RETURN saved;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.upsert_scraped_post(uuid, text, text, integer, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.upsert_scraped_post(uuid, text, text, integer, uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.upsert_post_comments(owner_id uuid, post_urn text, comments jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT (
+    auth.jwt() ->> 'role' = 'service_role'
+    OR upsert_post_comments.owner_id IN (SELECT u.id FROM public.users u WHERE u.auth_user_id = auth.jwt() ->> 'sub')
+  ) THEN
+    RAISE EXCEPTION 'Comments can only be saved for your own account' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.post_comments AS pc (id, user_id, post_urn, commenter_url, comment_data, commented_at, scraped_at)
+  SELECT c.id, upsert_post_comments.owner_id, upsert_post_comments.post_urn, c.commenter_url, c.comment_data, c.commented_at, now()
+  FROM jsonb_to_recordset(upsert_post_comments.comments)
+    AS c(id text, commenter_url text, comment_data jsonb, commented_at timestamptz)
+  ON CONFLICT ON CONSTRAINT post_comments_pkey DO UPDATE
+  SET post_urn = COALESCE(EXCLUDED.post_urn, pc.post_urn),
+      commenter_url = EXCLUDED.commenter_url,
+      comment_data = EXCLUDED.comment_data,
+      commented_at = EXCLUDED.commented_at,
+      scraped_at = EXCLUDED.scraped_at;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.upsert_post_comments(uuid, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.upsert_post_comments(uuid, text, jsonb) TO authenticated, service_role;
@@ -0,0 +1,46 @@
+/*
+  # Recent posts of profiles saved by another user
+
+  1. Functions
+    - `update_profile_posts(profile_url, posts)` - replaces `recent_posts` of the profile and sets
+      `posts_scraped_at`. Returns the number of profiles updated, 0 when none has that URL
+
+  2. Security
+    - Profiles are shared between users, but only their owner can update them. A profile posts
+      job on a profile another user saved updated no row without an error, so its posts were
+      lost. The function runs as its owner and only writes the two posts columns; any registered
+      user and the service role can call it
+*/
+
+CREATE OR REPLACE FUNCTION public.update_profile_posts(profile_url text, posts jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  updated integer;
+BEGIN
+  IF NOT (
+    auth.jwt() ->> 'role' = 'service_role'
+    OR EXISTS (SELECT 1 FROM public.users u WHERE u.auth_user_id = auth.jwt() ->> 'sub')
+  ) THEN
+    RAISE EXCEPTION 'Only registered users can save profile posts' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(update_profile_posts.posts) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Posts must be an array' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.linkedin_profiles p
+  SET recent_posts = update_profile_posts.posts,
+      posts_scraped_at = now()
+  WHERE p.linkedin_url = update_profile_posts.profile_url;
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_profile_posts(text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_profile_posts(text, jsonb) TO authenticated, service_role;
@@ -0,0 +1,189 @@
+import { createClient } from '@supabase/supabase-js';
+import { hostname } from 'node:os';
+import { createApifyService, DEFAULT_APIFY_BASE_URL } from '../src/lib/apify';
+import { assertWithinBudget } from '../src/lib/budgets';
+import { DatabaseService } from '../src/lib/database';
+import { loadApifyKeyPool } from '../src/lib/keyPool';
+import {
+  createJobProgressReporter,
+  createJobRunOptions,
+  estimateJobDemand,
+  isCancellationError,
+  parseChunkOptions,
+  resumeScrapingJob,
+  runScrapingJob
+} from '../src/lib/jobProcessor';
+import { describeJobError, describeJobResult } from '../src/lib/jobErrors';
+import { materializeDueSchedules } from '../src/lib/schedules';
+import { sleep } from '../src/lib/utils';
+import type { ScrapingJob } from '../src/lib/supabase';
+
+// Background worker: claims pending scraping jobs and runs them outside the browser.
+// Run one or more with `npm run worker`; each needs a stable, unique WORKER_ID.
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables');
+}
+
+const WORKER_ID = process.env.WORKER_ID || `${hostname()}-worker`;
+const POLL_INTERVAL_MS = Number(process.env.WORKER_POLL_INTERVAL_MS) || 5000;
+const CANCEL_CHECK_INTERVAL_MS = 10000;
+const SCHEDULE_CHECK_INTERVAL_MS = Number(process.env.WORKER_SCHEDULE_INTERVAL_MS) || 60000;
+const APIFY_BASE_URL = process.env.APIFY_BASE_URL || DEFAULT_APIFY_BASE_URL;
+
+const PROFILE_CHUNK_OPTIONS = parseChunkOptions({
+  chunkSize: process.env.PROFILE_CHUNK_SIZE,
+  concurrency: process.env.PROFILE_CHUNK_CONCURRENCY,
+  maxAttempts: process.env.PROFILE_CHUNK_MAX_ATTEMPTS
+});
+
+// The service role bypasses RLS, so the worker can read jobs and keys of every user
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+const db = new DatabaseService(supabase);
+
+let isShuttingDown = false;
+
+async function processJob(job: ScrapingJob, resume: boolean): Promise<void> {
+  console.log(`🚀 [${WORKER_ID}] ${resume ? 'Resuming' : 'Processing'} job:`, job.id, job.job_type);
+
+  // Cancelling from the UI flips the row to `cancelled`; stop polling when that happens
+  const controller = new AbortController();
+  const cancelWatcher = setInterval(async () => {
+    try {
+      const current = await db.getJob(job.id);
+      if (current?.status === 'cancelled') {
+        controller.abort();
+      }
+    } catch (error) {
+      console.error('❌ Error checking job cancellation:', error);
+    }
+  }, CANCEL_CHECK_INTERVAL_MS);
+
+  try {
+    if (!job.apify_key_id) {
+      throw new Error('The API key used for this job is no longer available');
+    }
+
+    if (!resume) {
+      // Queued jobs can together go over a cap each of them fit when it was created
+      await assertWithinBudget(db, job.user_id, job.apify_key_id, estimateJobDemand(job, PROFILE_CHUNK_OPTIONS));
+    }
+
+    const actorRegistry = await db.getActorRegistry(job.user_id);
+    // The worker runs with the service role, so it decrypts keys itself instead of using the proxy
+    const createService = async (apifyKeyId: string) => {
+      const apiKey = await db.getApifyKeyValue(apifyKeyId, job.user_id);
+      if (!apiKey) {
+        throw new Error('The API key used for this job is no longer available');
+      }
+      return createApifyService(apiKey, actorRegistry, APIFY_BASE_URL);
+    };
+
+    const ctx = {
+      db,
+      apifyService: await createService(job.apify_key_id),
+      apifyKeyId: job.apify_key_id,
+      keyPool: await loadApifyKeyPool(db, job.user_id, createService),
+      userId: job.user_id,
+      jobId: job.id,
+      runOptions: createJobRunOptions(db, job.id, controller.signal, true),
+      reportProgress: createJobProgressReporter(db, job.id),
+      chunkOptions: PROFILE_CHUNK_OPTIONS,
+      profileTags: job.tags || undefined,
+      recordsRuns: true
+    };
+
+    const result = resume ? await resumeScrapingJob(job, ctx) : await runScrapingJob(job, ctx);
+    const shortfall = describeJobResult(result);
+    await db.updateJobStatus(job.id, 'completed', result.resultsCount, shortfall?.message, shortfall?.code);
+
+    console.log(`✅ [${WORKER_ID}] Job completed:`, job.id, 'results:', result.resultsCount);
+  } catch (error) {
+    if (controller.signal.aborted || isCancellationError(error)) {
+      console.log(`🛑 [${WORKER_ID}] Job was cancelled:`, job.id);
+      return;
+    }
+
+    console.error(`❌ [${WORKER_ID}] Job failed:`, job.id, error);
+    const failure = describeJobError(error);
+    try {
+      await db.updateJobStatus(job.id, 'failed', undefined, failure.message, failure.code);
+    } catch (updateError) {
+      console.error('❌ Error marking job as failed:', updateError);
+    }
+  } finally {
+    clearInterval(cancelWatcher);
+  }
+}
+
+// Runs on its own timer, so schedules fall due on time while a long job is being processed
+async function checkSchedules(): Promise<void> {
+  try {
+    const queued = await materializeDueSchedules(db);
+    if (queued > 0) {
+      console.log(`📅 [${WORKER_ID}] Queued`, queued, 'scheduled jobs');
+    }
+  } catch (error) {
+    console.error('❌ Error checking schedules:', error);
+  }
+}
+
+async function main(): Promise<void> {
+  console.log(`👷 Worker ${WORKER_ID} started, polling every ${POLL_INTERVAL_MS}ms`);
+
+  // A check still running when the timer fires again is not overlapped
+  let scheduleCheck: Promise<void> | null = null;
+  const startScheduleCheck = () => {
+    scheduleCheck ??= checkSchedules().finally(() => {
+      scheduleCheck = null;
+    });
+  };
+  startScheduleCheck();
+  const scheduleTimer = setInterval(startScheduleCheck, SCHEDULE_CHECK_INTERVAL_MS);
+
+  // Jobs this worker claimed before a crash or restart are still locked to it
+  const unfinishedJobs = await db.getWorkerJobs(WORKER_ID);
+  for (const job of unfinishedJobs) {
+    await processJob(job, Boolean(job.apify_run_id || job.profile_chunks?.length));
+  }
+
+  while (!isShuttingDown) {
+    let job: ScrapingJob | null = null;
+    try {
+      job = await db.claimNextJob(WORKER_ID);
+    } catch (error) {
+      console.error('❌ Error claiming job:', error);
+    }
+
+    if (job) {
+      await processJob(job, false);
+    } else {
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  clearInterval(scheduleTimer);
+  await scheduleCheck;
+  console.log(`👋 Worker ${WORKER_ID} stopped`);
+}
+
+// Finish the current job before exiting; a hard kill leaves it locked and it is resumed on restart
+const shutdown = () => {
+  console.log(`🛑 Worker ${WORKER_ID} shutting down after the current job...`);
+  isShuttingDown = true;
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+main().catch(error => {
+  console.error('❌ Worker crashed:', error);
+  process.exit(1);
+});